@@ -380,92 +380,72 @@ async function step5_submitVotes(
 
   step(5, `Submit votes for all participants${useWeights ? ' (with weights)' : ''}`);
 
-  const BATCH_SIZE = 5; // Number of votes to send concurrently in each batch
-  const voteIds: string[] = [];
-  const errors: Array<{ participant: TestParticipant; error: any; index: number }> = [];
-
-  // Split participants into batches
-  const batches: TestParticipant[][] = [];
-  for (let i = 0; i < participants.length; i += BATCH_SIZE) {
-    batches.push(participants.slice(i, i + BATCH_SIZE));
-  }
+  const CONCURRENCY = 5; // Number of votes prepared concurrently
+
+  // A single SDK casts the votes of every participant, sharing the circuits and the prover
+  const baseConfig = createSDKInstance(PRIVATE_KEY, false);
+  const votingSDK = new DavinciSDK(
+    censusType === CensusOrigin.CSP
+      ? {
+          ...baseConfig,
+          censusProviders: {
+            csp: createCSPCensusProvider(sdk, participants),
+          } as CensusProviders,
+        }
+      : baseConfig
+  );
+  await votingSDK.init();
 
-  info(`Submitting votes in ${batches.length} batches of up to ${BATCH_SIZE} votes each`);
+  const votes = participants.map((participant, index) => {
+    const weight = parseInt(participant.weight);
 
-  // Process each batch
-  for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-    const batch = batches[batchIndex];
-    const batchStartIndex = batchIndex * BATCH_SIZE;
-    
-    info(chalk.cyan(`\n📦 Processing batch ${batchIndex + 1}/${batches.length} (${batch.length} votes)`));
+    // Generate one random choice for the single question (0-3)
+    const choice = Math.floor(Math.random() * 4);
 
-    // Submit all votes in the batch concurrently
-    const batchPromises = batch.map(async (participant, indexInBatch) => {
-      const globalIndex = batchStartIndex + indexInBatch;
-      const weight = parseInt(participant.weight);
+    // Create one array of 4 positions (one-hot)
+    const choices = Array(4).fill(0);
 
-      // Generate one random choice for the single question (0-3)
-      const choice = Math.floor(Math.random() * 4);
+    // If using weights, multiply by participant weight
+    if (useWeights) {
+      choices[choice] = weight;
+    } else {
+      choices[choice] = 1;
+    }
 
-      // Create one array of 4 positions (one-hot)
-      const choices = Array(4).fill(0);
+    const colorChoice = ['Red', 'Blue', 'Green', 'Yellow'][choice];
 
-      // If using weights, multiply by participant weight
-      if (useWeights) {
-        choices[choice] = weight;
-      } else {
-        choices[choice] = 1;
-      }
+    info(
+      `[${index + 1}/${participants.length}] ${participant.address} (weight: ${weight}) voting: ${colorChoice}`
+    );
+    info(`   Choice array: [${choices.join(', ')}]`);
+
+    return { signer: new Wallet(participant.privateKey), processId, choices };
+  });
 
-      const colorChoice = ['Red', 'Blue', 'Green', 'Yellow'][choice];
+  info(`Submitting ${votes.length} votes, ${CONCURRENCY} at a time`);
 
-      info(
-        `[${globalIndex + 1}/${participants.length}] ${participant.address} (weight: ${weight}) voting: ${colorChoice}`
-      );
-      info(`   Choice array: [${choices.join(', ')}]`);
-
-      try {
-        const baseConfig = createSDKInstance(participant.privateKey, false);
-
-        const voterConfig: any =
-          censusType === CensusOrigin.CSP
-            ? {
-                ...baseConfig,
-                censusProviders: {
-                  csp: createCSPCensusProvider(sdk, participants),
-                } as CensusProviders,
-              }
-            : baseConfig;
-
-        const voterSDK = new DavinciSDK(voterConfig);
-        await voterSDK.init();
-
-        const voteResult = await voterSDK.submitVote({
-          processId,
-          choices, // Array of 4 positions
-        });
-
-        voteIds.push(voteResult.voteId);
-        success(`[${globalIndex + 1}/${participants.length}] ✅ Vote submitted: ${voteResult.voteId}`);
-
-        return { success: true, voteId: voteResult.voteId };
-      } catch (error) {
+  const report = await votingSDK.submitVotes(votes, {
+    concurrency: CONCURRENCY,
+    onVote: outcome => {
+      const position = `[${outcome.index + 1}/${participants.length}]`;
+      if ('result' in outcome) {
+        success(`${position} ✅ Vote submitted: ${outcome.result.voteId}`);
+      } else {
         // Log the error but don't throw - we want to try all votes
-        console.error(chalk.red(`[${globalIndex + 1}/${participants.length}] ❌ Failed to submit vote for ${participant.address}:`), error);
-        errors.push({ participant, error, index: globalIndex });
-        return { success: false, error };
+        console.error(
+          chalk.red(`${position} ❌ Failed to submit vote for ${outcome.voterAddress}:`),
+          outcome.error
+        );
       }
-    });
+    },
+  });
 
-    // Wait for all votes in this batch to complete
-    await Promise.all(batchPromises);
-    
-    // Small delay between batches
-    if (batchIndex < batches.length - 1) {
-      info(chalk.gray(`   Waiting 2 seconds before next batch...`));
-      await new Promise(r => setTimeout(r, 2000));
-    }
-  }
+  const voteIds = report.succeeded.map(({ result }) => result.voteId);
+  const errors = report.failed.map(({ index, error }) => ({
+    participant: participants[index],
+    message: error instanceof Error ? error.message : String(error),
+    index,
+  }));
 
   // Summary
   console.log(chalk.cyan('\n📊 Vote Submission Summary:'));
@@ -478,8 +458,8 @@ async function step5_submitVotes(
   // If there were any errors, throw them now after attempting all votes
   if (errors.length > 0) {
     console.error(chalk.red('\n❌ The following votes failed:'));
-    errors.forEach(({ participant, error, index }) => {
-      console.error(chalk.red(`   [${index + 1}] ${participant.address}: ${error.message || error}`));
+    errors.forEach(({ participant, message, index }) => {
+      console.error(chalk.red(`   [${index + 1}] ${participant.address}: ${message}`));
     });
     throw new Error(
       `Failed to submit ${errors.length} out of ${participants.length} votes. See above for details.`
@@ -16,13 +16,23 @@ const pkg = require('./package.json');
  */
 const FORCE_BUNDLE_DEPS = new Set(['buffer', 'circomlibjs', 'blake-hash']);
 
+/**
+ * Node builtins only imported on demand in Node.js
+ * (by NodeWorkerProvingExecutor and FileSystemArtifactStore).
+ * They are left as runtime imports instead of being polyfilled.
+ */
+const NODE_ONLY_BUILTINS = ['worker_threads', 'fs/promises'];
+
 const createBundle = (config, options) => ({
   ...config,
   input: options.input,
-  external: Object.keys(pkg.dependencies || {}).filter(dep => {
-    if (FORCE_BUNDLE_DEPS.has(dep)) return false;
-    return options.includeSnarkjs ? true : dep !== 'snarkjs';
-  }),
+  external: [
+    ...Object.keys(pkg.dependencies || {}).filter(dep => {
+      if (FORCE_BUNDLE_DEPS.has(dep)) return false;
+      return options.includeSnarkjs ? true : dep !== 'snarkjs';
+    }),
+    ...NODE_ONLY_BUILTINS,
+  ],
   onwarn(warning, warn) {
     // Suppress circular dependency warnings from stream polyfills
     // These are expected and harmless in Node.js stream implementations
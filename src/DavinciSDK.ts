@@ -1,16 +1,52 @@
 import { Signer } from 'ethers';
 import { VocdoniApiService } from './core/api/ApiService';
+import { AbortOptions } from './core/api/abort';
 import { ProcessRegistryService } from './contracts/ProcessRegistryService';
 import { DavinciCSP } from './sequencer/DavinciCSP';
 import { BallotInputGenerator } from './sequencer/BallotInputGenerator';
 import {
   ProcessOrchestrationService,
+  ProcessOrchestrationConfig,
   ProcessConfig,
   ProcessCreationResult,
   ProcessInfo,
+  ProcessTxOptions,
+  ProcessConfigValidation,
+  validateProcessConfig,
 } from './core/process';
-import { VoteOrchestrationService, VoteConfig, VoteResult, VoteStatusInfo } from './core/vote';
-import { VoteStatus } from './sequencer/api/types';
+import {
+  VoteOrchestrationService,
+  VoteConfig,
+  VotePackage,
+  VoteResult,
+  VoteStatusInfo,
+  VoteStreamEvent,
+  PreloadCircuitsOptions,
+  ConfirmVoteOverwriteOptions,
+  VoteOverwriteConfirmation,
+  BulkVote,
+  BulkVoteOptions,
+  BulkVoteReport,
+  BulkVoteService,
+  VoteReceipt,
+  VoteReceiptVerification,
+  verifyReceipt,
+  BallotAudit,
+  BallotAuditVerification,
+  ChallengeBallot,
+  verifyBallotAudit,
+  DerivedVoteRandomness,
+  DeterministicRandomnessOptions,
+  VerifyVoteRequestConfig,
+  VoteRequestVerification,
+  VoterEligibility,
+} from './core/vote';
+import { ProcessResults } from './core/ballot';
+import { createMetadataStorageRouter, MetadataStorage } from './core/metadata';
+import { ProvingExecutor } from './core/proving';
+import { ArtifactStore } from './core/artifacts';
+import { StatusUpdate, VoteRequest, VoteStatus } from './sequencer/api/types';
+import { StatusSubscriptionOptions, StatusTransport } from './sequencer/StatusSubscription';
 import { CensusProviders } from './census/types';
 
 /**
@@ -43,6 +79,47 @@ export interface DavinciSDKConfig {
 
   /** Whether to verify the generated proof is valid before submission (optional, defaults to true) */
   verifyProof?: boolean;
+
+  /**
+   * Whether getProcess fails when fetched metadata does not match the content hash in its URI
+   * (optional, defaults to false: the mismatch is reported in metadataStatus.hashMismatch)
+   */
+  strictMetadata?: boolean;
+
+  /**
+   * Backend used to store the metadata of new processes and to resolve metadata URIs
+   * (optional, defaults to the sequencer). `http(s)://` URIs are always resolvable: they go to
+   * this backend when it is an HttpMetadataStorage and to the sequencer otherwise
+   */
+  metadataStorage?: MetadataStorage;
+
+  /**
+   * Extra backends resolving metadata URIs by scheme, e.g. `{ ipfs: new IpfsMetadataStorage({ gateway }) }`
+   * (optional, `ipfs://` URIs are resolved by metadataStorage when it is an IpfsMetadataStorage,
+   * and through a public gateway otherwise)
+   */
+  metadataSchemes?: Record<string, MetadataStorage>;
+
+  /**
+   * Executor generating vote proofs, e.g. `new NodeWorkerProvingExecutor()` or
+   * `new WebWorkerProvingExecutor({ snarkjsUrl })` to prove off the main thread
+   * (optional, defaults to proving on the calling thread)
+   */
+  provingExecutor?: ProvingExecutor;
+
+  /**
+   * Persistent store for the circuit artifacts, e.g. `new FileSystemArtifactStore({ directory })`
+   * in Node.js or `new IndexedDbArtifactStore()` in browsers
+   * (optional, defaults to keeping them in memory for the SDK instance lifetime)
+   */
+  artifactStore?: ArtifactStore;
+
+  /**
+   * How vote status updates are received: "polling", "push" through the sequencer event
+   * stream, or "auto" to push when the sequencer supports it and poll otherwise. The event
+   * stream is not part of the documented sequencer API yet (optional, defaults to "polling")
+   */
+  statusTransport?: StatusTransport;
 }
 
 /**
@@ -58,6 +135,10 @@ interface InternalDavinciSDKConfig {
   fetchAddressesFromSequencer: boolean;
   verifyCircuitFiles: boolean;
   verifyProof: boolean;
+  strictMetadata: boolean;
+  provingExecutor?: ProvingExecutor;
+  artifactStore?: ArtifactStore;
+  statusTransport?: StatusTransport;
 }
 
 /**
@@ -77,6 +158,7 @@ export class DavinciSDK {
   private ballotInputGenerator?: BallotInputGenerator;
   private initialized = false;
   private censusProviders: CensusProviders;
+  private metadataStorage: MetadataStorage;
 
   constructor(config: DavinciSDKConfig) {
     const hasCustomAddresses = !!config.addresses && Object.keys(config.addresses).length > 0;
@@ -88,6 +170,10 @@ export class DavinciSDK {
       fetchAddressesFromSequencer: !hasCustomAddresses,
       verifyCircuitFiles: config.verifyCircuitFiles ?? true, // Default to true for security
       verifyProof: config.verifyProof ?? true, // Default to true for security
+      strictMetadata: config.strictMetadata ?? false,
+      provingExecutor: config.provingExecutor,
+      artifactStore: config.artifactStore,
+      statusTransport: config.statusTransport,
     };
 
     // Initialize API service
@@ -99,6 +185,13 @@ export class DavinciSDK {
     // Store census providers
     this.censusProviders = config.censusProviders || {};
 
+    // Route metadata URIs by scheme, storing new metadata in the configured backend
+    this.metadataStorage = createMetadataStorageRouter(
+      this.apiService.sequencer,
+      config.metadataStorage,
+      config.metadataSchemes
+    );
+
     // Contract services will be initialized lazily when accessed
   }
 
@@ -199,11 +292,26 @@ export class DavinciSDK {
     this.ensureProvider();
     if (!this._processOrchestrator) {
       const processRegistry = this.processes;
-      this._processOrchestrator = new ProcessOrchestrationService(processRegistry, this.apiService, this.config.signer);
+      this._processOrchestrator = new ProcessOrchestrationService(
+        processRegistry,
+        this.apiService,
+        this.config.signer,
+        this.processOrchestrationConfig
+      );
     }
     return this._processOrchestrator;
   }
 
+  /**
+   * Options shared by every process orchestrator instance
+   */
+  private get processOrchestrationConfig(): ProcessOrchestrationConfig {
+    return {
+      strictMetadata: this.config.strictMetadata,
+      metadataStorage: this.metadataStorage,
+    };
+  }
+
   /**
    * Get the vote orchestration service for simplified voting
    */
@@ -217,6 +325,10 @@ export class DavinciSDK {
         {
           verifyCircuitFiles: this.config.verifyCircuitFiles,
           verifyProof: this.config.verifyProof,
+          metadataStorage: this.metadataStorage,
+          provingExecutor: this.config.provingExecutor,
+          artifactStore: this.config.artifactStore,
+          statusTransport: this.config.statusTransport,
         }
       );
     }
@@ -231,8 +343,10 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * @param processId - The process ID to fetch
+   * @param options - Optional signal cancelling the request
    * @returns Promise resolving to user-friendly process information
    * @throws Error if signer does not have a provider
+   * @throws AbortError if the signal is aborted
    *
    * @example
    * ```typescript
@@ -257,13 +371,76 @@ export class DavinciSDK {
    * console.log("Raw data:", processInfo.raw);
    * ```
    */
-  async getProcess(processId: string): Promise<ProcessInfo> {
+  async getProcess(processId: string, options: AbortOptions = {}): Promise<ProcessInfo> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before getting processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    return processOrchestrator.getProcess(processId);
+    return processOrchestrator.getProcess(processId, options);
+  }
+
+  /**
+   * Gets the results of a process decoded into per-question, per-choice tallies.
+   * Combines the on-chain result fields, the ballot mode and the metadata questions.
+   *
+   * While the process is still running, or ended but the sequencer has not published
+   * the results yet, a `pending` status is returned instead.
+   *
+   * Requires a signer with a provider for blockchain interactions.
+   *
+   * @param processId - The process ID to fetch
+   * @returns Promise resolving to the decoded results or a pending status
+   * @throws Error if signer does not have a provider
+   * @throws Error if the metadata questions are not available or do not fit the ballot
+   *
+   * @example
+   * ```typescript
+   * const results = await sdk.getResults(processId);
+   *
+   * if (results.status === 'pending') {
+   *   console.log('Results not available yet, status:', results.processStatus);
+   * } else {
+   *   for (const question of results.questions) {
+   *     console.log(question.title, 'winner:', question.winner?.title ?? 'none');
+   *     question.choices.forEach(choice => {
+   *       console.log(`  ${choice.title}: ${choice.total} (${choice.percentage}%)`);
+   *     });
+   *   }
+   * }
+   * ```
+   */
+  async getResults(processId: string): Promise<ProcessResults> {
+    if (!this.initialized) {
+      throw new Error('SDK must be initialized before getting results. Call sdk.init() first.');
+    }
+    this.ensureProvider();
+    const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
+    return processOrchestrator.getResults(processId);
+  }
+
+  /**
+   * Validates a process configuration offline, returning every error and warning at once:
+   * questions against the ballot fields and value range, ballot sum bounds, maxVoters against
+   * the census size, census settings and timing. createProcess() and createProcessStream()
+   * run the same validation first and throw a ProcessConfigValidationError on errors.
+   *
+   * Does NOT require initialization or a provider - makes no network or chain call.
+   *
+   * @param config - The process configuration
+   * @returns The validation result
+   *
+   * @example
+   * ```typescript
+   * const { valid, errors, warnings } = sdk.validateProcessConfig(config);
+   * warnings.forEach(w => console.warn(`${w.field}: ${w.message}`));
+   * if (valid) {
+   *   await sdk.createProcess(config);
+   * }
+   * ```
+   */
+  validateProcessConfig(config: ProcessConfig): ProcessConfigValidation {
+    return validateProcessConfig(config);
   }
 
   /**
@@ -274,6 +451,7 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * @param config - Simplified process configuration
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    * @throws Error if signer does not have a provider
    *
@@ -336,19 +514,20 @@ export class DavinciSDK {
    * }
    * ```
    */
-  createProcessStream(config: ProcessConfig) {
-    return this.createProcessStreamInternal(config);
+  createProcessStream(config: ProcessConfig, options: ProcessTxOptions = {}) {
+    return this.createProcessStreamInternal(config, options);
   }
 
   private async *createProcessStreamInternal(
-    config: ProcessConfig
+    config: ProcessConfig,
+    options: ProcessTxOptions
   ): AsyncGenerator<any> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before creating processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForCurrentChain();
-    yield* processOrchestrator.createProcessStream(config);
+    yield* processOrchestrator.createProcessStream(config, options);
   }
 
   /**
@@ -360,6 +539,7 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * The method automatically:
+   * - Validates the configuration before any network or chain call (see validateProcessConfig())
    * - Gets encryption keys and initial state root from the sequencer
    * - Handles process creation signatures
    * - Coordinates between sequencer API and on-chain contract calls
@@ -367,7 +547,9 @@ export class DavinciSDK {
    * - Submits the on-chain transaction
    *
    * @param config - Simplified process configuration
+   * @param options - Optional transaction options
    * @returns Promise resolving to the process creation result
+   * @throws ProcessConfigValidationError if the configuration is invalid
    * @throws Error if signer does not have a provider
    *
    * @example
@@ -416,19 +598,24 @@ export class DavinciSDK {
    * });
    * ```
    */
-  async createProcess(config: ProcessConfig): Promise<ProcessCreationResult> {
+  async createProcess(
+    config: ProcessConfig,
+    options: ProcessTxOptions = {}
+  ): Promise<ProcessCreationResult> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before creating processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForCurrentChain();
-    return processOrchestrator.createProcess(config);
+    return processOrchestrator.createProcess(config, options);
   }
 
   /**
    * Submit a vote with simplified configuration.
    * This is the ultra-easy method for end users that handles all the complex voting workflow internally.
    *
+   * For progress updates while the vote is prepared, use submitVoteStream() instead.
+   *
    * Does NOT require a provider - can be used with a bare Wallet for signing only.
    * IMPORTANT: Requires censusUrl to be configured in the SDK for fetching census proofs (unless using custom census providers).
    *
@@ -441,6 +628,7 @@ export class DavinciSDK {
    * @param config - Simplified vote configuration
    * @returns Promise resolving to vote submission result
    * @throws Error if censusUrl is not configured (unless using custom census providers)
+   * @throws AlreadyVotedError if the voter has already voted and `allowOverwrite` is not set
    *
    * @example
    * ```typescript
@@ -463,6 +651,12 @@ export class DavinciSDK {
    *   choices: [2], // Single question vote
    *   voterKey: voterWallet
    * });
+   *
+   * // Submit structured answers keyed by question index
+   * await sdk.submitVote({
+   *   processId: "0x1234567890abcdef...",
+   *   answers: { 0: 1, 1: [0, 2] }
+   * });
    * ```
    */
   async submitVote(config: VoteConfig): Promise<VoteResult> {
@@ -481,6 +675,363 @@ export class DavinciSDK {
     return this.voteOrchestrator.submitVote(config);
   }
 
+  /**
+   * Submits a vote, yielding an event as each stage starts and completes, so that apps can
+   * show what is happening while the vote is prepared. Stages run in the order of the
+   * VoteStage enum: fetching process, fetching census proof, building inputs, downloading
+   * circuits (with byte progress events), proving, verifying proof, signing, submitting and
+   * fetching the initial status. The last event carries the vote result and the stage timings.
+   *
+   * Does NOT require a provider - can be used with a bare Wallet for signing only.
+   *
+   * @param config - Simplified vote configuration
+   * @returns AsyncGenerator yielding vote stage events
+   * @throws VoteStageError carrying the failing stage, with the original error as `cause`
+   *
+   * @example
+   * ```typescript
+   * const stream = sdk.submitVoteStream({ processId, choices: [1, 0] });
+   *
+   * try {
+   *   for await (const event of stream) {
+   *     switch (event.type) {
+   *       case 'stage-started':
+   *         console.log(`${event.stage}...`);
+   *         break;
+   *       case 'download-progress':
+   *         console.log(`${event.progress.artifact}: ${event.progress.loadedBytes} bytes`);
+   *         break;
+   *       case 'stage-completed':
+   *         console.log(`${event.stage} took ${event.durationMs}ms`);
+   *         break;
+   *       case 'completed':
+   *         console.log('Vote ID:', event.result.voteId);
+   *         break;
+   *     }
+   *   }
+   * } catch (error) {
+   *   if (error instanceof VoteStageError) {
+   *     console.error(`Failed while ${error.stage}:`, error.cause);
+   *   }
+   * }
+   * ```
+   */
+  submitVoteStream(config: VoteConfig): AsyncGenerator<VoteStreamEvent, VoteResult> {
+    return this.submitVoteStreamInternal(config);
+  }
+
+  private async *submitVoteStreamInternal(
+    config: VoteConfig
+  ): AsyncGenerator<VoteStreamEvent, VoteResult> {
+    if (!this.initialized) {
+      throw new Error('SDK must be initialized before submitting votes. Call sdk.init() first.');
+    }
+
+    if (!this.config.censusUrl && !this.censusProviders.merkle && !this.censusProviders.csp) {
+      throw new Error(
+        'Census URL is required for voting. ' +
+          'Provide censusUrl in the SDK constructor config, or use custom census providers.'
+      );
+    }
+
+    return yield* this.voteOrchestrator.submitVoteStream(config);
+  }
+
+  /**
+   * Prepares a fully proven and signed vote without submitting it.
+   * The returned package is plain JSON and can be stored, sent to a relay, or submitted
+   * later (for example when the network is back) with submitPreparedVote().
+   *
+   * Does NOT require a provider - can be used with a bare Wallet for signing only.
+   *
+   * @param config - Simplified vote configuration
+   * @returns Promise resolving to the vote package
+   * @throws Error if censusUrl is not configured (unless using custom census providers)
+   *
+   * @example
+   * ```typescript
+   * const votePackage = await sdk.prepareVote({ processId, choices: [1, 0] });
+   * localStorage.setItem('pending-vote', serializeVotePackage(votePackage));
+   *
+   * // Later, possibly on another device
+   * const stored = deserializeVotePackage(localStorage.getItem('pending-vote')!);
+   * const result = await sdk.submitPreparedVote(stored);
+   * ```
+   */
+  async prepareVote(config: VoteConfig): Promise<VotePackage> {
+    if (!this.initialized) {
+      throw new Error('SDK must be initialized before preparing votes. Call sdk.init() first.');
+    }
+
+    if (!this.config.censusUrl && !this.censusProviders.merkle && !this.censusProviders.csp) {
+      throw new Error(
+        'Census URL is required for voting. ' +
+          'Provide censusUrl in the SDK constructor config, or use custom census providers.'
+      );
+    }
+
+    return this.voteOrchestrator.prepareVote(config);
+  }
+
+  /**
+   * Submits a vote prepared with prepareVote().
+   * Before sending, the package is checked against the current process: the process must
+   * still accept votes and use the same encryption key and ballot mode.
+   *
+   * Does NOT require a provider or census access - the package already holds the proof and signature.
+   *
+   * @param votePackage - The prepared vote
+   * @param options - Optional signal cancelling the submission
+   * @returns Promise resolving to vote submission result
+   * @throws VotePackageError if the package no longer matches the process
+   */
+  async submitPreparedVote(
+    votePackage: VotePackage,
+    options: AbortOptions = {}
+  ): Promise<VoteResult> {
+    if (!this.initialized) {
+      throw new Error('SDK must be initialized before submitting votes. Call sdk.init() first.');
+    }
+
+    return this.voteOrchestrator.submitPreparedVote(votePackage, options);
+  }
+
+  /**
+   * Verifies a vote receipt returned in `VoteResult.receipt`: recomputes the ballot inputs
+   * hash, checks the vote ID and ciphertexts against the encrypted randomness and choices
+   * when the receipt password is given, and reads the vote status recorded by the sequencer.
+   *
+   * Does NOT require initialization or a provider - uses API calls only.
+   *
+   * @param receipt - The vote receipt
+   * @param options - Optional receipt password
+   * @returns Promise resolving to the verification outcome
+   *
+   * @example
+   * ```typescript
+   * const result = await sdk.submitVote({ processId, choices: [1], receiptPassword: 'hunter2' });
+   * localStorage.setItem('receipt', JSON.stringify(result.receipt));
+   *
+   * // Later
+   * const receipt = JSON.parse(localStorage.getItem('receipt')!);
+   * const verification = await sdk.verifyReceipt(receipt, { password: 'hunter2' });
+   * console.log(verification.valid, verification.status, verification.choices);
+   * ```
+   */
+  async verifyReceipt(
+    receipt: VoteReceipt,
+    options: { password?: string } = {}
+  ): Promise<VoteReceiptVerification> {
+    return verifyReceipt(receipt, { sequencer: this.apiService.sequencer, ...options });
+  }
+
+  /**
+   * Encrypts a ballot for a cast-or-audit (Benaloh) challenge, without proving or submitting it.
+   * Show the voter the ballot fingerprint, then either cast the ballot or audit it. An audit
+   * reveals the randomness, so anyone can check that the ciphertexts encrypt the voter's
+   * choices; audited ballots cannot be cast, and the voter encrypts a new ballot to vote.
+   *
+   * Does NOT require a provider - can be used with a bare Wallet for signing only.
+   *
+   * @param config - Simplified vote configuration, without `randomness`
+   * @returns Promise resolving to the encrypted ballot
+   * @throws Error if censusUrl is not configured (unless using custom census providers)
+   *
+   * @example
+   * ```typescript
+   * let ballot = await sdk.encryptBallot({ processId, choices: [1, 0] });
+   * while (await voterWantsToAudit(ballot.fingerprint)) {
+   *   const verification = await sdk.verifyBallotAudit(ballot.audit());
+   *   console.log('Ballot encrypts', verification.valid ? 'my choices' : 'something else');
+   *   ballot = await sdk.encryptBallot({ processId, choices: [1, 0] });
+   * }
+   * const result = await ballot.cast();
+   * ```
+   */
+  async encryptBallot(config: VoteConfig): Promise<ChallengeBallot> {
+    if (!this.initialized) {
+      throw new Error('SDK must be initialized before encrypting ballots. Call sdk.init() first.');
+    }
+
+    if (!this.config.censusUrl && !this.censusProviders.merkle && !this.censusProviders.csp) {
+      throw new Error(
+        'Census URL is required for voting. ' +
+          'Provide censusUrl in the SDK constructor config, or use custom census providers.'
+      );
+    }
+
+    return this.voteOrchestrator.encryptBallot(config);
+  }
+
+  /**
+   * Verifies an audited ballot: re-encrypts the revealed choices with the revealed randomness
+   * and the encryption key read from the process, and compares them with the audited ciphertexts.
+   *
+   * Does NOT require initialization or a provider - uses API calls only.
+   *
+   * @param audit - The audit returned by ChallengeBallot.audit()
+   * @returns Promise resolving to the verification outcome
+   */
+  async verifyBallotAudit(audit: BallotAudit): Promise<BallotAuditVerification> {
+    const process = await this.apiService.sequencer.getProcess(audit.processId);
+    return verifyBallotAudit(audit, { encryptionKey: process.encryptionKey });
+  }
+
+  /**
+   * Verifies a vote request independently: recomputes the ballot inputs hash from the
+   * ciphertexts, address, vote ID, weight and ballot mode, verifies the ballot proof
+   * against the circuit verification key, and checks the voter's signature over the vote ID.
+   *
+   * The process data, verification key and voter weight are read from the sequencer unless
+   * given. To verify without trusting the sequencer, pass them from independent sources.
+   *
+   * Does NOT require initialization or a provider - uses API calls only.
+   *
+   * @param request - The vote request, as submitted to the sequencer
+   * @param config - Optional process data, verification key, weight and signal
+   * @returns Promise resolving to the verification outcome, with the failed checks
+   *
+   * @example
+   * ```typescript
+   * const verification = await sdk.verifyVoteRequest(request, {
+   *   process: { encryptionKey, ballotMode }, // e.g. read from the process registry
+   * });
+   * if (!verification.valid) {
+   *   console.error('Rejecting vote:', verification.reasons);
+   * }
+   * ```
+   */
+  async verifyVoteRequest(
+    request: VoteRequest,
+    config: VerifyVoteRequestConfig = {}
+  ): Promise<VoteRequestVerification> {
+    return this.voteOrchestrator.verifyVoteRequest(request, config);
+  }
+
+  /**
+   * Derives the vote randomness of the signer from a signature over a message bound to the
+   * process, as a vote with `deterministicRandomness` does. Signing again gives the same
+   * randomness, so the voter can rebuild their ballot later to audit it, or compare the
+   * vote ID with their recorded vote, without having stored anything.
+   *
+   * Does NOT require initialization or a provider - the signer only signs a message.
+   *
+   * @param processId - The process ID
+   * @param options - Optional derivation nonce (default: 0)
+   * @returns Promise resolving to the randomness and the vote ID it gives
+   *
+   * @example
+   * ```typescript
+   * await sdk.submitVote({ processId, choices: [1], deterministicRandomness: true });
+   *
+   * // Later, on another device with the same wallet
+   * const { voteId } = await sdk.deriveVoteRandomness(processId);
+   * const { status } = await sdk.getVoteStatus(processId, voteId);
+   * console.log('My vote is', status);
+   * ```
+   */
+  async deriveVoteRandomness(
+    processId: string,
+    options: DeterministicRandomnessOptions = {}
+  ): Promise<DerivedVoteRandomness> {
+    return this.voteOrchestrator.deriveVoteRandomness(processId, options);
+  }
+
+  /**
+   * Submits votes of many signers, for QA and demo tooling.
+   * All votes share this SDK's ballot input generator, proving executor and circuit cache.
+   * Proofs run with bounded concurrency, steps failing with transient sequencer errors are
+   * retried, and each vote is reported as submitted or failed instead of stopping the batch.
+   *
+   * Does NOT require a provider - signers only sign the votes.
+   *
+   * @param votes - The votes, each with its own signer
+   * @param options - Concurrency, retry and settlement options
+   * @returns Promise resolving to the submitted and failed votes
+   * @throws Error if censusUrl is not configured (unless using custom census providers)
+   *
+   * @example
+   * ```typescript
+   * const wallets = Array.from({ length: 100 }, () => Wallet.createRandom());
+   * const { succeeded, failed } = await sdk.submitVotes(
+   *   wallets.map((signer, i) => ({ signer, processId, choices: [i % 2] })),
+   *   { concurrency: 2, retries: 3, waitUntilSettled: { timeoutMs: 600000 } }
+   * );
+   * console.log(`${succeeded.length} votes submitted, ${failed.length} failed`);
+   * ```
+   */
+  async submitVotes(votes: BulkVote[], options: BulkVoteOptions = {}): Promise<BulkVoteReport> {
+    if (!this.initialized) {
+      throw new Error('SDK must be initialized before submitting votes. Call sdk.init() first.');
+    }
+
+    if (!this.config.censusUrl && !this.censusProviders.merkle && !this.censusProviders.csp) {
+      throw new Error(
+        'Census URL is required for voting. ' +
+          'Provide censusUrl in the SDK constructor config, or use custom census providers.'
+      );
+    }
+
+    return new BulkVoteService(this.voteOrchestrator).submitVotes(votes, options);
+  }
+
+  /**
+   * Confirms that a vote replacing a previous one was counted as an overwrite.
+   * Waits for the vote to settle, then compares the process voters and overwritten
+   * votes counters with the ones read before the vote was submitted.
+   *
+   * Does NOT require a provider - uses API calls only.
+   *
+   * @param result - The result of a vote submitted with `allowOverwrite: true`
+   * @param options - Optional timeout and polling interval
+   * @returns Promise resolving to the overwrite confirmation
+   * @throws Error if the vote did not replace a previous vote
+   *
+   * @example
+   * ```typescript
+   * const result = await sdk.submitVote({ processId, choices: [0], allowOverwrite: true });
+   * if (result.overwrite) {
+   *   console.log('Replacing vote', result.overwrite.previousVoteId ?? '(unknown ID)');
+   *   const confirmation = await sdk.confirmVoteOverwrite(result);
+   *   console.log('Overwrite confirmed:', confirmation.confirmed);
+   * }
+   * ```
+   */
+  async confirmVoteOverwrite(
+    result: VoteResult,
+    options: ConfirmVoteOverwriteOptions = {}
+  ): Promise<VoteOverwriteConfirmation> {
+    if (!this.initialized) {
+      throw new Error(
+        'SDK must be initialized before confirming vote overwrites. Call sdk.init() first.'
+      );
+    }
+
+    return this.voteOrchestrator.confirmVoteOverwrite(result, options);
+  }
+
+  /**
+   * Downloads and verifies the circuit artifacts ahead of the first vote, so that
+   * submitVote() does not wait for them. With an artifact store configured, artifacts
+   * stored by a previous session are reused and the ones of older circuits are evicted.
+   *
+   * Does NOT require initialization or a provider - uses API calls only.
+   *
+   * @param options - Optional progress callback
+   *
+   * @example
+   * ```typescript
+   * await sdk.preloadCircuits({
+   *   onProgress: ({ artifact, status, loadedBytes, totalBytes }) => {
+   *     console.log(artifact, status, totalBytes ? loadedBytes / totalBytes : loadedBytes);
+   *   },
+   * });
+   * ```
+   */
+  async preloadCircuits(options: PreloadCircuitsOptions = {}): Promise<void> {
+    return this.voteOrchestrator.preloadCircuits(options);
+  }
+
   /**
    * Get the status of a submitted vote.
    *
@@ -561,6 +1112,45 @@ export class DavinciSDK {
     return this.apiService.sequencer.isAddressAbleToVote(processId, address);
   }
 
+  /**
+   * Check whether an address can vote in a process, in a single report: census membership
+   * and weight, previous votes, process status, time until the voting period starts or
+   * ends, census origin, and whether the CSP census proof provider it needs is configured.
+   * Each reason the address cannot vote carries a machine-readable code.
+   *
+   * Does NOT require a provider - uses API calls only.
+   *
+   * @param processId - The process ID
+   * @param address - The voter's address (default: the SDK signer's address)
+   * @param signal - Optional signal to abort the lookups
+   * @returns Promise resolving to the eligibility report
+   *
+   * @example
+   * ```typescript
+   * const eligibility = await sdk.getVoterEligibility(processId);
+   * if (!eligibility.eligible) {
+   *   for (const { code, message } of eligibility.reasons) {
+   *     console.log(code, message);
+   *   }
+   * } else {
+   *   console.log(`Voting ends in ${eligibility.secondsUntilEnd}s`);
+   * }
+   * ```
+   */
+  async getVoterEligibility(
+    processId: string,
+    address?: string,
+    signal?: AbortSignal
+  ): Promise<VoterEligibility> {
+    if (!this.initialized) {
+      throw new Error(
+        'SDK must be initialized before checking voter eligibility. Call sdk.init() first.'
+      );
+    }
+
+    return this.voteOrchestrator.getVoterEligibility(processId, address, signal);
+  }
+
   /**
    * Get the voting weight for an address in a process.
    *
@@ -634,6 +1224,8 @@ export class DavinciSDK {
       targetStatus?: VoteStatus;
       timeoutMs?: number;
       pollIntervalMs?: number;
+      maxPollIntervalMs?: number;
+      signal?: AbortSignal;
     }
   ) {
     if (!this.initialized) {
@@ -645,6 +1237,44 @@ export class DavinciSDK {
     return this.voteOrchestrator.watchVoteStatus(processId, voteId, options);
   }
 
+  /**
+   * Subscribe to the vote status and sequencer statistics updates of a process.
+   * A single subscription follows many votes: updates are polled, or pushed by the sequencer
+   * when opted in through the `statusTransport` option. The current state is delivered
+   * first, then each change.
+   *
+   * Does NOT require a provider - uses API calls only.
+   *
+   * @param options - The process, votes and statistics to follow, and an optional signal
+   * @returns AsyncGenerator yielding status updates until the loop is left or the signal aborted
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * for await (const update of sdk.subscribeStatus({
+   *   processId,
+   *   voteIds: [vote1.voteId, vote2.voteId],
+   *   stats: true,
+   *   signal: controller.signal,
+   * })) {
+   *   if (update.type === 'vote-status') {
+   *     console.log(`Vote ${update.voteId}: ${update.status}`);
+   *   } else {
+   *     console.log(`Pending votes: ${update.stats.pendingVotesCount}`);
+   *   }
+   * }
+   * ```
+   */
+  subscribeStatus(options: StatusSubscriptionOptions): AsyncGenerator<StatusUpdate> {
+    if (!this.initialized) {
+      throw new Error(
+        'SDK must be initialized before subscribing to status updates. Call sdk.init() first.'
+      );
+    }
+
+    return this.voteOrchestrator.subscribeStatus(options);
+  }
+
   /**
    * Wait for a vote to reach a specific status.
    * This is a simpler alternative to watchVoteStatus() that returns only the final status.
@@ -656,8 +1286,10 @@ export class DavinciSDK {
    * @param voteId - The vote ID
    * @param targetStatus - The target status to wait for (default: "settled")
    * @param timeoutMs - Maximum time to wait in milliseconds (default: 300000 = 5 minutes)
-   * @param pollIntervalMs - Polling interval in milliseconds (default: 5000 = 5 seconds)
+   * @param pollIntervalMs - Initial polling interval in milliseconds (default: 5000 = 5 seconds)
+   * @param signal - Optional signal cancelling the wait
    * @returns Promise resolving to final vote status
+   * @throws AbortError if the signal is aborted
    *
    * @example
    * ```typescript
@@ -684,7 +1316,8 @@ export class DavinciSDK {
     voteId: string,
     targetStatus: VoteStatus = VoteStatus.Settled,
     timeoutMs: number = 300000,
-    pollIntervalMs: number = 5000
+    pollIntervalMs: number = 5000,
+    signal?: AbortSignal
   ): Promise<VoteStatusInfo> {
     if (!this.initialized) {
       throw new Error(
@@ -697,7 +1330,8 @@ export class DavinciSDK {
       voteId,
       targetStatus,
       timeoutMs,
-      pollIntervalMs
+      pollIntervalMs,
+      signal
     );
   }
 
@@ -709,6 +1343,7 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * @param processId - The process ID to end
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    * @throws Error if signer does not have a provider
    *
@@ -734,19 +1369,20 @@ export class DavinciSDK {
    * }
    * ```
    */
-  endProcessStream(processId: string) {
-    return this.endProcessStreamInternal(processId);
+  endProcessStream(processId: string, options: ProcessTxOptions = {}) {
+    return this.endProcessStreamInternal(processId, options);
   }
 
   private async *endProcessStreamInternal(
-    processId: string
+    processId: string,
+    options: ProcessTxOptions
   ): AsyncGenerator<any> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before ending processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    yield* processOrchestrator.endProcessStream(processId);
+    yield* processOrchestrator.endProcessStream(processId, options);
   }
 
   /**
@@ -758,6 +1394,7 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * @param processId - The process ID to end
+   * @param options - Optional transaction options
    * @returns Promise resolving when the process is ended
    * @throws Error if signer does not have a provider
    *
@@ -767,13 +1404,13 @@ export class DavinciSDK {
    * console.log("Process ended successfully");
    * ```
    */
-  async endProcess(processId: string): Promise<void> {
+  async endProcess(processId: string, options: ProcessTxOptions = {}): Promise<void> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before ending processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    return processOrchestrator.endProcess(processId);
+    return processOrchestrator.endProcess(processId, options);
   }
 
   /**
@@ -784,6 +1421,7 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * @param processId - The process ID to pause
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    * @throws Error if signer does not have a provider
    *
@@ -809,19 +1447,20 @@ export class DavinciSDK {
    * }
    * ```
    */
-  pauseProcessStream(processId: string) {
-    return this.pauseProcessStreamInternal(processId);
+  pauseProcessStream(processId: string, options: ProcessTxOptions = {}) {
+    return this.pauseProcessStreamInternal(processId, options);
   }
 
   private async *pauseProcessStreamInternal(
-    processId: string
+    processId: string,
+    options: ProcessTxOptions
   ): AsyncGenerator<any> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before pausing processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    yield* processOrchestrator.pauseProcessStream(processId);
+    yield* processOrchestrator.pauseProcessStream(processId, options);
   }
 
   /**
@@ -833,6 +1472,7 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * @param processId - The process ID to pause
+   * @param options - Optional transaction options
    * @returns Promise resolving when the process is paused
    * @throws Error if signer does not have a provider
    *
@@ -842,13 +1482,13 @@ export class DavinciSDK {
    * console.log("Process paused successfully");
    * ```
    */
-  async pauseProcess(processId: string): Promise<void> {
+  async pauseProcess(processId: string, options: ProcessTxOptions = {}): Promise<void> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before pausing processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    return processOrchestrator.pauseProcess(processId);
+    return processOrchestrator.pauseProcess(processId, options);
   }
 
   /**
@@ -859,6 +1499,7 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * @param processId - The process ID to cancel
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    * @throws Error if signer does not have a provider
    *
@@ -884,19 +1525,20 @@ export class DavinciSDK {
    * }
    * ```
    */
-  cancelProcessStream(processId: string) {
-    return this.cancelProcessStreamInternal(processId);
+  cancelProcessStream(processId: string, options: ProcessTxOptions = {}) {
+    return this.cancelProcessStreamInternal(processId, options);
   }
 
   private async *cancelProcessStreamInternal(
-    processId: string
+    processId: string,
+    options: ProcessTxOptions
   ): AsyncGenerator<any> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before canceling processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    yield* processOrchestrator.cancelProcessStream(processId);
+    yield* processOrchestrator.cancelProcessStream(processId, options);
   }
 
   /**
@@ -908,6 +1550,7 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * @param processId - The process ID to cancel
+   * @param options - Optional transaction options
    * @returns Promise resolving when the process is canceled
    * @throws Error if signer does not have a provider
    *
@@ -917,13 +1560,13 @@ export class DavinciSDK {
    * console.log("Process canceled successfully");
    * ```
    */
-  async cancelProcess(processId: string): Promise<void> {
+  async cancelProcess(processId: string, options: ProcessTxOptions = {}): Promise<void> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before canceling processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    return processOrchestrator.cancelProcess(processId);
+    return processOrchestrator.cancelProcess(processId, options);
   }
 
   /**
@@ -933,6 +1576,7 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * @param processId - The process ID to resume
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    * @throws Error if signer does not have a provider
    *
@@ -958,19 +1602,20 @@ export class DavinciSDK {
    * }
    * ```
    */
-  resumeProcessStream(processId: string) {
-    return this.resumeProcessStreamInternal(processId);
+  resumeProcessStream(processId: string, options: ProcessTxOptions = {}) {
+    return this.resumeProcessStreamInternal(processId, options);
   }
 
   private async *resumeProcessStreamInternal(
-    processId: string
+    processId: string,
+    options: ProcessTxOptions
   ): AsyncGenerator<any> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before resuming processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    yield* processOrchestrator.resumeProcessStream(processId);
+    yield* processOrchestrator.resumeProcessStream(processId, options);
   }
 
   /**
@@ -983,6 +1628,7 @@ export class DavinciSDK {
    * Requires a signer with a provider for blockchain interactions.
    *
    * @param processId - The process ID to resume
+   * @param options - Optional transaction options
    * @returns Promise resolving when the process is resumed
    * @throws Error if signer does not have a provider
    *
@@ -992,13 +1638,13 @@ export class DavinciSDK {
    * console.log("Process resumed successfully");
    * ```
    */
-  async resumeProcess(processId: string): Promise<void> {
+  async resumeProcess(processId: string, options: ProcessTxOptions = {}): Promise<void> {
     if (!this.initialized) {
       throw new Error('SDK must be initialized before resuming processes. Call sdk.init() first.');
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    return processOrchestrator.resumeProcess(processId);
+    return processOrchestrator.resumeProcess(processId, options);
   }
 
   /**
@@ -1010,6 +1656,7 @@ export class DavinciSDK {
    *
    * @param processId - The process ID
    * @param maxVoters - The new maximum number of voters
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    * @throws Error if signer does not have a provider
    *
@@ -1035,13 +1682,18 @@ export class DavinciSDK {
    * }
    * ```
    */
-  setProcessMaxVotersStream(processId: string, maxVoters: number) {
-    return this.setProcessMaxVotersStreamInternal(processId, maxVoters);
+  setProcessMaxVotersStream(
+    processId: string,
+    maxVoters: number,
+    options: ProcessTxOptions = {}
+  ) {
+    return this.setProcessMaxVotersStreamInternal(processId, maxVoters, options);
   }
 
   private async *setProcessMaxVotersStreamInternal(
     processId: string,
-    maxVoters: number
+    maxVoters: number,
+    options: ProcessTxOptions
   ): AsyncGenerator<any> {
     if (!this.initialized) {
       throw new Error(
@@ -1050,7 +1702,7 @@ export class DavinciSDK {
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    yield* processOrchestrator.setProcessMaxVotersStream(processId, maxVoters);
+    yield* processOrchestrator.setProcessMaxVotersStream(processId, maxVoters, options);
   }
 
   /**
@@ -1063,6 +1715,7 @@ export class DavinciSDK {
    *
    * @param processId - The process ID
    * @param maxVoters - The new maximum number of voters
+   * @param options - Optional transaction options
    * @returns Promise resolving when the maxVoters is updated
    * @throws Error if signer does not have a provider
    *
@@ -1072,7 +1725,11 @@ export class DavinciSDK {
    * console.log("MaxVoters updated successfully");
    * ```
    */
-  async setProcessMaxVoters(processId: string, maxVoters: number): Promise<void> {
+  async setProcessMaxVoters(
+    processId: string,
+    maxVoters: number,
+    options: ProcessTxOptions = {}
+  ): Promise<void> {
     if (!this.initialized) {
       throw new Error(
         'SDK must be initialized before setting process maxVoters. Call sdk.init() first.'
@@ -1080,7 +1737,7 @@ export class DavinciSDK {
     }
     this.ensureProvider();
     const processOrchestrator = await this.getProcessOrchestratorForProcessId(processId);
-    return processOrchestrator.setProcessMaxVoters(processId, maxVoters);
+    return processOrchestrator.setProcessMaxVoters(processId, maxVoters, options);
   }
 
   /**
@@ -1162,7 +1819,8 @@ export class DavinciSDK {
         this._processOrchestrator = new ProcessOrchestrationService(
           processRegistry,
           this.apiService,
-          this.config.signer
+          this.config.signer,
+          this.processOrchestrationConfig
         );
       }
       return this._processOrchestrator;
@@ -1185,7 +1843,8 @@ export class DavinciSDK {
     const processOrchestrator = new ProcessOrchestrationService(
       processRegistry,
       this.apiService,
-      this.config.signer
+      this.config.signer,
+      this.processOrchestrationConfig
     );
     this.processOrchestratorByChainId.set(chainId, processOrchestrator);
     if (!this._processOrchestrator) {
@@ -1263,7 +1922,8 @@ export class DavinciSDK {
     const processOrchestrator = new ProcessOrchestrationService(
       processRegistry,
       this.apiService,
-      this.config.signer
+      this.config.signer,
+      this.processOrchestrationConfig
     );
     this.processOrchestratorByVersion.set(processVersion, processOrchestrator);
     return processOrchestrator;
@@ -3,7 +3,13 @@ import {
   ProcessRegistry__factory,
   type ProcessRegistry,
 } from '@vocdoni/davinci-contracts';
-import { SmartContractService } from './SmartContractService';
+import {
+  checkTxOptions,
+  SmartContractService,
+  TxOptions,
+  TxOverrides,
+  TxPreflight,
+} from './SmartContractService';
 import type { ContractRunner } from 'ethers';
 import { BallotMode, CensusData, EncryptionKey } from '../core';
 import {
@@ -22,15 +28,10 @@ import type {
   ProcessStateTransitionedCallback,
   ProcessResultsSetCallback,
   ProcessMaxVotersChangedCallback,
+  ProcessStatus,
 } from './types';
 
-export enum ProcessStatus {
-  READY = 0,
-  ENDED = 1,
-  CANCELED = 2,
-  PAUSED = 3,
-  RESULTS = 4,
-}
+export { ProcessStatus } from './types';
 
 export class ProcessRegistryService extends SmartContractService {
   private contract: ProcessRegistry;
@@ -106,33 +107,10 @@ export class ProcessRegistryService extends SmartContractService {
     ballotMode: BallotMode,
     census: CensusData,
     metadata: string,
-    encryptionKey: EncryptionKey
+    encryptionKey: EncryptionKey,
+    options: TxOptions = {}
   ) {
-    const contractBallotMode = {
-      uniqueValues: ballotMode.uniqueValues,
-      numFields: ballotMode.numFields,
-      groupSize: ballotMode.groupSize ?? ballotMode.numFields,
-      costExponent: ballotMode.costExponent,
-      maxValue: BigInt(ballotMode.maxValue),
-      minValue: BigInt(ballotMode.minValue),
-      maxValueSum: BigInt(ballotMode.maxValueSum),
-      minValueSum: BigInt(ballotMode.minValueSum),
-    };
-
-    const contractEncryptionKey = {
-      x: BigInt(encryptionKey.x),
-      y: BigInt(encryptionKey.y),
-    };
-
-    // Convert CensusData type from core to contract format
-    const contractCensus = {
-      censusOrigin: BigInt(census.censusOrigin),
-      censusRoot: census.censusRoot,
-      contractAddress: census.contractAddress ?? '0x0000000000000000000000000000000000000000',
-      censusURI: census.censusURI,
-      onchainAllowAnyValidRoot: census.onchainAllowAnyValidRoot ?? false,
-    };
-
+    checkTxOptions(options);
     return this.sendTx(
       this.contract
         .newProcess(
@@ -140,72 +118,79 @@ export class ProcessRegistryService extends SmartContractService {
           startTime,
           duration,
           maxVoters,
-          contractBallotMode,
-          contractCensus,
+          toContractBallotMode(ballotMode),
+          toContractCensus(census),
           metadata,
-          contractEncryptionKey
+          toContractEncryptionKey(encryptionKey),
+          { ...options.overrides }
         )
         .catch(e => {
           throw new ProcessCreateError(e.message, 'create');
         }),
-      async () => ({ success: true })
+      async () => ({ success: true }),
+      options.confirmations
     );
   }
 
-  setProcessStatus(processID: string, newStatus: ProcessStatus) {
+  setProcessStatus(processID: string, newStatus: ProcessStatus, options: TxOptions = {}) {
+    checkTxOptions(options);
     return this.sendTx(
-      this.contract.setProcessStatus(processID, newStatus).catch(e => {
+      this.contract.setProcessStatus(processID, newStatus, { ...options.overrides }).catch(e => {
         throw new ProcessStatusError(e.message, 'setStatus');
       }),
-      async () => ({ success: true })
+      async () => ({ success: true }),
+      options.confirmations
     );
   }
 
-  setProcessCensus(processID: string, census: CensusData) {
-    // Convert CensusData type from core to contract format
-    const contractCensus = {
-      censusOrigin: BigInt(census.censusOrigin),
-      censusRoot: census.censusRoot,
-      contractAddress: census.contractAddress ?? '0x0000000000000000000000000000000000000000',
-      censusURI: census.censusURI,
-      onchainAllowAnyValidRoot: census.onchainAllowAnyValidRoot ?? false,
-    };
-
+  setProcessCensus(processID: string, census: CensusData, options: TxOptions = {}) {
+    checkTxOptions(options);
     return this.sendTx(
-      this.contract.setProcessCensus(processID, contractCensus).catch(e => {
-        throw new ProcessCensusError(e.message, 'setCensus');
-      }),
-      async () => ({ success: true })
+      this.contract
+        .setProcessCensus(processID, toContractCensus(census), { ...options.overrides })
+        .catch(e => {
+          throw new ProcessCensusError(e.message, 'setCensus');
+        }),
+      async () => ({ success: true }),
+      options.confirmations
     );
   }
 
-  setProcessDuration(processID: string, duration: number) {
+  setProcessDuration(processID: string, duration: number, options: TxOptions = {}) {
+    checkTxOptions(options);
     return this.sendTx(
-      this.contract.setProcessDuration(processID, duration).catch(e => {
+      this.contract.setProcessDuration(processID, duration, { ...options.overrides }).catch(e => {
         throw new ProcessDurationError(e.message, 'setDuration');
       }),
-      async () => ({ success: true })
+      async () => ({ success: true }),
+      options.confirmations
     );
   }
 
-  setProcessMaxVoters(processID: string, maxVoters: number) {
+  setProcessMaxVoters(processID: string, maxVoters: number, options: TxOptions = {}) {
+    checkTxOptions(options);
     return this.sendTx(
-      this.contract.setProcessMaxVoters(processID, maxVoters).catch(e => {
+      this.contract.setProcessMaxVoters(processID, maxVoters, { ...options.overrides }).catch(e => {
         throw new ProcessDurationError(e.message, 'setMaxVoters');
       }),
-      async () => ({ success: true })
+      async () => ({ success: true }),
+      options.confirmations
     );
   }
 
   /**
    * Matches the on-chain `submitStateTransition(processId, proof, input)`
    */
-  submitStateTransition(processID: string, proof: string, input: string) {
+  submitStateTransition(processID: string, proof: string, input: string, options: TxOptions = {}) {
+    checkTxOptions(options);
     return this.sendTx(
-      this.contract.submitStateTransition(processID, proof, input).catch(e => {
-        throw new ProcessStateTransitionError(e.message, 'submitStateTransition');
-      }),
-      async () => ({ success: true })
+      this.contract
+        .submitStateTransition(processID, proof, input, { ...options.overrides })
+        .catch(e => {
+          throw new ProcessStateTransitionError(e.message, 'submitStateTransition');
+        }),
+      async () => ({ success: true }),
+      options.confirmations
     );
   }
 
@@ -217,12 +202,116 @@ export class ProcessRegistryService extends SmartContractService {
    * @param input - Input data for the proof verification
    * @returns A transaction stream that resolves to success status
    */
-  setProcessResults(processID: string, proof: string, input: string) {
+  setProcessResults(processID: string, proof: string, input: string, options: TxOptions = {}) {
+    checkTxOptions(options);
     return this.sendTx(
-      this.contract.setProcessResults(processID, proof, input).catch(e => {
-        throw new ProcessResultError(e.message, 'setResults');
-      }),
-      async () => ({ success: true })
+      this.contract
+        .setProcessResults(processID, proof, input, { ...options.overrides })
+        .catch(e => {
+          throw new ProcessResultError(e.message, 'setResults');
+        }),
+      async () => ({ success: true }),
+      options.confirmations
+    );
+  }
+
+  // ─── PREFLIGHT ─────────────────────────────────────────────────────
+
+  /**
+   * Simulates newProcess() and estimates its gas and fees, without sending it.
+   * Takes the same arguments as newProcess(), and the overrides of the transaction to send.
+   *
+   * @returns The simulation outcome, with the decoded revert reason when it would revert
+   */
+  estimateNewProcess(
+    status: ProcessStatus,
+    startTime: number,
+    duration: number,
+    maxVoters: number,
+    ballotMode: BallotMode,
+    census: CensusData,
+    metadata: string,
+    encryptionKey: EncryptionKey,
+    overrides?: TxOverrides
+  ): Promise<TxPreflight> {
+    return this.preflightTx(
+      this.contract,
+      this.contract.newProcess,
+      [
+        status,
+        startTime,
+        duration,
+        maxVoters,
+        toContractBallotMode(ballotMode),
+        toContractCensus(census),
+        metadata,
+        toContractEncryptionKey(encryptionKey),
+      ],
+      overrides
+    );
+  }
+
+  /**
+   * Simulates setProcessStatus() and estimates its gas and fees, without sending it.
+   */
+  estimateSetProcessStatus(
+    processID: string,
+    newStatus: ProcessStatus,
+    overrides?: TxOverrides
+  ): Promise<TxPreflight> {
+    return this.preflightTx(
+      this.contract,
+      this.contract.setProcessStatus,
+      [processID, newStatus],
+      overrides
+    );
+  }
+
+  /**
+   * Simulates setProcessCensus() and estimates its gas and fees, without sending it.
+   */
+  estimateSetProcessCensus(
+    processID: string,
+    census: CensusData,
+    overrides?: TxOverrides
+  ): Promise<TxPreflight> {
+    return this.preflightTx(
+      this.contract,
+      this.contract.setProcessCensus,
+      [processID, toContractCensus(census)],
+      overrides
+    );
+  }
+
+  /**
+   * Simulates setProcessDuration() and estimates its gas and fees, without sending it.
+   */
+  estimateSetProcessDuration(
+    processID: string,
+    duration: number,
+    overrides?: TxOverrides
+  ): Promise<TxPreflight> {
+    return this.preflightTx(
+      this.contract,
+      this.contract.setProcessDuration,
+      [processID, duration],
+      overrides
+    );
+  }
+
+  /**
+   * Simulates setProcessMaxVoters() and estimates its gas and fees, without sending it.
+   */
+  estimateSetProcessMaxVoters(
+    processID: string,
+    maxVoters: number,
+    overrides?: TxOverrides
+  ): Promise<TxPreflight> {
+    return this.preflightTx(
+      this.contract,
+      this.contract.setProcessMaxVoters,
+      [processID, maxVoters],
+      overrides
     );
   }
 
@@ -289,3 +378,34 @@ export class ProcessRegistryService extends SmartContractService {
     this.clearPollingIntervals();
   }
 }
+
+function toContractBallotMode(ballotMode: BallotMode) {
+  return {
+    uniqueValues: ballotMode.uniqueValues,
+    numFields: ballotMode.numFields,
+    groupSize: ballotMode.groupSize ?? ballotMode.numFields,
+    costExponent: ballotMode.costExponent,
+    maxValue: BigInt(ballotMode.maxValue),
+    minValue: BigInt(ballotMode.minValue),
+    maxValueSum: BigInt(ballotMode.maxValueSum),
+    minValueSum: BigInt(ballotMode.minValueSum),
+  };
+}
+
+function toContractEncryptionKey(encryptionKey: EncryptionKey) {
+  return {
+    x: BigInt(encryptionKey.x),
+    y: BigInt(encryptionKey.y),
+  };
+}
+
+// Converts CensusData type from core to contract format
+function toContractCensus(census: CensusData) {
+  return {
+    censusOrigin: BigInt(census.censusOrigin),
+    censusRoot: census.censusRoot,
+    contractAddress: census.contractAddress ?? '0x0000000000000000000000000000000000000000',
+    censusURI: census.censusURI,
+    onchainAllowAnyValidRoot: census.onchainAllowAnyValidRoot ?? false,
+  };
+}
@@ -1,10 +1,16 @@
-import type {
-  ContractTransactionResponse,
-  BaseContract,
-  EventFilter,
-  Provider,
-  ContractEventName,
+import {
+  isError,
+  type ContractTransactionResponse,
+  type TransactionReceipt,
+  type TransactionResponse,
+  type BaseContract,
+  type CallExceptionError,
+  type EventFilter,
+  type FeeData,
+  type Provider,
+  type ContractEventName,
 } from 'ethers';
+import { TxReplacedError } from './errors';
 
 /**
  * Enum representing the possible states of a transaction during its lifecycle.
@@ -19,8 +25,20 @@ export enum TxStatus {
   Reverted = 'reverted',
   /** Transaction failed before or during submission */
   Failed = 'failed',
+  /** Transaction was mined and is waiting for more confirmations */
+  Confirming = 'confirming',
+  /** Transaction was replaced by another one with the same nonce */
+  Replaced = 'replaced',
 }
 
+/**
+ * Why a transaction was replaced:
+ * - `repriced`: same call with other fees (sped up), the stream follows the replacement
+ * - `cancelled`: empty transaction to the sender itself
+ * - `replaced`: any other transaction with the same nonce
+ */
+export type TxReplacementReason = 'repriced' | 'cancelled' | 'replaced';
+
 /**
  * Union type representing the different events that can occur during a transaction's lifecycle.
  * Each event includes relevant data based on the transaction status.
@@ -31,7 +49,83 @@ export type TxStatusEvent<T = any> =
   | { status: TxStatus.Pending; hash: string }
   | { status: TxStatus.Completed; response: T }
   | { status: TxStatus.Reverted; reason?: string }
-  | { status: TxStatus.Failed; error: Error };
+  | { status: TxStatus.Failed; error: Error }
+  | { status: TxStatus.Confirming; hash: string; confirmations: number; required: number }
+  | {
+      status: TxStatus.Replaced;
+      hash: string;
+      replacementHash: string;
+      reason: TxReplacementReason;
+    };
+
+/**
+ * Per-call transaction overrides. Unset fields are filled in by the signer.
+ */
+export interface TxOverrides {
+  /** Gas limit, e.g. TxPreflight.gasLimit with some margin */
+  gasLimit?: bigint;
+  /** Gas price, for legacy transactions */
+  gasPrice?: bigint;
+  /** Max fee per gas, for EIP-1559 transactions */
+  maxFeePerGas?: bigint;
+  /** Max priority fee per gas, for EIP-1559 transactions */
+  maxPriorityFeePerGas?: bigint;
+  /** Nonce, e.g. to replace a stuck transaction */
+  nonce?: number;
+}
+
+/**
+ * Options for sending a transaction
+ */
+export interface TxOptions {
+  /** Gas, fee and nonce overrides for this transaction */
+  overrides?: TxOverrides;
+  /**
+   * Number of confirmations to wait for before completing, a positive integer (default: 1).
+   * When greater than 1, a Confirming event is yielded for every confirmation.
+   */
+  confirmations?: number;
+}
+
+/**
+ * Checks the options of a transaction before it is sent
+ * @throws Error if the number of confirmations is not a positive integer
+ */
+export function checkTxOptions(options: TxOptions): void {
+  const { confirmations } = options;
+  if (confirmations !== undefined && (!Number.isInteger(confirmations) || confirmations < 1)) {
+    throw new Error('confirmations must be a positive integer');
+  }
+}
+
+/**
+ * Outcome of simulating a transaction before sending it.
+ * Gas and fee estimates are only set when the simulation succeeds.
+ */
+export interface TxPreflight {
+  /** Whether the simulated transaction succeeds */
+  success: boolean;
+  /** Decoded revert reason (require message or custom error) when the simulation reverts */
+  revertReason?: string;
+  /** Estimated gas limit */
+  gasLimit?: bigint;
+  /** Current gas price, for legacy transactions */
+  gasPrice?: bigint;
+  /** Current max fee per gas, for EIP-1559 transactions */
+  maxFeePerGas?: bigint;
+  /** Current max priority fee per gas, for EIP-1559 transactions */
+  maxPriorityFeePerGas?: bigint;
+  /** Upper bound of the transaction fee in wei: gasLimit × (maxFeePerGas or gasPrice) */
+  maxFee?: bigint;
+}
+
+/**
+ * Contract method that can be simulated, such as a typed ethers contract method
+ */
+export interface SimulatableMethod {
+  staticCall(...args: unknown[]): Promise<unknown>;
+  estimateGas(...args: unknown[]): Promise<bigint>;
+}
 
 /**
  * Abstract base class providing common functionality for smart contract interactions.
@@ -48,9 +142,14 @@ export abstract class SmartContractService {
    * This method handles the complete transaction flow from submission to completion,
    * including error handling and status updates.
    *
+   * If the transaction is replaced by another one with the same nonce, a Replaced event is
+   * yielded. A repriced transaction is followed through its replacement; any other
+   * replacement fails the stream with a TxReplacedError.
+   *
    * @template T - The type of the successful response data
    * @param txPromise - Promise resolving to the transaction response
    * @param responseHandler - Function to process the successful transaction result
+   * @param confirmations - Number of confirmations to wait for (default: 1)
    * @returns AsyncGenerator yielding transaction status events
    *
    * @example
@@ -74,13 +173,50 @@ export abstract class SmartContractService {
    */
   protected async *sendTx<T>(
     txPromise: Promise<ContractTransactionResponse>,
-    responseHandler: () => Promise<T>
+    responseHandler: () => Promise<T>,
+    confirmations: number = 1
   ): AsyncGenerator<TxStatusEvent<T>, void, unknown> {
     try {
-      const tx = await txPromise;
+      let tx: TransactionResponse = await txPromise;
       yield { status: TxStatus.Pending, hash: tx.hash };
 
-      const receipt = await tx.wait();
+      let receipt: TransactionReceipt | null = null;
+      for (let confirmed = 1; confirmed <= confirmations; confirmed++) {
+        try {
+          receipt = await tx.wait(confirmed);
+        } catch (err) {
+          if (!isError(err, 'TRANSACTION_REPLACED')) {
+            throw err;
+          }
+          yield {
+            status: TxStatus.Replaced,
+            hash: tx.hash,
+            replacementHash: err.hash,
+            reason: err.reason,
+          };
+          if (err.cancelled) {
+            yield {
+              status: TxStatus.Failed,
+              error: new TxReplacedError(tx.hash, err.hash, err.reason),
+            };
+            return;
+          }
+          tx = err.replacement;
+          receipt = err.receipt;
+        }
+
+        if (!receipt || receipt.status === 0) {
+          break;
+        }
+        if (confirmations > 1) {
+          yield {
+            status: TxStatus.Confirming,
+            hash: tx.hash,
+            confirmations: confirmed,
+            required: confirmations,
+          };
+        }
+      }
 
       if (!receipt) {
         yield { status: TxStatus.Reverted, reason: 'Transaction was dropped or not mined.' };
@@ -98,6 +234,85 @@ export abstract class SmartContractService {
     }
   }
 
+  /**
+   * Simulates a transaction with a static call and, when it succeeds, estimates its gas
+   * and fees. Nothing is signed or sent.
+   *
+   * @param contract - The contract the method belongs to (its runner provides the fee data)
+   * @param method - The contract method to simulate
+   * @param args - The method arguments
+   * @param overrides - Overrides of the transaction to send, applied to the simulation
+   * @returns The simulation outcome, with the decoded revert reason when the static call
+   * or the gas estimate reverts
+   * @throws Error if the simulation or estimation fails for another reason than a revert
+   *
+   * @example
+   * ```typescript
+   * const preflight = await this.preflightTx(this.contract, this.contract.someMethod, [arg]);
+   * if (!preflight.success) {
+   *   console.error(`Would revert: ${preflight.revertReason}`);
+   * }
+   * ```
+   */
+  protected async preflightTx(
+    contract: BaseContract,
+    method: SimulatableMethod,
+    args: unknown[],
+    overrides?: TxOverrides
+  ): Promise<TxPreflight> {
+    const callArgs = overrides ? [...args, { ...overrides }] : args;
+    try {
+      await method.staticCall(...callArgs);
+    } catch (err) {
+      if (isError(err, 'CALL_EXCEPTION')) {
+        return { success: false, revertReason: this.describeRevert(err) };
+      }
+      throw err;
+    }
+
+    const provider = contract.runner?.provider as Provider | undefined;
+    let gasLimit: bigint;
+    let feeData: FeeData | null;
+    try {
+      [gasLimit, feeData] = await Promise.all([
+        method.estimateGas(...callArgs),
+        provider ? provider.getFeeData() : null,
+      ]);
+    } catch (err) {
+      // The estimate runs against a later block and may revert where the static call did not
+      if (isError(err, 'CALL_EXCEPTION')) {
+        return { success: false, revertReason: this.describeRevert(err) };
+      }
+      throw err;
+    }
+    const gasPrice = feeData?.gasPrice ?? undefined;
+    const maxFeePerGas = feeData?.maxFeePerGas ?? undefined;
+    const feePerGas = maxFeePerGas ?? gasPrice;
+
+    return {
+      success: true,
+      gasLimit,
+      gasPrice,
+      maxFeePerGas,
+      maxPriorityFeePerGas: feeData?.maxPriorityFeePerGas ?? undefined,
+      maxFee: feePerGas !== undefined ? gasLimit * feePerGas : undefined,
+    };
+  }
+
+  /**
+   * Describes why a simulated call reverted: the require message or panic reason,
+   * the decoded custom error, or the raw revert data as a last resort.
+   */
+  private describeRevert(err: CallExceptionError): string {
+    if (err.reason) {
+      return err.reason;
+    }
+    if (err.revert) {
+      return `${err.revert.name}(${err.revert.args.map(arg => String(arg)).join(', ')})`;
+    }
+    return err.data ? `unknown custom error (data: ${err.data})` : err.shortMessage;
+  }
+
   /**
    * Executes a transaction stream and returns the result or throws an error.
    * This is a convenience method that processes a transaction stream and either
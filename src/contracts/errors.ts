@@ -5,6 +5,8 @@
  * All errors extend from ContractServiceError and include operation context for better debugging.
  */
 
+import type { TxReplacementReason } from './SmartContractService';
+
 /**
  * Abstract base class for all contract service errors.
  * Provides consistent error structure with operation context.
@@ -59,3 +61,41 @@ export class ProcessStateTransitionError extends ContractServiceError {}
  * Error thrown when process result setting fails.
  */
 export class ProcessResultError extends ContractServiceError {}
+
+/**
+ * Error thrown when a transaction simulation reverts, before the transaction is sent.
+ */
+export class TxPreflightError extends ContractServiceError {
+  /**
+   * Creates a new TxPreflightError instance.
+   *
+   * @param revertReason - The decoded revert reason
+   * @param operation - The operation whose transaction would revert
+   */
+  constructor(
+    public readonly revertReason: string,
+    operation: string
+  ) {
+    super(`Transaction would revert: ${revertReason}`, operation);
+  }
+}
+
+/**
+ * Error thrown when a sent transaction is cancelled or replaced by another call with the same nonce.
+ */
+export class TxReplacedError extends ContractServiceError {
+  /**
+   * Creates a new TxReplacedError instance.
+   *
+   * @param hash - Hash of the replaced transaction
+   * @param replacementHash - Hash of the transaction that was mined instead
+   * @param reason - Why the transaction was replaced
+   */
+  constructor(
+    public readonly hash: string,
+    public readonly replacementHash: string,
+    public readonly reason: TxReplacementReason
+  ) {
+    super(`Transaction ${hash} was ${reason} by ${replacementHash}`, 'sendTx');
+  }
+}
@@ -11,6 +11,17 @@
  */
 export type EntityCallback<T extends any[]> = (...args: T) => void;
 
+/**
+ * Status of a process in the process registry.
+ */
+export enum ProcessStatus {
+  READY = 0,
+  ENDED = 1,
+  CANCELED = 2,
+  PAUSED = 3,
+  RESULTS = 4,
+}
+
 
 /**
  * Callback for when a process is created.
@@ -1,3 +1,5 @@
+import { abortError } from './abort';
+
 export interface ApiError {
   error: string;
   code: number;
@@ -15,6 +17,20 @@ export interface RequestConfig {
   headers?: Record<string, string>;
   signal?: AbortSignal;
   timeoutMs?: number;
+  /** Return the response body as text instead of parsing it (default: 'json') */
+  responseType?: 'json' | 'text';
+}
+
+/**
+ * An event received on a Server-Sent Events stream
+ */
+export interface ServerSentEvent {
+  /** Event type (`message` when the server does not name it) */
+  event: string;
+  /** Event data, with the lines of multi-line data joined by `\n` */
+  data: string;
+  /** Event ID, if the server sent one */
+  id?: string;
 }
 
 export interface BaseServiceConfig {
@@ -97,39 +113,95 @@ export class BaseService {
       }
 
       const response = await this.fetchImpl(url.toString(), init);
-      const payload = await this.parseResponsePayload(response);
+      const payload =
+        config.responseType === 'text'
+          ? await response.text()
+          : await this.parseResponsePayload(response);
 
       if (!response.ok) {
-        const apiPayload = payload as Partial<ApiError> | undefined;
-        const message =
-          (typeof apiPayload?.error === 'string' && apiPayload.error) ||
-          response.statusText ||
-          `HTTP ${response.status}`;
-        const code = apiPayload?.code ?? response.status ?? 500;
-        const error = new Error(message);
-        (error as ErrorWithCode).code = code;
-        throw error;
+        throw this.responseError(response, payload);
       }
 
       return payload as T;
     } catch (err) {
-      if (this.hasErrorCode(err)) {
-        throw err;
-      }
-
-      const message = err instanceof Error ? err.message : 'Unknown request error';
-      const code =
-        err instanceof Error && err.name === 'AbortError'
-          ? 'ECONNABORTED'
-          : this.readErrorCode(err) ?? 500;
-      const error = new Error(message);
-      (error as ErrorWithCode).code = code;
-      throw error;
+      throw this.requestError(err, config.signal);
     } finally {
       cleanup();
     }
   }
 
+  /**
+   * Opens a Server-Sent Events stream and yields its events until the server closes it.
+   * The stream is closed when the consumer stops iterating or the signal is aborted.
+   * Streams are long-lived: the default request timeout does not apply.
+   *
+   * @throws Error with the response error code if the request fails, or with code 406
+   * if the response is not an event stream
+   */
+  protected async *streamEvents(config: RequestConfig): AsyncGenerator<ServerSentEvent> {
+    try {
+      const url = new URL(this.resolveUrl(config.url));
+      this.appendQueryParams(url, config.params);
+
+      const headers = new Headers(this.defaultHeaders);
+      headers.set('Accept', 'text/event-stream');
+
+      const response = await this.fetchImpl(url.toString(), {
+        method: 'GET',
+        headers,
+        signal: config.signal,
+      });
+
+      if (!response.ok) {
+        throw this.responseError(response, await this.parseResponsePayload(response));
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!response.body || !/text\/event-stream/i.test(contentType)) {
+        await response.body?.cancel();
+        const error = new Error('Response is not an event stream');
+        (error as ErrorWithCode).code = 406;
+        throw error;
+      }
+
+      yield* parseEventStream(response.body);
+    } catch (err) {
+      throw this.requestError(err, config.signal);
+    }
+  }
+
+  private responseError(response: Response, payload: unknown): Error {
+    const apiPayload = payload as Partial<ApiError> | undefined;
+    const message =
+      (typeof apiPayload?.error === 'string' && apiPayload.error) ||
+      response.statusText ||
+      `HTTP ${response.status}`;
+    const code = apiPayload?.code ?? response.status ?? 500;
+    const error = new Error(message);
+    (error as ErrorWithCode).code = code;
+    return error;
+  }
+
+  private requestError(err: unknown, signal?: AbortSignal): Error {
+    if (signal?.aborted) {
+      return abortError(signal);
+    }
+
+    // Timeouts surface as an AbortError whose DOMException code is not an API error code
+    if (this.hasErrorCode(err) && err.name !== 'AbortError') {
+      return err;
+    }
+
+    const message = err instanceof Error ? err.message : 'Unknown request error';
+    const code =
+      err instanceof Error && err.name === 'AbortError'
+        ? 'ECONNABORTED'
+        : this.readErrorCode(err) ?? 500;
+    const error = new Error(message);
+    (error as ErrorWithCode).code = code;
+    return error;
+  }
+
   private appendQueryParams(url: URL, params?: object): void {
     if (!params) return;
 
@@ -230,3 +302,66 @@ export class BaseService {
     return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
   }
 }
+
+/**
+ * Parses a Server-Sent Events body, cancelling it when the consumer stops iterating
+ */
+async function* parseEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+  let id: string | undefined;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.replace(/\r$/, '');
+        if (line === '') {
+          // A blank line dispatches the event
+          if (data.length > 0) {
+            yield { event, data: data.join('\n'), ...(id !== undefined && { id }) };
+          }
+          event = 'message';
+          data = [];
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') event = fieldValue;
+        else if (field === 'data') data.push(fieldValue);
+        else if (field === 'id') id = fieldValue;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Whether a failed request is worth retrying: timeouts, connection failures,
+ * rate limiting and 5xx responses
+ */
+export function isTransientSequencerError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'number') {
+    return code === 429 || (code >= 500 && code < 600);
+  }
+  return (
+    typeof code === 'string' &&
+    ['ECONNABORTED', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT'].includes(code)
+  );
+}
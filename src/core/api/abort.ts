@@ -0,0 +1,145 @@
+/**
+ * Options of operations that can be cancelled
+ */
+export interface AbortOptions {
+  /** Signal cancelling the operation: it then fails with an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error thrown when an operation is cancelled through its AbortSignal.
+ * The abort reason given to `AbortController.abort()` is available as `cause`.
+ */
+export class AbortError extends Error {
+  constructor(public readonly cause?: unknown) {
+    super('The operation was aborted');
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Returns the AbortError a cancelled operation fails with
+ * @internal
+ */
+export function abortError(signal: AbortSignal): AbortError {
+  const reason: unknown = signal.reason;
+  return reason instanceof AbortError ? reason : new AbortError(reason);
+}
+
+/**
+ * Throws an AbortError if the signal was aborted
+ * @internal
+ */
+export function checkAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+/**
+ * Rejects with an AbortError as soon as the signal is aborted, without waiting for the
+ * promise. Use it for work that cannot be interrupted; the work itself keeps running.
+ * @internal
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
+
+/**
+ * Waits for a delay, failing with an AbortError as soon as the signal is aborted
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Returns a signal aborted after a delay or when the given signal is aborted, whichever
+ * comes first. Call `clear()` once done to cancel the timer.
+ * @internal
+ */
+export function timeoutSignal(
+  ms: number,
+  signal?: AbortSignal
+): { signal: AbortSignal; timedOut: () => boolean; clear: () => void } {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort(signal?.reason);
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, ms);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Relays the events of a stream until the signal is aborted, then fails with an
+ * AbortError and closes the stream without waiting for its pending step.
+ * @internal
+ */
+export async function* abortableStream<T>(
+  stream: AsyncIterable<T>,
+  signal?: AbortSignal
+): AsyncGenerator<T> {
+  const iterator = stream[Symbol.asyncIterator]();
+  try {
+    for (;;) {
+      const next = await abortable(iterator.next(), signal);
+      if (next.done) return;
+      yield next.value;
+    }
+  } finally {
+    iterator.return?.().catch(() => undefined);
+  }
+}
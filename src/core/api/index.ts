@@ -1,2 +1,4 @@
 export * from './BaseService';
 export * from './ApiService';
+export { AbortError } from './abort';
+export type { AbortOptions } from './abort';
@@ -0,0 +1,18 @@
+export {
+  InMemoryArtifactStore,
+  FileSystemArtifactStore,
+  IndexedDbArtifactStore,
+  CacheApiArtifactStore,
+} from './store';
+export type {
+  ArtifactStore,
+  FileSystemArtifactStoreOptions,
+  IndexedDbArtifactStoreOptions,
+  CacheApiArtifactStoreOptions,
+} from './store';
+export { CircuitArtifactLoader } from './loader';
+export type {
+  CircuitArtifactName,
+  CircuitArtifactProgress,
+  CircuitArtifactLoaderOptions,
+} from './loader';
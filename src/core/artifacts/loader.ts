@@ -0,0 +1,225 @@
+import { sha256 } from 'ethers';
+import { InfoResponse } from '../../sequencer/api/types';
+import { ArtifactStore } from './store';
+
+/**
+ * Circuit artifacts needed to generate and verify vote proofs
+ */
+export type CircuitArtifactName = 'circuit' | 'provingKey' | 'verificationKey';
+
+const ARTIFACT_FILES: Record<
+  CircuitArtifactName,
+  { url: keyof InfoResponse; hash: keyof InfoResponse; filename: string }
+> = {
+  circuit: { url: 'circuitUrl', hash: 'circuitHash', filename: 'circuit.wasm' },
+  provingKey: { url: 'provingKeyUrl', hash: 'provingKeyHash', filename: 'proving_key.zkey' },
+  verificationKey: {
+    url: 'verificationKeyUrl',
+    hash: 'verificationKeyHash',
+    filename: 'verification_key.json',
+  },
+};
+
+/**
+ * Progress of a circuit artifact load
+ */
+export interface CircuitArtifactProgress {
+  /** The artifact being loaded */
+  artifact: CircuitArtifactName;
+  /**
+   * - `downloading`: bytes are being received (emitted repeatedly)
+   * - `cached`: the artifact was already available and verified
+   * - `downloaded`: the artifact was downloaded, verified and stored
+   */
+  status: 'downloading' | 'cached' | 'downloaded';
+  /** Bytes received so far */
+  loadedBytes: number;
+  /** Total size, when known */
+  totalBytes?: number;
+}
+
+/**
+ * Options for CircuitArtifactLoader
+ */
+export interface CircuitArtifactLoaderOptions {
+  /** Persistent store for downloaded artifacts (default: none, artifacts are only kept in memory) */
+  store?: ArtifactStore;
+  /** Whether to verify artifacts against their advertised hashes (default: true) */
+  verify?: boolean;
+  /** Custom fetch implementation */
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Downloads circuit artifacts, keeping them in memory and in an optional persistent store.
+ *
+ * Artifacts are keyed by the hashes advertised by the sequencer: when the sequencer
+ * advertises new hashes, entries of the previous circuits are evicted. Artifacts read
+ * from the persistent store are verified again, as the store may outlive the process.
+ */
+export class CircuitArtifactLoader {
+  private readonly store?: ArtifactStore;
+  private readonly verify: boolean;
+  private readonly fetchImpl: typeof fetch;
+  private readonly memory = new Map<string, Uint8Array>();
+  private readonly inflight = new Map<string, Promise<Uint8Array>>();
+  private currentKeys?: string;
+
+  constructor(options: CircuitArtifactLoaderOptions = {}) {
+    this.store = options.store;
+    this.verify = options.verify ?? true;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Returns the key an artifact is cached under
+   */
+  static keyOf(info: InfoResponse, artifact: CircuitArtifactName): string {
+    const { url, hash } = ARTIFACT_FILES[artifact];
+    return String(info[hash] || info[url]).toLowerCase();
+  }
+
+  /**
+   * Loads an artifact from memory, the store or the network
+   *
+   * @param info - Sequencer info advertising the artifact URLs and hashes
+   * @param artifact - The artifact to load
+   * @param onProgress - Optional progress callback
+   * @returns The artifact bytes
+   * @throws Error if the artifact URL or, when verifying, its hash is not advertised,
+   * the download fails or the artifact does not match its hash
+   */
+  async load(
+    info: InfoResponse,
+    artifact: CircuitArtifactName,
+    onProgress?: (progress: CircuitArtifactProgress) => void
+  ): Promise<Uint8Array> {
+    await this.evictStale(info);
+
+    const key = CircuitArtifactLoader.keyOf(info, artifact);
+    // Buffers transferred to a proving worker are detached and must be loaded again
+    const cached = this.memory.get(key);
+    if (cached && cached.byteLength > 0) {
+      onProgress?.({ artifact, status: 'cached', loadedBytes: cached.byteLength });
+      return cached;
+    }
+
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.fetchArtifact(info, artifact, key, onProgress).finally(() =>
+        this.inflight.delete(key)
+      );
+      this.inflight.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Deletes stored artifacts whose keys are no longer advertised by the sequencer
+   */
+  async evictStale(info: InfoResponse): Promise<void> {
+    const current = (Object.keys(ARTIFACT_FILES) as CircuitArtifactName[]).map(artifact =>
+      CircuitArtifactLoader.keyOf(info, artifact)
+    );
+    const signature = current.join(',');
+    if (this.currentKeys === signature) return;
+    this.currentKeys = signature;
+
+    for (const key of this.memory.keys()) {
+      if (!current.includes(key)) this.memory.delete(key);
+    }
+    if (this.store) {
+      const stale = (await this.store.keys()).filter(key => !current.includes(key));
+      await Promise.all(stale.map(key => this.store?.delete(key)));
+    }
+  }
+
+  private async fetchArtifact(
+    info: InfoResponse,
+    artifact: CircuitArtifactName,
+    key: string,
+    onProgress?: (progress: CircuitArtifactProgress) => void
+  ): Promise<Uint8Array> {
+    const { url, hash, filename } = ARTIFACT_FILES[artifact];
+    const location = info[url];
+    if (typeof location !== 'string' || !location) {
+      throw new Error(`Cannot fetch ${filename}: the sequencer does not advertise ${url}`);
+    }
+    const advertisedHash = info[hash];
+    const expectedHash = typeof advertisedHash === 'string' ? advertisedHash : '';
+    if (this.verify && !expectedHash) {
+      throw new Error(`Cannot verify ${filename}: the sequencer does not advertise ${hash}`);
+    }
+    // Artifacts without an advertised hash cannot be identified across sequencer updates
+    const store = expectedHash ? this.store : undefined;
+
+    const stored = await store?.get(key);
+    if (stored && stored.byteLength > 0) {
+      if (!this.verify || this.matches(stored, expectedHash)) {
+        this.memory.set(key, stored);
+        onProgress?.({ artifact, status: 'cached', loadedBytes: stored.byteLength });
+        return stored;
+      }
+      await store?.delete(key);
+    }
+
+    const bytes = await this.download(
+      location,
+      filename,
+      onProgress && (loaded => onProgress({ artifact, status: 'downloading', ...loaded }))
+    );
+    if (this.verify && !this.matches(bytes, expectedHash)) {
+      throw new Error(
+        `Hash verification failed for ${filename}. ` +
+          `Expected: ${expectedHash.toLowerCase()}, ` +
+          `Computed: ${sha256(bytes).slice(2).toLowerCase()}`
+      );
+    }
+
+    await store?.put(key, bytes);
+    this.memory.set(key, bytes);
+    onProgress?.({ artifact, status: 'downloaded', loadedBytes: bytes.byteLength });
+    return bytes;
+  }
+
+  private async download(
+    url: string,
+    filename: string,
+    onChunk?: (loaded: { loadedBytes: number; totalBytes?: number }) => void
+  ): Promise<Uint8Array> {
+    const response = await this.fetchImpl(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${filename} at ${url}: ${response.status}`);
+    }
+
+    // Without progress reporting, avoid holding the chunks and the final buffer at once
+    if (!onChunk || !response.body) {
+      return new Uint8Array(await response.arrayBuffer());
+    }
+
+    const length = Number(response.headers.get('content-length'));
+    const totalBytes = length > 0 ? length : undefined;
+    const chunks: Uint8Array[] = [];
+    let loadedBytes = 0;
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loadedBytes += value.byteLength;
+      onChunk({ loadedBytes, totalBytes });
+    }
+
+    const bytes = new Uint8Array(loadedBytes);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return bytes;
+  }
+
+  private matches(bytes: Uint8Array, expectedHash: string): boolean {
+    return sha256(bytes).slice(2).toLowerCase() === expectedHash.toLowerCase();
+  }
+}
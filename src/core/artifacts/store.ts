@@ -0,0 +1,230 @@
+/**
+ * Persistent storage for circuit artifacts (circuit wasm, proving key, verification key).
+ * Entries are keyed by the artifact hashes advertised by the sequencer. A store is owned
+ * by the SDK: keys that are no longer advertised are deleted from it.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new DavinciSDK({
+ *   signer,
+ *   sequencerUrl,
+ *   artifactStore: new FileSystemArtifactStore({ directory: './.davinci-artifacts' }),
+ * });
+ * ```
+ */
+export interface ArtifactStore {
+  /** Returns the stored bytes, or undefined if the key is not stored */
+  get(key: string): Promise<Uint8Array | undefined>;
+  /** Stores the bytes under a key, replacing any previous entry */
+  put(key: string, bytes: Uint8Array): Promise<void>;
+  /** Deletes an entry (no-op if the key is not stored) */
+  delete(key: string): Promise<void>;
+  /** Lists every stored key */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Keeps artifacts in memory. Useful for tests.
+ */
+export class InMemoryArtifactStore implements ArtifactStore {
+  private readonly entries = new Map<string, Uint8Array>();
+
+  get(key: string): Promise<Uint8Array | undefined> {
+    return Promise.resolve(this.entries.get(key));
+  }
+
+  put(key: string, bytes: Uint8Array): Promise<void> {
+    this.entries.set(key, bytes);
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  keys(): Promise<string[]> {
+    return Promise.resolve([...this.entries.keys()]);
+  }
+}
+
+/**
+ * Options for FileSystemArtifactStore
+ */
+export interface FileSystemArtifactStoreOptions {
+  /** Directory dedicated to the artifacts (created if missing) */
+  directory: string;
+}
+
+/**
+ * Stores artifacts as files in a dedicated directory (Node.js only).
+ * Files are written to a temporary name first, so an interrupted write never leaves a partial entry.
+ */
+export class FileSystemArtifactStore implements ArtifactStore {
+  private readonly directory: string;
+
+  constructor(options: FileSystemArtifactStoreOptions) {
+    this.directory = options.directory.replace(/[\\/]+$/, '');
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const fs = await import('fs/promises');
+    try {
+      return new Uint8Array(await fs.readFile(this.path(key)));
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async put(key: string, bytes: Uint8Array): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.mkdir(this.directory, { recursive: true });
+    const temporary = `${this.path(key)}.tmp`;
+    await fs.writeFile(temporary, bytes);
+    await fs.rename(temporary, this.path(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('fs/promises');
+    await fs.rm(this.path(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    const fs = await import('fs/promises');
+    try {
+      const files = await fs.readdir(this.directory);
+      return files.filter(file => !file.endsWith('.tmp'));
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+  }
+
+  private path(key: string): string {
+    if (!/^[\w.-]+$/.test(key) || key.startsWith('.')) {
+      throw new Error(`Invalid artifact key: ${key}`);
+    }
+    return `${this.directory}/${key}`;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'ENOENT';
+}
+
+/**
+ * Options for IndexedDbArtifactStore
+ */
+export interface IndexedDbArtifactStoreOptions {
+  /** Database name (default: 'davinci-sdk-artifacts') */
+  databaseName?: string;
+}
+
+const INDEXED_DB_OBJECT_STORE = 'artifacts';
+
+/**
+ * Stores artifacts in an IndexedDB database (browsers)
+ */
+export class IndexedDbArtifactStore implements ArtifactStore {
+  private database?: Promise<IDBDatabase>;
+
+  constructor(private readonly options: IndexedDbArtifactStoreOptions = {}) {}
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const value = await this.request<unknown>('readonly', store => store.get(key));
+    return value instanceof Uint8Array ? value : undefined;
+  }
+
+  async put(key: string, bytes: Uint8Array): Promise<void> {
+    await this.request('readwrite', store => store.put(bytes, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(String);
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.open();
+    const store = database
+      .transaction(INDEXED_DB_OBJECT_STORE, mode)
+      .objectStore(INDEXED_DB_OBJECT_STORE);
+    return promisifyRequest<T>(operation(store));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(this.options.databaseName ?? 'davinci-sdk-artifacts', 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(INDEXED_DB_OBJECT_STORE);
+      };
+      this.database = promisifyRequest<IDBDatabase>(request);
+    }
+    return this.database;
+  }
+}
+
+function promisifyRequest<T>(request: IDBRequest): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Options for CacheApiArtifactStore
+ */
+export interface CacheApiArtifactStoreOptions {
+  /** Cache name (default: 'davinci-sdk-artifacts') */
+  cacheName?: string;
+}
+
+/**
+ * Base URL of the cache entries. The Cache API only accepts HTTP(S) requests as keys;
+ * the URL is never fetched.
+ */
+const CACHE_API_BASE_URL = 'https://artifacts.davinci-sdk.invalid/';
+
+/**
+ * Stores artifacts with the Cache API (browsers and service workers)
+ */
+export class CacheApiArtifactStore implements ArtifactStore {
+  constructor(private readonly options: CacheApiArtifactStoreOptions = {}) {}
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    const response = await (await this.open()).match(this.url(key));
+    return response ? new Uint8Array(await response.arrayBuffer()) : undefined;
+  }
+
+  async put(key: string, bytes: Uint8Array): Promise<void> {
+    await (await this.open()).put(this.url(key), new Response(bytes));
+  }
+
+  async delete(key: string): Promise<void> {
+    await (await this.open()).delete(this.url(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const requests = await (await this.open()).keys();
+    return requests
+      .map(request => request.url)
+      .filter(url => url.startsWith(CACHE_API_BASE_URL))
+      .map(url => decodeURIComponent(url.slice(CACHE_API_BASE_URL.length)));
+  }
+
+  private open(): Promise<Cache> {
+    return caches.open(this.options.cacheName ?? 'davinci-sdk-artifacts');
+  }
+
+  private url(key: string): string {
+    return `${CACHE_API_BASE_URL}${encodeURIComponent(key)}`;
+  }
+}
@@ -0,0 +1,105 @@
+import { BallotMode } from '../types';
+import type { ProcessQuestion } from '../process/ProcessOrchestrationService';
+import { getBallotLayout } from './layout';
+
+/**
+ * Answer to a single question:
+ * - a choice value (single choice)
+ * - an array of choice values (multiple choice / approval; repeated values add up)
+ * - a map of choice value to amount (budget / quadratic)
+ */
+export type QuestionAnswer = number | number[] | Record<number, number>;
+
+/**
+ * Answers keyed by question index. Unanswered questions are left blank (all zeros).
+ *
+ * @example
+ * ```typescript
+ * const answers: VoteAnswers = {
+ *   0: 2,            // question 0: choice with value 2
+ *   1: [0, 3],       // question 1: choices with values 0 and 3
+ *   2: { 0: 4, 1: 1 } // question 2: 4 points to value 0, 1 point to value 1
+ * };
+ * ```
+ */
+export type VoteAnswers = Record<number, QuestionAnswer>;
+
+/**
+ * Translates structured answers into the ballot field array expected by the circuit.
+ *
+ * In the `value-per-question` layout (see getBallotLayoutKind()), each question takes a
+ * single choice and its field holds the value of that choice.
+ *
+ * @param answers - Answers keyed by question index
+ * @param ballot - The process ballot mode
+ * @param questions - The metadata questions
+ * @returns One value per ballot field (`numFields` values)
+ * @throws Error if an answer references an unknown question or choice, or does not fit the ballot
+ */
+export function answersToChoices(
+  answers: VoteAnswers,
+  ballot: BallotMode,
+  questions: ProcessQuestion[]
+): number[] {
+  const layout = getBallotLayout(ballot, questions);
+  const fields: number[] = new Array<number>(ballot.numFields).fill(0);
+
+  for (const [key, answer] of Object.entries(answers)) {
+    const questionIndex = Number(key);
+    const question = questions[questionIndex];
+    if (!Number.isInteger(questionIndex) || !question) {
+      throw new Error(
+        `Answer for question ${key} does not match any of the ${questions.length} process questions`
+      );
+    }
+
+    const questionLayout = layout[questionIndex];
+    if (questionLayout.kind === 'value-per-question') {
+      fields[questionLayout.offset] = selectedValue(answer, question, questionIndex);
+      continue;
+    }
+
+    for (const [value, amount] of answerAmounts(answer)) {
+      const position = question.choices.findIndex(c => c.value === value);
+      if (position === -1) {
+        throw new Error(`Question ${questionIndex} has no choice with value ${value}`);
+      }
+      if (!Number.isSafeInteger(amount) || amount < 0) {
+        throw new Error(
+          `Amount for choice ${value} of question ${questionIndex} must be a non-negative integer, got ${amount}`
+        );
+      }
+      fields[questionLayout.fields[position]] += amount;
+    }
+  }
+
+  return fields;
+}
+
+function selectedValue(
+  answer: QuestionAnswer,
+  question: ProcessQuestion,
+  questionIndex: number
+): number {
+  const values = typeof answer === 'number' ? [answer] : Array.isArray(answer) ? answer : [];
+  if (values.length !== 1) {
+    throw new Error(
+      `Question ${questionIndex} takes a single choice value: the ballot has one field per question`
+    );
+  }
+  const [value] = values;
+  if (!question.choices.some(c => c.value === value)) {
+    throw new Error(`Question ${questionIndex} has no choice with value ${value}`);
+  }
+  return value;
+}
+
+function answerAmounts(answer: QuestionAnswer): Array<[number, number]> {
+  if (typeof answer === 'number') {
+    return [[answer, 1]];
+  }
+  if (Array.isArray(answer)) {
+    return answer.map(value => [value, 1]);
+  }
+  return Object.entries(answer).map(([value, amount]) => [Number(value), amount]);
+}
@@ -0,0 +1,4 @@
+export * from './presets';
+export * from './layout';
+export * from './results';
+export * from './answers';
@@ -0,0 +1,103 @@
+import { BallotMode } from '../types';
+import type {
+  ProcessQuestion,
+  ProcessQuestionConfig,
+} from '../process/ProcessOrchestrationService';
+
+/**
+ * How the answers are encoded in the ballot fields:
+ * - `field-per-choice`: each choice has its own field, holding the amount given to it
+ * - `value-per-question`: each question has a single field, holding the value of the selected choice
+ */
+export type BallotLayoutKind = 'field-per-choice' | 'value-per-question';
+
+/**
+ * Position of a question inside the ballot fields
+ */
+export interface QuestionLayout {
+  /** Index of the question in the metadata */
+  questionIndex: number;
+  /** How the question is encoded */
+  kind: BallotLayoutKind;
+  /** First ballot field used by the question */
+  offset: number;
+  /**
+   * Ballot field of each choice, in the same order as `question.choices`.
+   * In the `value-per-question` layout every choice shares the question field.
+   */
+  fields: number[];
+}
+
+/**
+ * Detects how the answers are encoded. A ballot with exactly one field per question
+ * (and at least one question with several choices) stores the selected choice value
+ * in the question field; any other ballot has one field per choice.
+ *
+ * @param ballot - The process ballot mode
+ * @param questions - The metadata questions (or the questions of a process configuration)
+ * @returns The layout kind
+ */
+export function getBallotLayoutKind(
+  ballot: Pick<BallotMode, 'numFields'>,
+  questions: Array<ProcessQuestion | ProcessQuestionConfig>
+): BallotLayoutKind {
+  return ballot.numFields === questions.length &&
+    questions.some(question => question.choices.length > 1)
+    ? 'value-per-question'
+    : 'field-per-choice';
+}
+
+/**
+ * Maps every question choice to its ballot field.
+ *
+ * In the `value-per-question` layout, question `i` uses field `i`. Otherwise each
+ * choice is encoded as its own field: when the ballot mode defines a `groupSize`
+ * smaller than `numFields`, question `i` starts at field `i * groupSize`; otherwise
+ * questions are laid out one after the other.
+ *
+ * @param ballot - The process ballot mode
+ * @param questions - The metadata questions (or the questions of a process configuration)
+ * @returns The layout of each question
+ * @throws Error if the questions do not fit in the ballot fields
+ */
+export function getBallotLayout(
+  ballot: BallotMode,
+  questions: Array<ProcessQuestion | ProcessQuestionConfig>
+): QuestionLayout[] {
+  if (getBallotLayoutKind(ballot, questions) === 'value-per-question') {
+    return questions.map((question, questionIndex) => ({
+      questionIndex,
+      kind: 'value-per-question',
+      offset: questionIndex,
+      fields: question.choices.map(() => questionIndex),
+    }));
+  }
+
+  const groupSize = ballot.groupSize ?? ballot.numFields;
+  const grouped = questions.length > 1 && groupSize > 0 && groupSize < ballot.numFields;
+
+  let offset = 0;
+  return questions.map((question, questionIndex) => {
+    const start = grouped ? questionIndex * groupSize : offset;
+    const numChoices = question.choices.length;
+
+    if (grouped && numChoices > groupSize) {
+      throw new Error(
+        `Question ${questionIndex} has ${numChoices} choices but the ballot groups ${groupSize} fields per question`
+      );
+    }
+    if (start + numChoices > ballot.numFields) {
+      throw new Error(
+        `Question ${questionIndex} needs fields up to ${start + numChoices} but the ballot has ${ballot.numFields}`
+      );
+    }
+
+    offset = start + numChoices;
+    return {
+      questionIndex,
+      kind: 'field-per-choice',
+      offset: start,
+      fields: question.choices.map((_, i) => start + i),
+    };
+  });
+}
@@ -0,0 +1,344 @@
+import { BallotMode } from '../types';
+import { ElectionResultsType, ElectionResultsTypeNames } from '../types/metadata';
+import type { ProcessQuestionConfig } from '../process/ProcessOrchestrationService';
+import { BALLOT_CIRCUIT_CAPACITY } from '../../crypto/BallotBuilder';
+
+/**
+ * A ballot preset bundles a ballot mode, the questions it was built for and the
+ * matching metadata results type. It can be spread directly into a process config:
+ *
+ * @example
+ * ```typescript
+ * await sdk.createProcess({
+ *   census,
+ *   timing: { duration: 3600 },
+ *   title: 'Board election',
+ *   ...approvalBallot({ question, maxApprovals: 3 }),
+ * });
+ * ```
+ */
+export interface BallotPreset {
+  /** Ballot mode enforced by the circuit */
+  ballot: BallotMode;
+  /** Questions the ballot mode was computed for */
+  questions: [ProcessQuestionConfig, ...ProcessQuestionConfig[]];
+  /** Results type written to the election metadata */
+  type: ElectionResultsType;
+}
+
+/**
+ * Options for a single-choice ballot (one or more questions, one choice per question)
+ */
+export interface SingleChoiceBallotOptions {
+  /** Election questions (at least one required) */
+  questions: [ProcessQuestionConfig, ...ProcessQuestionConfig[]];
+  /** Allow voters to leave questions blank (default: false) */
+  allowBlank?: boolean;
+}
+
+/**
+ * Options for a multiple-choice ballot (one question, several choices)
+ */
+export interface MultipleChoiceBallotOptions {
+  /** The election question */
+  question: ProcessQuestionConfig;
+  /** Minimum number of selected choices (default: 1) */
+  minChoices?: number;
+  /** Maximum number of selected choices (default: number of choices) */
+  maxChoices?: number;
+  /** Allow selecting the same choice more than once (default: false) */
+  repeatChoice?: boolean;
+  /** Whether some of the choices are abstain options (default: false) */
+  canAbstain?: boolean;
+  /** Values of the choices that represent an abstention */
+  abstainValues?: number[];
+}
+
+/**
+ * Options for an approval ballot (accept or reject each choice)
+ */
+export interface ApprovalBallotOptions {
+  /** The election question */
+  question: ProcessQuestionConfig;
+  /** Minimum number of approved choices (default: 0) */
+  minApprovals?: number;
+  /** Maximum number of approved choices (default: number of choices) */
+  maxApprovals?: number;
+}
+
+/**
+ * Options for a budget ballot (distribute a budget among the choices)
+ */
+export interface BudgetBallotOptions {
+  /** The election question */
+  question: ProcessQuestionConfig;
+  /** Total budget each voter can distribute */
+  budget: number;
+  /** Minimum allocation step shown to voters (default: 1) */
+  minStep?: number;
+  /** Require voters to spend the whole budget (default: false) */
+  forceFullBudget?: boolean;
+}
+
+/**
+ * Options for a quadratic ballot (votes on a choice cost votes^quadraticCost credits)
+ */
+export interface QuadraticBallotOptions {
+  /** Credits each voter can spend (per unit of weight when weighted) */
+  credits: number;
+  /** The election question */
+  question: ProcessQuestionConfig;
+  /** Cost exponent applied to each choice (default: 2) */
+  quadraticCost?: number;
+  /** Require voters to spend all their credits (default: false) */
+  forceFullBudget?: boolean;
+  /**
+   * Largest census weight. When set, the circuit scales the credits by the voter weight
+   * and the maximum per-choice value is sized accordingly.
+   */
+  maxWeight?: number;
+}
+
+/**
+ * Builds a single-choice ballot. Each choice is encoded as its own field (1 = selected)
+ * and every question uses a group of `groupSize` fields.
+ */
+export function singleChoiceBallot(options: SingleChoiceBallotOptions): BallotPreset {
+  const { questions } = options;
+  questions.forEach((question, index) => assertQuestion(question, `questions[${index}]`));
+
+  const groupSize = Math.max(...questions.map(q => q.choices.length));
+  const numFields = groupSize * questions.length;
+  assertCapacity(numFields);
+
+  const required = options.allowBlank ? 0 : questions.length;
+
+  return {
+    ballot: {
+      numFields,
+      groupSize,
+      maxValue: '1',
+      minValue: '0',
+      uniqueValues: false,
+      costExponent: 1,
+      maxValueSum: questions.length.toString(),
+      minValueSum: required.toString(),
+    },
+    questions,
+    type: {
+      name: ElectionResultsTypeNames.SINGLE_CHOICE_MULTIQUESTION,
+      properties: {},
+    },
+  };
+}
+
+/**
+ * Builds a multiple-choice ballot where voters select between `minChoices` and
+ * `maxChoices` choices of a single question.
+ */
+export function multipleChoiceBallot(options: MultipleChoiceBallotOptions): BallotPreset {
+  const { question } = options;
+  assertQuestion(question, 'question');
+  const numFields = question.choices.length;
+  assertCapacity(numFields);
+
+  const minChoices = options.minChoices ?? 1;
+  const maxChoices = options.maxChoices ?? numFields;
+  const repeatChoice = options.repeatChoice ?? false;
+  assertRange('minChoices', minChoices, 0, maxChoices);
+  assertRange('maxChoices', maxChoices, 1, repeatChoice ? Number.MAX_SAFE_INTEGER : numFields);
+
+  const canAbstain = options.canAbstain ?? false;
+  const abstainValues = options.abstainValues ?? [];
+  if (!canAbstain && abstainValues.length > 0) {
+    throw new Error('abstainValues can only be set when canAbstain is true');
+  }
+  if (canAbstain && abstainValues.length === 0) {
+    throw new Error('canAbstain requires at least one abstain value');
+  }
+  for (const value of abstainValues) {
+    if (!question.choices.some(c => c.value === value)) {
+      throw new Error(`Abstain value ${value} does not match any choice of the question`);
+    }
+  }
+
+  return {
+    ballot: {
+      numFields,
+      groupSize: numFields,
+      maxValue: (repeatChoice ? maxChoices : 1).toString(),
+      minValue: '0',
+      uniqueValues: false,
+      costExponent: 1,
+      maxValueSum: maxChoices.toString(),
+      minValueSum: minChoices.toString(),
+    },
+    questions: [question],
+    type: {
+      name: ElectionResultsTypeNames.MULTIPLE_CHOICE,
+      properties: {
+        repeatChoice,
+        numChoices: { min: minChoices, max: maxChoices },
+        canAbstain,
+        abstainValues: abstainValues.map(v => v.toString()),
+      },
+    },
+  };
+}
+
+/**
+ * Builds an approval ballot where each choice is either approved (1) or rejected (0).
+ */
+export function approvalBallot(options: ApprovalBallotOptions): BallotPreset {
+  const { question } = options;
+  assertQuestion(question, 'question');
+  const numFields = question.choices.length;
+  assertCapacity(numFields);
+
+  const minApprovals = options.minApprovals ?? 0;
+  const maxApprovals = options.maxApprovals ?? numFields;
+  assertRange('minApprovals', minApprovals, 0, maxApprovals);
+  assertRange('maxApprovals', maxApprovals, 1, numFields);
+
+  return {
+    ballot: {
+      numFields,
+      groupSize: numFields,
+      maxValue: '1',
+      minValue: '0',
+      uniqueValues: false,
+      costExponent: 1,
+      maxValueSum: maxApprovals.toString(),
+      minValueSum: minApprovals.toString(),
+    },
+    questions: [question],
+    type: {
+      name: ElectionResultsTypeNames.APPROVAL,
+      properties: { rejectValue: 0, acceptValue: 1 },
+    },
+  };
+}
+
+/**
+ * Builds a budget ballot where voters distribute up to `budget` points among the choices.
+ */
+export function budgetBallot(options: BudgetBallotOptions): BallotPreset {
+  const { question, budget } = options;
+  assertQuestion(question, 'question');
+  const numFields = question.choices.length;
+  assertCapacity(numFields);
+  assertRange('budget', budget, 1, Number.MAX_SAFE_INTEGER);
+
+  const minStep = options.minStep ?? 1;
+  assertRange('minStep', minStep, 1, budget);
+  const forceFullBudget = options.forceFullBudget ?? false;
+
+  return {
+    ballot: {
+      numFields,
+      groupSize: numFields,
+      maxValue: budget.toString(),
+      minValue: '0',
+      uniqueValues: false,
+      costExponent: 1,
+      maxValueSum: budget.toString(),
+      minValueSum: (forceFullBudget ? budget : 0).toString(),
+    },
+    questions: [question],
+    type: {
+      name: ElectionResultsTypeNames.BUDGET,
+      properties: {
+        useCensusWeightAsBudget: false,
+        maxBudget: budget,
+        minStep,
+        forceFullBudget,
+      },
+    },
+  };
+}
+
+/**
+ * Builds a quadratic ballot where giving `n` votes to a choice costs `n^quadraticCost` credits.
+ */
+export function quadraticBallot(options: QuadraticBallotOptions): BallotPreset {
+  const { question, credits } = options;
+  assertQuestion(question, 'question');
+  const numFields = question.choices.length;
+  assertCapacity(numFields);
+  assertRange('credits', credits, 1, Number.MAX_SAFE_INTEGER);
+
+  const quadraticCost = options.quadraticCost ?? 2;
+  // costExponent is packed into 8 bits of the ballot mode
+  assertRange('quadraticCost', quadraticCost, 2, 255);
+  const maxWeight = options.maxWeight ?? 1;
+  assertRange('maxWeight', maxWeight, 1, Number.MAX_SAFE_INTEGER);
+  const forceFullBudget = options.forceFullBudget ?? false;
+
+  const maxValue = integerRoot(BigInt(credits) * BigInt(maxWeight), quadraticCost);
+
+  return {
+    ballot: {
+      numFields,
+      groupSize: numFields,
+      maxValue: maxValue.toString(),
+      minValue: '0',
+      uniqueValues: false,
+      costExponent: quadraticCost,
+      maxValueSum: credits.toString(),
+      minValueSum: (forceFullBudget ? credits : 0).toString(),
+    },
+    questions: [question],
+    type: {
+      name: ElectionResultsTypeNames.QUADRATIC,
+      properties: {
+        useCensusWeightAsBudget: options.maxWeight !== undefined,
+        maxBudget: credits,
+        minStep: 1,
+        forceFullBudget,
+        quadraticCost,
+      },
+    },
+  };
+}
+
+/**
+ * Largest integer r such that r^exponent <= value
+ */
+function integerRoot(value: bigint, exponent: number): bigint {
+  const exp = BigInt(exponent);
+  let low = 0n;
+  let high = value;
+  while (low < high) {
+    const mid = (low + high + 1n) / 2n;
+    if (mid ** exp <= value) {
+      low = mid;
+    } else {
+      high = mid - 1n;
+    }
+  }
+  return low;
+}
+
+function assertQuestion(question: ProcessQuestionConfig, label: string): void {
+  if (!question.choices || question.choices.length === 0) {
+    throw new Error(`${label} must have at least one choice`);
+  }
+  const values = new Set(question.choices.map(c => c.value));
+  if (values.size !== question.choices.length) {
+    throw new Error(`${label} has duplicated choice values`);
+  }
+}
+
+function assertCapacity(numFields: number): void {
+  if (numFields > BALLOT_CIRCUIT_CAPACITY) {
+    throw new Error(
+      `Ballot requires ${numFields} fields but the circuit supports at most ${BALLOT_CIRCUIT_CAPACITY}`
+    );
+  }
+}
+
+function assertRange(name: string, value: number, min: number, max: number): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${name} must be an integer in range [${min}, ${max}], got ${value}`);
+  }
+}
@@ -0,0 +1,155 @@
+import { BallotMode } from '../types';
+import type { ProcessQuestion } from '../process/ProcessOrchestrationService';
+import type { ProcessStatus } from '../../contracts/ProcessRegistryService';
+import { getBallotLayout } from './layout';
+
+/**
+ * Tally of a single choice
+ */
+export interface ChoiceTally {
+  /** Choice title */
+  title: string;
+  /** Choice value from the metadata */
+  value: number;
+  /** Ballot field holding the choice results */
+  field: number;
+  /** Weighted total accumulated for the choice */
+  total: bigint;
+  /** Share of the question total, in percent (two decimals) */
+  percentage: number;
+}
+
+/**
+ * Tally of a single question, for ballots with one field per choice
+ */
+export interface QuestionTally {
+  /** Ballot layout of the question */
+  layout: 'field-per-choice';
+  /** Question title */
+  title: string;
+  /** Question description */
+  description?: string;
+  /** Per-choice tallies, in metadata order */
+  choices: ChoiceTally[];
+  /** Sum of every choice total */
+  total: bigint;
+  /** Choice with the highest total, or null when there is a tie or no votes */
+  winner: ChoiceTally | null;
+  /** Whether two or more choices share the highest (non-zero) total */
+  tie: boolean;
+}
+
+/**
+ * Result of a single question, for ballots with one field per question holding the
+ * selected choice value. The field only accumulates the weighted sum of the selected
+ * values, so per-choice totals cannot be recovered from it.
+ */
+export interface QuestionValueTally {
+  /** Ballot layout of the question */
+  layout: 'value-per-question';
+  /** Question title */
+  title: string;
+  /** Question description */
+  description?: string;
+  /** Question choices, in metadata order */
+  choices: Array<{ title: string; value: number }>;
+  /** Ballot field holding the question results */
+  field: number;
+  /** Weighted sum of the selected choice values */
+  valueSum: bigint;
+}
+
+/**
+ * Decoded results of a process
+ */
+export type ProcessResults =
+  | {
+      /** Results are not published on-chain yet */
+      status: 'pending';
+      processId: string;
+      /** Current process status */
+      processStatus: ProcessStatus;
+    }
+  | {
+      /** Results are final */
+      status: 'final';
+      processId: string;
+      /** Current process status */
+      processStatus: ProcessStatus;
+      /** Per-question tallies */
+      questions: Array<QuestionTally | QuestionValueTally>;
+      /** Raw on-chain result fields */
+      raw: bigint[];
+    };
+
+/**
+ * Decodes the on-chain results into per-question, per-choice tallies.
+ * Ballots with one field per question holding the selected value are decoded
+ * into the weighted sum of the selected values (QuestionValueTally).
+ *
+ * @param result - The on-chain result fields
+ * @param ballot - The process ballot mode
+ * @param questions - The metadata questions
+ * @returns The tally of each question
+ * @throws Error if the questions do not fit in the ballot fields
+ *
+ * @example
+ * ```typescript
+ * const process = await sdk.getProcess(processId);
+ * const [tally] = decodeResults(process.result, process.ballot, process.questions);
+ * if (tally.layout === 'field-per-choice') {
+ *   console.log(tally.winner?.title);
+ * }
+ * ```
+ */
+export function decodeResults(
+  result: Array<bigint | number | string>,
+  ballot: BallotMode,
+  questions: ProcessQuestion[]
+): Array<QuestionTally | QuestionValueTally> {
+  const layout = getBallotLayout(ballot, questions);
+
+  return layout.map(({ questionIndex, kind, offset, fields }) => {
+    const question = questions[questionIndex];
+
+    if (kind === 'value-per-question') {
+      return {
+        layout: kind,
+        title: question.title,
+        description: question.description,
+        choices: question.choices.map(({ title, value }) => ({ title, value })),
+        field: offset,
+        valueSum: BigInt(result[offset] ?? 0),
+      };
+    }
+
+    const totals = fields.map(field => BigInt(result[field] ?? 0));
+    const total = totals.reduce((acc, value) => acc + value, 0n);
+
+    const choices: ChoiceTally[] = question.choices.map((choice, i) => ({
+      title: choice.title,
+      value: choice.value,
+      field: fields[i],
+      total: totals[i],
+      percentage: percentage(totals[i], total),
+    }));
+
+    const top = choices.reduce((max, c) => (c.total > max ? c.total : max), 0n);
+    const leaders = top > 0n ? choices.filter(c => c.total === top) : [];
+
+    return {
+      layout: kind,
+      title: question.title,
+      description: question.description,
+      choices,
+      total,
+      winner: leaders.length === 1 ? leaders[0] : null,
+      tie: leaders.length > 1,
+    };
+  });
+}
+
+function percentage(value: bigint, total: bigint): number {
+  if (total === 0n) return 0;
+  return Number((value * 10000n) / total) / 100;
+}
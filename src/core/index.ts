@@ -2,3 +2,7 @@ export * from './types';
 export * from './api';
 export * from './process';
 export * from './vote';
+export * from './ballot';
+export * from './metadata';
+export * from './proving';
+export * from './artifacts';
@@ -0,0 +1,82 @@
+import { sha256, toUtf8Bytes } from 'ethers';
+
+/**
+ * CIDv1 prefix for a sha2-256 digest: version 1, one-byte codec, sha2-256 (0x12), 32 bytes (0x20)
+ */
+const CID_VERSION = '01';
+const RAW_CODEC = '55';
+const SHA256_MULTIHASH = '1220';
+
+/**
+ * Outcome of checking a metadata document against its content hash
+ */
+export type MetadataHashCheck =
+  | { result: 'match'; hash: string }
+  | { result: 'mismatch'; hash: string; actual: string }
+  | { result: 'unverifiable'; reason: string };
+
+/**
+ * Error thrown in strict mode when fetched metadata does not match its content hash
+ */
+export class MetadataHashMismatchError extends Error {
+  constructor(
+    public readonly expected: string,
+    public readonly actual: string
+  ) {
+    super(`Metadata content hash mismatch: expected ${expected}, got ${actual}`);
+    this.name = 'MetadataHashMismatchError';
+  }
+}
+
+/**
+ * Extracts the 36-byte metadata hash from a metadata URI.
+ * Accepts a bare hash or a URL whose last path segment is the hash
+ * (as returned by `getMetadataUrl`).
+ *
+ * @param uri - The process metadata URI
+ * @returns The lowercase hash, or null if the URI carries no hash
+ */
+export function extractMetadataHash(uri: string): string | null {
+  const match = /(0x[0-9a-f]{72})\/?$/i.exec(uri.split(/[?#]/)[0]);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Computes the metadata hash of raw content: a CIDv1 (raw codec) with a sha2-256 multihash
+ *
+ * @param content - The metadata document exactly as stored
+ * @returns The 36-byte metadata hash (0x-prefixed hex)
+ */
+export function computeMetadataHash(content: string | Uint8Array): string {
+  const bytes = typeof content === 'string' ? toUtf8Bytes(content) : content;
+  return `0x${CID_VERSION}${RAW_CODEC}${SHA256_MULTIHASH}${sha256(bytes).slice(2)}`;
+}
+
+/**
+ * Checks raw metadata content against a metadata hash.
+ *
+ * The hash is a CIDv1 with a sha2-256 multihash of the metadata bytes as served.
+ * Hashes with a different multihash prefix cannot be verified.
+ *
+ * @param content - The metadata document exactly as received
+ * @param hash - The 36-byte metadata hash (0x-prefixed hex)
+ * @returns Whether the content matches the hash
+ */
+export function checkMetadataHash(content: string | Uint8Array, hash: string): MetadataHashCheck {
+  const expected = hash.toLowerCase();
+  if (!/^0x[0-9a-f]{72}$/.test(expected)) {
+    return { result: 'unverifiable', reason: `${hash} is not a metadata hash` };
+  }
+
+  const prefix = expected.slice(2, 10);
+  if (!prefix.startsWith(CID_VERSION) || !prefix.endsWith(SHA256_MULTIHASH)) {
+    return { result: 'unverifiable', reason: `Unsupported metadata hash prefix 0x${prefix}` };
+  }
+
+  const bytes = typeof content === 'string' ? toUtf8Bytes(content) : content;
+  const actual = `0x${prefix}${sha256(bytes).slice(2)}`;
+
+  return actual === expected
+    ? { result: 'match', hash: expected }
+    : { result: 'mismatch', hash: expected, actual };
+}
@@ -0,0 +1,6 @@
+export * from './localization';
+export * from './validation';
+export * from './transform';
+export * from './hash';
+export * from './loader';
+export * from './storage';
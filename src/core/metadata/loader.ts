@@ -0,0 +1,99 @@
+import { ElectionMetadata } from '../types/metadata';
+import { abortError } from '../api/abort';
+import { MetadataStatus, parseElectionMetadata } from './validation';
+import { checkMetadataHash, extractMetadataHash, MetadataHashMismatchError } from './hash';
+
+/**
+ * Options for loading election metadata
+ */
+export interface MetadataLoadOptions {
+  /** Throw a MetadataHashMismatchError when the content does not match its hash (default: false) */
+  strict?: boolean;
+  /** Signal cancelling the fetch: the load then fails with an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Loaded election metadata together with its status
+ */
+export interface MetadataLoadResult {
+  /** The validated metadata, or null when missing or invalid */
+  metadata: ElectionMetadata | null;
+  /** Metadata status */
+  status: MetadataStatus;
+}
+
+/**
+ * Fetches, verifies and validates the metadata of a process.
+ *
+ * When the URI carries a metadata hash, the raw content is checked against it.
+ * A mismatch is reported in the status (`hashMismatch`), or throws in strict mode.
+ *
+ * @param uri - The process metadata URI
+ * @param fetchRaw - Fetches the raw metadata document for a URI, cancelled by the signal
+ * @param options - Load options
+ * @returns The metadata and its status
+ * @throws MetadataHashMismatchError in strict mode when the content does not match its hash
+ * @throws AbortError if the signal is aborted
+ */
+export async function loadElectionMetadata(
+  uri: string,
+  fetchRaw: (uri: string, signal?: AbortSignal) => Promise<string>,
+  options: MetadataLoadOptions = {}
+): Promise<MetadataLoadResult> {
+  if (!uri) {
+    return { metadata: null, status: { status: 'missing', reason: 'Process has no metadata URI' } };
+  }
+
+  let raw: string;
+  try {
+    raw = await fetchRaw(uri, options.signal);
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw abortError(options.signal);
+    }
+    return {
+      metadata: null,
+      status: {
+        status: 'missing',
+        reason: `Failed to fetch metadata: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    };
+  }
+
+  const hash = extractMetadataHash(uri);
+  const hashCheck = hash ? checkMetadataHash(raw, hash) : null;
+  const hashMismatch =
+    hashCheck?.result === 'mismatch'
+      ? { expected: hashCheck.hash, actual: hashCheck.actual }
+      : undefined;
+  if (hashMismatch && options.strict) {
+    throw new MetadataHashMismatchError(hashMismatch.expected, hashMismatch.actual);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return {
+      metadata: null,
+      status: { status: 'invalid', reasons: ['metadata is not valid JSON'] },
+    };
+  }
+
+  const parsed = parseElectionMetadata(data);
+  if (!parsed.valid) {
+    return { metadata: null, status: { status: 'invalid', reasons: parsed.errors } };
+  }
+
+  return {
+    metadata: parsed.metadata,
+    status: {
+      status: 'ok',
+      version: parsed.version,
+      migrated: parsed.migrated,
+      hashVerified: hashCheck?.result === 'match',
+      ...(hashMismatch && { hashMismatch }),
+    },
+  };
+}
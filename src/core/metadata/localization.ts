@@ -0,0 +1,67 @@
+import { MultiLanguage } from '../types/metadata';
+
+/**
+ * Text that is either a plain string (stored as the `default` language)
+ * or a set of translations keyed by language code
+ *
+ * @example
+ * ```typescript
+ * const title: LocalizedText = { default: 'Budget 2025', es: 'Presupuesto 2025', ca: 'Pressupost 2025' };
+ * ```
+ */
+export type LocalizedText = string | MultiLanguage<string>;
+
+/**
+ * Normalizes localized text into the metadata multi-language format
+ *
+ * @param text - Plain string or translations
+ * @returns Translations with a `default` entry
+ * @throws Error if the translations do not include a `default` entry
+ */
+export function toMultiLanguage(text: LocalizedText | undefined): MultiLanguage<string> {
+  if (text === undefined) {
+    return { default: '' };
+  }
+  if (typeof text === 'string') {
+    return { default: text };
+  }
+  if (typeof text.default !== 'string') {
+    throw new Error('Localized text must include a "default" translation');
+  }
+  return { ...text };
+}
+
+/**
+ * Picks a translation from multi-language text.
+ *
+ * Languages are tried in order: the preferred language(s), the fallback language
+ * and finally `default`. Returns an empty string if none is available.
+ *
+ * @param text - Multi-language text (as exposed by `ProcessInfo.localized`)
+ * @param preferred - Preferred language code, or a list ordered by preference
+ * @param fallback - Language to use when no preferred language is available (default: 'default')
+ * @returns The picked translation
+ *
+ * @example
+ * ```typescript
+ * const info = await sdk.getProcess(processId);
+ * const title = pickLanguage(info.localized.title, navigator.languages, 'en');
+ * ```
+ */
+export function pickLanguage(
+  text: MultiLanguage<string> | undefined,
+  preferred?: string | readonly string[],
+  fallback: string = 'default'
+): string {
+  if (!text) return '';
+
+  const languages =
+    preferred === undefined ? [] : typeof preferred === 'string' ? [preferred] : preferred;
+  for (const language of [...languages, fallback, 'default']) {
+    const value = text[language];
+    if (typeof value === 'string' && value !== '') {
+      return value;
+    }
+  }
+  return '';
+}
@@ -0,0 +1,233 @@
+import { ElectionMetadata } from '../types/metadata';
+import type { VocdoniSequencerService } from '../../sequencer/SequencerService';
+import { computeMetadataHash } from './hash';
+
+/**
+ * Backend where election metadata documents are stored and resolved from
+ *
+ * @example
+ * ```typescript
+ * const sdk = new DavinciSDK({
+ *   signer,
+ *   sequencerUrl,
+ *   metadataStorage: new HttpMetadataStorage({ baseUrl: 'https://metadata.example.org/elections' }),
+ * });
+ * ```
+ */
+export interface MetadataStorage {
+  /**
+   * Stores a metadata document
+   * @returns The URI registered on-chain as the process metadata URI
+   */
+  put(metadata: ElectionMetadata): Promise<string>;
+
+  /**
+   * Fetches a metadata document
+   * @param signal - Optional signal cancelling the request
+   * @returns The document exactly as stored, so it can be checked against its content hash
+   */
+  get(uri: string, signal?: AbortSignal): Promise<string>;
+}
+
+/**
+ * Stores metadata in the sequencer (default backend)
+ */
+export class SequencerMetadataStorage implements MetadataStorage {
+  constructor(private readonly sequencer: VocdoniSequencerService) {}
+
+  async put(metadata: ElectionMetadata): Promise<string> {
+    const hash = await this.sequencer.pushMetadata(metadata);
+    return this.sequencer.getMetadataUrl(hash);
+  }
+
+  get(uri: string, signal?: AbortSignal): Promise<string> {
+    return this.sequencer.getMetadataRaw(uri, signal);
+  }
+}
+
+/**
+ * Keeps metadata in memory. Useful for tests and local development.
+ * URIs have the form `memory://<metadata hash>`.
+ */
+export class InMemoryMetadataStorage implements MetadataStorage {
+  private readonly documents = new Map<string, string>();
+
+  put(metadata: ElectionMetadata): Promise<string> {
+    const content = JSON.stringify(metadata);
+    const uri = `memory://${computeMetadataHash(content)}`;
+    this.documents.set(uri, content);
+    return Promise.resolve(uri);
+  }
+
+  get(uri: string): Promise<string> {
+    const content = this.documents.get(uri);
+    if (content === undefined) {
+      return Promise.reject(new Error(`Metadata not found: ${uri}`));
+    }
+    return Promise.resolve(content);
+  }
+}
+
+/**
+ * Options for HttpMetadataStorage
+ */
+export interface HttpMetadataStorageOptions {
+  /** Base URL documents are uploaded to (required to store metadata) */
+  baseUrl?: string;
+  /** Extra headers sent with every request (e.g. authorization) */
+  headers?: Record<string, string>;
+  /** Custom fetch implementation */
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Stores metadata on a plain HTTP server or an S3-compatible bucket.
+ * Documents are uploaded with `PUT <baseUrl>/<metadata hash>` and fetched with `GET <uri>`.
+ */
+export class HttpMetadataStorage implements MetadataStorage {
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: HttpMetadataStorageOptions = {}) {
+    this.fetchImpl = options.fetchImpl ?? globalThis.fetch.bind(globalThis);
+  }
+
+  async put(metadata: ElectionMetadata): Promise<string> {
+    if (!this.options.baseUrl) {
+      throw new Error('HttpMetadataStorage requires a baseUrl to store metadata');
+    }
+    const content = JSON.stringify(metadata);
+    const uri = `${this.options.baseUrl.replace(/\/+$/, '')}/${computeMetadataHash(content)}`;
+
+    const response = await this.fetchImpl(uri, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: content,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to store metadata: ${response.status} ${response.statusText}`);
+    }
+    return uri;
+  }
+
+  async get(uri: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.fetchImpl(uri, { headers: this.options.headers, signal });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch metadata: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
+}
+
+/**
+ * Options for IpfsMetadataStorage
+ */
+export interface IpfsMetadataStorageOptions {
+  /** Gateway used to resolve `ipfs://` URIs (default: https://ipfs.io) */
+  gateway?: string;
+  /**
+   * Uploads and pins a document, returning its CID. Required to store metadata,
+   * as every pinning service exposes a different API.
+   */
+  pin?: (content: string) => Promise<string>;
+  /** Custom fetch implementation */
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Stores metadata on IPFS through a pinning function and resolves `ipfs://` URIs via a gateway
+ */
+export class IpfsMetadataStorage implements MetadataStorage {
+  private readonly gateway: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: IpfsMetadataStorageOptions = {}) {
+    this.gateway = (options.gateway ?? 'https://ipfs.io').replace(/\/+$/, '');
+    this.fetchImpl = options.fetchImpl ?? globalThis.fetch.bind(globalThis);
+  }
+
+  async put(metadata: ElectionMetadata): Promise<string> {
+    if (!this.options.pin) {
+      throw new Error('IpfsMetadataStorage requires a pin function to store metadata');
+    }
+    const cid = await this.options.pin(JSON.stringify(metadata));
+    return `ipfs://${cid}`;
+  }
+
+  async get(uri: string, signal?: AbortSignal): Promise<string> {
+    if (!uri.startsWith('ipfs://')) {
+      throw new Error(`Not an IPFS URI: ${uri}`);
+    }
+    const response = await this.fetchImpl(`${this.gateway}/ipfs/${uri.slice('ipfs://'.length)}`, {
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch metadata: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
+}
+
+/**
+ * Routes metadata URIs to a storage backend by URI scheme.
+ * Documents are stored in the default backend, which also resolves URIs
+ * without a scheme or with a scheme that has no route.
+ *
+ * @example
+ * ```typescript
+ * const storage = new MetadataStorageRouter(new InMemoryMetadataStorage(), {
+ *   ipfs: new IpfsMetadataStorage({ gateway: 'https://gateway.example.org' }),
+ * });
+ * ```
+ */
+export class MetadataStorageRouter implements MetadataStorage {
+  constructor(
+    private readonly defaultStorage: MetadataStorage,
+    private readonly routes: Record<string, MetadataStorage> = {}
+  ) {}
+
+  put(metadata: ElectionMetadata): Promise<string> {
+    return this.defaultStorage.put(metadata);
+  }
+
+  get(uri: string, signal?: AbortSignal): Promise<string> {
+    return this.resolve(uri).get(uri, signal);
+  }
+
+  /**
+   * Returns the backend that resolves a URI
+   */
+  resolve(uri: string): MetadataStorage {
+    const scheme = /^([a-z][a-z0-9+.-]*):\/\//i.exec(uri)?.[1].toLowerCase();
+    return (scheme && this.routes[scheme]) || this.defaultStorage;
+  }
+}
+
+/**
+ * Builds the metadata storage used by the SDK. New documents are stored in the default
+ * backend (the sequencer unless given). Metadata URIs are resolved by scheme:
+ * - `http(s)://`: the default backend when it is an HttpMetadataStorage, otherwise the
+ *   sequencer service, so sequencer-hosted metadata of existing processes stays readable
+ * - `ipfs://`: the default backend when it is an IpfsMetadataStorage, otherwise a public gateway
+ * - any other URI: the default backend
+ *
+ * @param sequencer - The sequencer service
+ * @param defaultStorage - Backend storing new documents (default: the sequencer)
+ * @param schemes - Extra backends by URI scheme, overriding the routes above
+ * @returns The routing storage
+ */
+export function createMetadataStorageRouter(
+  sequencer: VocdoniSequencerService,
+  defaultStorage?: MetadataStorage,
+  schemes: Record<string, MetadataStorage> = {}
+): MetadataStorageRouter {
+  const sequencerStorage = new SequencerMetadataStorage(sequencer);
+  const storage = defaultStorage ?? sequencerStorage;
+  const http = storage instanceof HttpMetadataStorage ? storage : sequencerStorage;
+
+  return new MetadataStorageRouter(storage, {
+    http,
+    https: http,
+    ipfs: storage instanceof IpfsMetadataStorage ? storage : new IpfsMetadataStorage(),
+    ...schemes,
+  });
+}
@@ -0,0 +1,105 @@
+import { ElectionMetadata, getElectionMetadataTemplate } from '../types/metadata';
+import type {
+  MultiLanguageQuestion,
+  ProcessConfigWithMetadata,
+  ProcessMedia,
+  ProcessQuestion,
+} from '../process/ProcessOrchestrationService';
+import { toMultiLanguage } from './localization';
+
+/**
+ * Builds the metadata document of a process configuration
+ *
+ * @param config - Process configuration with metadata fields
+ * @returns The election metadata to store
+ * @throws Error if a question has an invalid `numAbstains`
+ */
+export function processConfigToMetadata(config: ProcessConfigWithMetadata): ElectionMetadata {
+  const metadata = getElectionMetadataTemplate();
+
+  metadata.title = toMultiLanguage(config.title);
+  metadata.description = toMultiLanguage(config.description);
+
+  // TypeScript ensures at least one question exists due to tuple type
+  metadata.questions = config.questions.map((q, index) => {
+    if (
+      q.numAbstains !== undefined &&
+      (!Number.isInteger(q.numAbstains) || q.numAbstains < 0 || q.numAbstains > q.choices.length)
+    ) {
+      throw new Error(
+        `questions[${index}].numAbstains must be an integer between 0 and the number of choices`
+      );
+    }
+    return {
+      title: toMultiLanguage(q.title),
+      description: toMultiLanguage(q.description),
+      ...(q.numAbstains !== undefined && { numAbstains: q.numAbstains.toString() }),
+      meta: q.meta ?? {},
+      choices: q.choices.map(c => ({
+        title: toMultiLanguage(c.title),
+        value: c.value,
+        meta: c.meta ?? {},
+      })),
+    };
+  });
+
+  if (config.type) {
+    metadata.type = config.type;
+  }
+
+  if (config.media) {
+    metadata.media = {
+      header: config.media.header ?? '',
+      logo: config.media.logo ?? '',
+    };
+  }
+
+  if (config.meta) {
+    metadata.meta = config.meta;
+  }
+
+  return metadata;
+}
+
+/**
+ * Maps the metadata media to the `ProcessMedia` format, leaving empty URLs unset
+ */
+export function metadataToMedia(metadata: ElectionMetadata): ProcessMedia {
+  return {
+    header: metadata.media.header || undefined,
+    logo: metadata.media.logo || undefined,
+  };
+}
+
+/**
+ * Maps metadata questions to the `ProcessQuestion` format (default language only)
+ */
+export function metadataToQuestions(metadata: ElectionMetadata): ProcessQuestion[] {
+  return metadata.questions.map(q => ({
+    title: q.title.default,
+    description: q.description?.default,
+    numAbstains: q.numAbstains !== undefined ? Number(q.numAbstains) : undefined,
+    meta: q.meta,
+    choices: q.choices.map(c => ({
+      title: c.title.default,
+      value: c.value,
+      meta: c.meta,
+    })),
+  }));
+}
+
+/**
+ * Maps metadata questions keeping every translation
+ */
+export function metadataToMultiLanguageQuestions(
+  metadata: ElectionMetadata
+): MultiLanguageQuestion[] {
+  return metadata.questions.map(q => ({
+    title: q.title,
+    description: q.description,
+    choices: q.choices.map(c => ({
+      title: c.title,
+      value: c.value,
+    })),
+  }));
+}
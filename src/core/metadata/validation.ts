@@ -0,0 +1,307 @@
+import { ElectionMetadata, ElectionResultsTypeNames, ProtocolVersion } from '../types/metadata';
+
+/**
+ * Current metadata protocol version
+ */
+export const CURRENT_METADATA_VERSION: ProtocolVersion = '1.2';
+
+/**
+ * Status of the metadata of a process
+ */
+export type MetadataStatus =
+  | {
+      /** Metadata was fetched and is valid */
+      status: 'ok';
+      /** Protocol version of the fetched document */
+      version: ProtocolVersion;
+      /** Whether the document was upgraded to the current version */
+      migrated: boolean;
+      /** Whether the content was checked against the metadata hash of the URI */
+      hashVerified: boolean;
+      /**
+       * Set when the content does not match the metadata hash of the URI. The document is
+       * still returned; in strict mode a MetadataHashMismatchError is thrown instead.
+       */
+      hashMismatch?: { expected: string; actual: string };
+    }
+  | {
+      /** The process has no metadata or it could not be fetched */
+      status: 'missing';
+      /** Why the metadata is missing */
+      reason: string;
+    }
+  | {
+      /** Metadata was fetched but does not match the ElectionMetadata model */
+      status: 'invalid';
+      /** Every validation problem found */
+      reasons: string[];
+    };
+
+/**
+ * Result of parsing a metadata document
+ */
+export type MetadataParseResult =
+  | {
+      valid: true;
+      /** Metadata upgraded to the current version */
+      metadata: ElectionMetadata;
+      /** Protocol version of the original document */
+      version: ProtocolVersion;
+      /** Whether the document was upgraded */
+      migrated: boolean;
+    }
+  | {
+      valid: false;
+      /** Every validation problem found */
+      errors: string[];
+    };
+
+/**
+ * Error thrown when a metadata document does not match the ElectionMetadata model
+ */
+export class MetadataValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid election metadata: ${errors.join('; ')}`);
+    this.name = 'MetadataValidationError';
+  }
+}
+
+/**
+ * Upgrades a metadata document to the current protocol version.
+ *
+ * Version '1.1' documents (or documents without a version) may use plain strings
+ * instead of multi-language texts and omit `media` and the results `type`.
+ * They are upgraded by wrapping texts as `{ default }` and filling the defaults.
+ * Documents already in the current version are returned unchanged.
+ *
+ * @param data - The fetched metadata document
+ * @returns The upgraded document (not yet validated)
+ */
+export function migrateElectionMetadata(data: unknown): unknown {
+  if (!isObject(data)) return data;
+  if (data.version !== undefined && data.version !== '1.1') return data;
+
+  const questions = data.questions;
+  return {
+    ...data,
+    version: CURRENT_METADATA_VERSION,
+    title: wrapText(data.title),
+    description: wrapText(data.description ?? ''),
+    media: data.media ?? { header: '', logo: '' },
+    meta: data.meta ?? {},
+    questions: Array.isArray(questions)
+      ? (questions as unknown[]).map(q =>
+          isObject(q)
+            ? {
+                ...q,
+                title: wrapText(q.title),
+                description: q.description === undefined ? undefined : wrapText(q.description),
+                choices: Array.isArray(q.choices)
+                  ? (q.choices as unknown[]).map(c =>
+                      isObject(c) ? { ...c, title: wrapText(c.title) } : c
+                    )
+                  : q.choices,
+              }
+            : q
+        )
+      : questions,
+    type: data.type ?? {
+      name: ElectionResultsTypeNames.SINGLE_CHOICE_MULTIQUESTION,
+      properties: {},
+    },
+  };
+}
+
+/**
+ * Validates a metadata document against the current ElectionMetadata model
+ *
+ * @param data - The metadata document
+ * @returns Every validation problem found (empty when valid)
+ */
+export function validateElectionMetadata(data: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(data)) {
+    return ['metadata must be an object'];
+  }
+
+  if (data.version !== CURRENT_METADATA_VERSION) {
+    errors.push(
+      `version must be "${CURRENT_METADATA_VERSION}", got ${JSON.stringify(data.version)}`
+    );
+  }
+  checkMultiLanguage(data.title, 'title', errors);
+  checkMultiLanguage(data.description, 'description', errors);
+
+  if (!isObject(data.media)) {
+    errors.push('media must be an object');
+  } else {
+    if (typeof data.media.header !== 'string') errors.push('media.header must be a string');
+    if (typeof data.media.logo !== 'string') errors.push('media.logo must be a string');
+  }
+
+  if (data.meta !== undefined && !isObject(data.meta)) {
+    errors.push('meta must be an object');
+  }
+
+  if (!Array.isArray(data.questions) || data.questions.length === 0) {
+    errors.push('questions must be a non-empty array');
+  } else {
+    data.questions.forEach((q, i) => checkQuestion(q, `questions[${i}]`, errors));
+  }
+
+  checkResultsType(data.type, errors);
+
+  return errors;
+}
+
+/**
+ * Migrates and validates a fetched metadata document
+ *
+ * @param data - The fetched metadata document
+ * @returns The typed metadata, or the validation errors
+ *
+ * @example
+ * ```typescript
+ * const raw = await sdk.api.sequencer.getMetadata(metadataURI);
+ * const parsed = parseElectionMetadata(raw);
+ * if (!parsed.valid) console.warn(parsed.errors);
+ * ```
+ */
+export function parseElectionMetadata(data: unknown): MetadataParseResult {
+  const version: unknown = isObject(data) ? (data.version ?? '1.1') : undefined;
+  if (isObject(data) && version !== '1.1' && version !== CURRENT_METADATA_VERSION) {
+    return { valid: false, errors: [`unsupported metadata version ${JSON.stringify(version)}`] };
+  }
+
+  const migrated = migrateElectionMetadata(data);
+  const errors = validateElectionMetadata(migrated);
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    metadata: migrated as ElectionMetadata,
+    version: version as ProtocolVersion,
+    migrated: version !== CURRENT_METADATA_VERSION,
+  };
+}
+
+function checkQuestion(question: unknown, path: string, errors: string[]): void {
+  if (!isObject(question)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  checkMultiLanguage(question.title, `${path}.title`, errors);
+  if (question.description !== undefined) {
+    checkMultiLanguage(question.description, `${path}.description`, errors);
+  }
+  if (
+    question.numAbstains !== undefined &&
+    (typeof question.numAbstains !== 'string' || !/^\d+$/.test(question.numAbstains))
+  ) {
+    errors.push(`${path}.numAbstains must be a numeric string`);
+  }
+
+  if (!Array.isArray(question.choices) || question.choices.length === 0) {
+    errors.push(`${path}.choices must be a non-empty array`);
+    return;
+  }
+
+  const values = new Set<unknown>();
+  question.choices.forEach((choice, i) => {
+    const choicePath = `${path}.choices[${i}]`;
+    if (!isObject(choice)) {
+      errors.push(`${choicePath} must be an object`);
+      return;
+    }
+    checkMultiLanguage(choice.title, `${choicePath}.title`, errors);
+    if (!Number.isInteger(choice.value) || (choice.value as number) < 0) {
+      errors.push(`${choicePath}.value must be a non-negative integer`);
+    } else if (values.has(choice.value)) {
+      errors.push(`${choicePath}.value ${String(choice.value)} is duplicated`);
+    }
+    values.add(choice.value);
+  });
+}
+
+function checkResultsType(type: unknown, errors: string[]): void {
+  if (!isObject(type)) {
+    errors.push('type must be an object');
+    return;
+  }
+  if (!isObject(type.properties)) {
+    errors.push('type.properties must be an object');
+    return;
+  }
+
+  const props = type.properties;
+  const expect = (key: string, kind: 'boolean' | 'number') => {
+    if (typeof props[key] !== kind) errors.push(`type.properties.${key} must be a ${kind}`);
+  };
+  const budget = () => {
+    expect('useCensusWeightAsBudget', 'boolean');
+    expect('maxBudget', 'number');
+    expect('minStep', 'number');
+    expect('forceFullBudget', 'boolean');
+  };
+
+  switch (type.name) {
+    case ElectionResultsTypeNames.SINGLE_CHOICE_MULTIQUESTION:
+      break;
+    case ElectionResultsTypeNames.MULTIPLE_CHOICE:
+      expect('repeatChoice', 'boolean');
+      expect('canAbstain', 'boolean');
+      if (
+        !isObject(props.numChoices) ||
+        typeof props.numChoices.min !== 'number' ||
+        typeof props.numChoices.max !== 'number'
+      ) {
+        errors.push('type.properties.numChoices must have numeric min and max');
+      }
+      if (
+        !Array.isArray(props.abstainValues) ||
+        !props.abstainValues.every(v => typeof v === 'string')
+      ) {
+        errors.push('type.properties.abstainValues must be an array of strings');
+      }
+      break;
+    case ElectionResultsTypeNames.BUDGET:
+      budget();
+      break;
+    case ElectionResultsTypeNames.APPROVAL:
+      expect('rejectValue', 'number');
+      expect('acceptValue', 'number');
+      break;
+    case ElectionResultsTypeNames.QUADRATIC:
+      budget();
+      expect('quadraticCost', 'number');
+      break;
+    default:
+      errors.push(`type.name ${JSON.stringify(type.name)} is not a known results type`);
+  }
+}
+
+function checkMultiLanguage(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path} must be a multi-language object`);
+    return;
+  }
+  if (typeof value.default !== 'string') {
+    errors.push(`${path}.default must be a string`);
+  }
+  for (const [language, text] of Object.entries(value)) {
+    if (language !== 'default' && typeof text !== 'string') {
+      errors.push(`${path}.${language} must be a string`);
+    }
+  }
+}
+
+function wrapText(value: unknown): unknown {
+  return typeof value === 'string' ? { default: value } : value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
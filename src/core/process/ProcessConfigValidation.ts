@@ -0,0 +1,426 @@
+import { MerkleCensus } from '../../census/classes/MerkleCensus';
+import { CensusOrigin } from '../../census/types';
+import { BALLOT_CIRCUIT_CAPACITY } from '../../crypto/BallotBuilder';
+import { getBallotLayout, getBallotLayoutKind } from '../ballot/layout';
+import { BallotMode } from '../types';
+import type { ProcessConfig, ProcessQuestionConfig } from './ProcessOrchestrationService';
+
+/**
+ * Durations (in seconds) below this are reported as very short
+ */
+export const SHORT_PROCESS_DURATION = 600;
+
+/**
+ * A problem found in a process configuration
+ */
+export interface ProcessConfigIssue {
+  /** Path of the offending setting (e.g. `ballot.maxValue`, `questions[0].choices`) */
+  field: string;
+  /** Human readable description */
+  message: string;
+}
+
+/**
+ * Result of validating a process configuration
+ */
+export interface ProcessConfigValidation {
+  /** Whether the configuration has no errors (warnings do not make it invalid) */
+  valid: boolean;
+  /** Problems that make process creation fail or the process unusable */
+  errors: ProcessConfigIssue[];
+  /** Settings that are allowed but probably unintended */
+  warnings: ProcessConfigIssue[];
+}
+
+/**
+ * Options for validateProcessConfig
+ */
+export interface ValidateProcessConfigOptions {
+  /** Current time in milliseconds, the start date is checked against (default: Date.now()) */
+  now?: number;
+}
+
+/**
+ * Error thrown when a process configuration does not pass validation
+ */
+export class ProcessConfigValidationError extends Error {
+  constructor(public readonly errors: ProcessConfigIssue[]) {
+    super(
+      `Invalid process configuration: ${errors.map(e => `${e.field}: ${e.message}`).join('; ')}`
+    );
+    this.name = 'ProcessConfigValidationError';
+  }
+}
+
+/**
+ * Validates a process configuration without any network or chain call, collecting every
+ * problem at once: the questions against the ballot fields and value range, the ballot
+ * sum bounds, maxVoters against the census size, the census settings and the timing.
+ *
+ * Questions are matched to the ballot in the layout detected by getBallotLayoutKind().
+ * When the ballot has one field per question, each field holds the value of the selected
+ * choice, so choice values must lie within [minValue, maxValue]. Otherwise each choice has
+ * its own field, laid out as in getBallotLayout().
+ *
+ * @param config - The process configuration
+ * @param options - Optional current time
+ * @returns The validation result with every error and warning
+ *
+ * @example
+ * ```typescript
+ * const { valid, errors, warnings } = validateProcessConfig(config);
+ * warnings.forEach(w => console.warn(`${w.field}: ${w.message}`));
+ * if (!valid) errors.forEach(e => console.error(`${e.field}: ${e.message}`));
+ * ```
+ */
+export function validateProcessConfig(
+  config: ProcessConfig,
+  options: ValidateProcessConfigOptions = {}
+): ProcessConfigValidation {
+  const errors: ProcessConfigIssue[] = [];
+  const warnings: ProcessConfigIssue[] = [];
+  const error = (field: string, message: string) => errors.push({ field, message });
+  const warning = (field: string, message: string) => warnings.push({ field, message });
+
+  const ballot = checkBallotMode(config.ballot, error);
+
+  if (!('metadataUri' in config)) {
+    const questions = checkQuestions(config.questions, error);
+    if (ballot && questions) {
+      checkQuestionsFit(ballot, questions, error);
+    }
+  }
+
+  checkCensus(config, error, warning);
+  checkTiming(config.timing, options.now ?? Date.now(), error, warning);
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+type Report = (field: string, message: string) => void;
+
+/**
+ * Parsed ballot mode values
+ */
+interface ParsedBallotMode {
+  numFields: number;
+  groupSize?: number;
+  minValue: bigint;
+  maxValue: bigint;
+  costExponent: number;
+}
+
+function checkBallotMode(
+  ballot: BallotMode | undefined,
+  error: Report
+): ParsedBallotMode | undefined {
+  if (!ballot) {
+    error('ballot', 'Ballot configuration is required');
+    return undefined;
+  }
+
+  const { numFields, costExponent, groupSize } = ballot;
+  let invalid = false;
+  const report: Report = (field, message) => {
+    invalid = true;
+    error(field, message);
+  };
+
+  if (!Number.isInteger(numFields) || numFields < 1 || numFields > BALLOT_CIRCUIT_CAPACITY) {
+    report(
+      'ballot.numFields',
+      `numFields must be an integer in range [1, ${BALLOT_CIRCUIT_CAPACITY}]`
+    );
+  }
+  if (!Number.isInteger(costExponent) || costExponent < 1 || costExponent > 255) {
+    report('ballot.costExponent', 'costExponent must be an integer in range [1, 255]');
+  }
+  if (groupSize !== undefined && (!Number.isInteger(groupSize) || groupSize < 1)) {
+    report('ballot.groupSize', 'groupSize must be a positive integer');
+  }
+
+  const min = parseAmount(ballot.minValue, 'ballot.minValue', report);
+  const max = parseAmount(ballot.maxValue, 'ballot.maxValue', report);
+  const minValueSum = parseAmount(ballot.minValueSum, 'ballot.minValueSum', report);
+  const maxValueSum = parseAmount(ballot.maxValueSum, 'ballot.maxValueSum', report);
+  if (
+    invalid ||
+    min === undefined ||
+    max === undefined ||
+    minValueSum === undefined ||
+    maxValueSum === undefined
+  ) {
+    return undefined;
+  }
+
+  if (min > max) {
+    error('ballot.minValue', `minValue ${min} is above maxValue ${max}`);
+    return undefined;
+  }
+
+  if (ballot.uniqueValues && max - min + 1n < BigInt(numFields)) {
+    error(
+      'ballot.uniqueValues',
+      `uniqueValues needs ${numFields} distinct values but [${min}, ${max}] only has ${max - min + 1n}`
+    );
+  }
+
+  // A maxValueSum of 0 disables the upper bound
+  if (maxValueSum > 0n && minValueSum > maxValueSum) {
+    error('ballot.minValueSum', `minValueSum ${minValueSum} is above maxValueSum ${maxValueSum}`);
+  }
+
+  // The sums are scaled by the voter weight when costExponent > 1, which only makes the
+  // minimum easier to reach
+  const exponent = BigInt(costExponent);
+  const highestCost = BigInt(numFields) * max ** exponent;
+  if (minValueSum > highestCost) {
+    error(
+      'ballot.minValueSum',
+      `minValueSum ${minValueSum} cannot be reached: ${numFields} fields of at most ${max} cost at most ${highestCost}`
+    );
+  }
+  const lowestCost = BigInt(numFields) * min;
+  if (costExponent === 1 && maxValueSum > 0n && maxValueSum < lowestCost) {
+    error(
+      'ballot.maxValueSum',
+      `maxValueSum ${maxValueSum} is below the ${lowestCost} that ${numFields} fields of at least ${min} sum`
+    );
+  }
+
+  return { numFields, groupSize, minValue: min, maxValue: max, costExponent };
+}
+
+function checkQuestions(
+  questions: ProcessQuestionConfig[] | undefined,
+  error: Report
+): ProcessQuestionConfig[] | undefined {
+  if (!Array.isArray(questions) || questions.length === 0) {
+    error('questions', 'At least one question is required');
+    return undefined;
+  }
+
+  let valid = true;
+  questions.forEach((question, index) => {
+    const field = `questions[${index}]`;
+    if (!Array.isArray(question.choices) || question.choices.length === 0) {
+      error(`${field}.choices`, 'Each question must have at least one choice');
+      valid = false;
+      return;
+    }
+    const values = new Set(question.choices.map(c => c.value));
+    if (values.size !== question.choices.length) {
+      error(`${field}.choices`, 'Choice values must be unique within a question');
+    }
+    const { numAbstains } = question;
+    if (
+      numAbstains !== undefined &&
+      (!Number.isInteger(numAbstains) || numAbstains < 0 || numAbstains > question.choices.length)
+    ) {
+      error(
+        `${field}.numAbstains`,
+        'numAbstains must be an integer between 0 and the number of choices'
+      );
+    }
+  });
+
+  return valid ? questions : undefined;
+}
+
+function checkQuestionsFit(
+  ballot: ParsedBallotMode,
+  questions: ProcessQuestionConfig[],
+  error: Report
+): void {
+  if (getBallotLayoutKind(ballot, questions) === 'value-per-question') {
+    // One field per question, holding the value of the selected choice
+    questions.forEach((question, index) => {
+      question.choices.forEach((choice, choiceIndex) => {
+        const { value } = choice;
+        if (
+          !Number.isSafeInteger(value) ||
+          BigInt(value) < ballot.minValue ||
+          BigInt(value) > ballot.maxValue
+        ) {
+          error(
+            `questions[${index}].choices[${choiceIndex}].value`,
+            `Choice value ${value} is out of the ballot range [${ballot.minValue}, ${ballot.maxValue}]`
+          );
+        }
+      });
+    });
+    return;
+  }
+
+  // One field per choice
+  try {
+    getBallotLayout(
+      {
+        numFields: ballot.numFields,
+        groupSize: ballot.groupSize,
+        minValue: ballot.minValue.toString(),
+        maxValue: ballot.maxValue.toString(),
+        uniqueValues: false,
+        costExponent: ballot.costExponent,
+        maxValueSum: '0',
+        minValueSum: '0',
+      },
+      questions
+    );
+  } catch (err) {
+    error('questions', (err as Error).message);
+  }
+}
+
+function checkCensus(config: ProcessConfig, error: Report, warning: Report): void {
+  const { census, maxVoters } = config;
+  let censusSize: number | undefined;
+
+  if ('isPublished' in census) {
+    // Census object: its constructor already validated its settings
+    if (census instanceof MerkleCensus) {
+      censusSize = census.participants.length;
+      if (censusSize === 0) {
+        error('census', 'The census has no participants');
+      }
+    }
+  } else {
+    if (!Object.values(CensusOrigin).includes(census.type)) {
+      error('census.type', `Unknown census origin: ${String(census.type)}`);
+    }
+    if (typeof census.root !== 'string' || !/^(0x)?[0-9a-fA-F]+$/.test(census.root)) {
+      error('census.root', 'Census root must be a hex string');
+    }
+    if (typeof census.uri !== 'string' || census.uri.trim() === '') {
+      error('census.uri', 'Census URI is required');
+    }
+    if (!Number.isInteger(census.size) || census.size < 1) {
+      error('census.size', 'Census size must be a positive integer');
+    } else {
+      censusSize = census.size;
+    }
+  }
+
+  if (maxVoters === undefined) {
+    // Only Merkle census objects default maxVoters to their participant count
+    if (!(census instanceof MerkleCensus)) {
+      error(
+        'maxVoters',
+        'maxVoters is required. It can only be omitted when using a MerkleCensus ' +
+          '(OffchainCensus/OffchainDynamicCensus), in which case it defaults to the participant count.'
+      );
+    }
+  } else if (!Number.isSafeInteger(maxVoters) || maxVoters < 1) {
+    error('maxVoters', 'maxVoters must be a positive integer');
+  } else if (censusSize !== undefined && maxVoters < censusSize) {
+    warning(
+      'maxVoters',
+      `maxVoters ${maxVoters} is below the census size ${censusSize}: only ${maxVoters} participants can vote`
+    );
+  }
+}
+
+function checkTiming(
+  timing: ProcessConfig['timing'] | undefined,
+  now: number,
+  error: Report,
+  warning: Report
+): void {
+  if (!timing) {
+    error('timing', 'Process timing is required');
+    return;
+  }
+
+  const { startDate, duration, endDate } = timing;
+  if (duration !== undefined && endDate !== undefined) {
+    error('timing', "Cannot specify both 'duration' and 'endDate'. Use one or the other.");
+    return;
+  }
+  if (duration === undefined && endDate === undefined) {
+    error('timing', "Must specify either 'duration' (in seconds) or 'endDate'.");
+    return;
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  let startTime: number | undefined = nowSeconds + 60;
+  if (startDate) {
+    startTime = parseDate(startDate, 'timing.startDate', error);
+    // 30 second buffer, as on creation
+    if (startTime !== undefined && startTime < nowSeconds - 30) {
+      error('timing.startDate', 'Start date cannot be in the past.');
+    }
+  }
+
+  let length: number | undefined;
+  if (duration !== undefined) {
+    if (!Number.isSafeInteger(duration) || duration <= 0) {
+      error('timing.duration', 'Duration must be a positive integer number of seconds');
+    } else {
+      length = duration;
+    }
+  } else if (endDate !== undefined) {
+    const endTime = parseDate(endDate, 'timing.endDate', error);
+    if (startTime !== undefined && endTime !== undefined) {
+      if (endTime <= startTime) {
+        error('timing.endDate', 'End date must be after start date.');
+      } else {
+        length = endTime - startTime;
+      }
+    }
+  }
+
+  if (length !== undefined && length < SHORT_PROCESS_DURATION) {
+    warning('timing', `The process lasts only ${length} seconds, voters may not have time to vote`);
+  }
+}
+
+/**
+ * Converts a Date, ISO string or Unix timestamp (seconds or milliseconds) to a Unix timestamp
+ * @internal
+ */
+export function dateToUnixTimestamp(date: Date | string | number): number {
+  if (typeof date === 'number') {
+    // Already a timestamp - validate it's reasonable (not milliseconds)
+    if (date > 1e10) {
+      // Likely milliseconds, convert to seconds
+      return Math.floor(date / 1000);
+    }
+    return Math.floor(date);
+  }
+
+  if (typeof date === 'string') {
+    // ISO string or other parseable date string
+    const parsed = new Date(date);
+    if (isNaN(parsed.getTime())) {
+      throw new Error(`Invalid date string: ${date}`);
+    }
+    return Math.floor(parsed.getTime() / 1000);
+  }
+
+  if (date instanceof Date) {
+    // Date object
+    if (isNaN(date.getTime())) {
+      throw new Error('Invalid Date object provided.');
+    }
+    return Math.floor(date.getTime() / 1000);
+  }
+
+  throw new Error('Invalid date format. Use Date object, ISO string, or Unix timestamp.');
+}
+
+function parseDate(date: Date | string | number, field: string, error: Report): number | undefined {
+  try {
+    return dateToUnixTimestamp(date);
+  } catch (err) {
+    error(field, (err as Error).message);
+    return undefined;
+  }
+}
+
+function parseAmount(value: string, field: string, error: Report): bigint | undefined {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    error(field, `${field.split('.').pop()} must be a non-negative integer string`);
+    return undefined;
+  }
+  return BigInt(value);
+}
@@ -3,11 +3,41 @@ import { VocdoniApiService } from '../api/ApiService';
 import { ProcessRegistryService, ProcessStatus } from '../../contracts/ProcessRegistryService';
 import { BallotMode, CensusData, EncryptionKey } from '../types';
 import { CensusOrigin } from '../../census/types';
-import { getElectionMetadataTemplate } from '../types/metadata';
-import { TxStatusEvent, TxStatus } from '../../contracts/SmartContractService';
+import { CustomMeta, ElectionResultsType, MultiLanguage } from '../types/metadata';
+import { LocalizedText } from '../metadata/localization';
+import { MetadataStatus } from '../metadata/validation';
+import { loadElectionMetadata } from '../metadata/loader';
+import { MetadataStorage, SequencerMetadataStorage } from '../metadata/storage';
+import {
+  metadataToMedia,
+  metadataToMultiLanguageQuestions,
+  metadataToQuestions,
+  processConfigToMetadata,
+} from '../metadata/transform';
+import {
+  checkTxOptions,
+  TxOptions,
+  TxPreflight,
+  TxStatusEvent,
+  TxStatus,
+} from '../../contracts/SmartContractService';
+import { TxPreflightError } from '../../contracts/errors';
 import { Census } from '../../census/classes/Census';
 import { MerkleCensus } from '../../census/classes/MerkleCensus';
 import { CensusOrchestrator } from '../../census/CensusOrchestrator';
+import { decodeResults, ProcessResults } from '../ballot/results';
+import {
+  abortable,
+  AbortError,
+  AbortOptions,
+  abortableStream,
+  checkAborted,
+} from '../api/abort';
+import {
+  dateToUnixTimestamp,
+  ProcessConfigValidationError,
+  validateProcessConfig,
+} from './ProcessConfigValidation';
 
 /**
  * Base interface with shared fields between ProcessConfig and ProcessInfo
@@ -42,9 +72,46 @@ export interface BaseProcess {
 export type ProcessQuestion = {
   title: string;
   description?: string;
+  /** Number of abstain options in the question */
+  numAbstains?: number;
+  /** Custom question metadata */
+  meta?: CustomMeta;
   choices: Array<{
     title: string;
     value: number;
+    /** Custom choice metadata */
+    meta?: CustomMeta;
+  }>;
+};
+
+/**
+ * Question structure accepted when creating a process.
+ * Titles and descriptions can be plain strings or translations keyed by language.
+ */
+export type ProcessQuestionConfig = {
+  title: LocalizedText;
+  description?: LocalizedText;
+  /** Number of abstain options in the question */
+  numAbstains?: number;
+  /** Custom question metadata */
+  meta?: CustomMeta;
+  choices: Array<{
+    title: LocalizedText;
+    value: number;
+    /** Custom choice metadata */
+    meta?: CustomMeta;
+  }>;
+};
+
+/**
+ * Question with every available translation, as stored in the metadata
+ */
+export type MultiLanguageQuestion = {
+  title: MultiLanguage<string>;
+  description?: MultiLanguage<string>;
+  choices: Array<{
+    title: MultiLanguage<string>;
+    value: number;
   }>;
 };
 
@@ -90,19 +157,41 @@ interface BaseProcessConfig {
   maxVoters?: number;
 }
 
+/**
+ * Election branding images
+ */
+export interface ProcessMedia {
+  /** Header image URL */
+  header?: string;
+  /** Logo image URL */
+  logo?: string;
+}
+
 /**
  * Process configuration with metadata fields (title, description, questions)
  * The metadata will be created and uploaded automatically
  */
 export interface ProcessConfigWithMetadata extends BaseProcessConfig {
-  /** Process title */
-  title: string;
+  /** Process title (plain string or translations keyed by language) */
+  title: LocalizedText;
 
-  /** Process description (optional) */
-  description?: string;
+  /** Process description (optional, plain string or translations keyed by language) */
+  description?: LocalizedText;
 
   /** Election questions and choices (at least one required) */
-  questions: [ProcessQuestion, ...ProcessQuestion[]];
+  questions: [ProcessQuestionConfig, ...ProcessQuestionConfig[]];
+
+  /**
+   * Results type written to the metadata (default: single-choice multiquestion).
+   * Ballot presets such as approvalBallot() set it together with the ballot mode.
+   */
+  type?: ElectionResultsType;
+
+  /** Election branding images (URLs) */
+  media?: ProcessMedia;
+
+  /** Custom free-form metadata */
+  meta?: Record<string, unknown>;
 }
 
 /**
@@ -187,21 +276,75 @@ export interface ProcessInfo extends BaseProcess {
   /** Metadata URI */
   metadataURI: string;
 
+  /** Whether the metadata was found and matches the ElectionMetadata model */
+  metadataStatus: MetadataStatus;
+
+  /** Election branding images */
+  media: ProcessMedia;
+
+  /** Custom free-form metadata */
+  meta?: Record<string, unknown>;
+
+  /**
+   * Title, description and questions with every available translation.
+   * The top-level fields only hold the `default` language; use `pickLanguage` to select one.
+   */
+  localized: {
+    title: MultiLanguage<string>;
+    description?: MultiLanguage<string>;
+    questions: MultiLanguageQuestion[];
+  };
+
   /** Raw contract data (for advanced users) */
   raw?: any;
 }
 
+/**
+ * Configuration options for ProcessOrchestrationService
+ */
+export interface ProcessOrchestrationConfig {
+  /** Whether getProcess fails when metadata does not match its content hash (default: false) */
+  strictMetadata?: boolean;
+  /** Backend used to store and resolve metadata (default: the sequencer) */
+  metadataStorage?: MetadataStorage;
+}
+
+/**
+ * Options for process transactions: gas, fee and nonce overrides, the confirmations to wait
+ * for, the preflight simulation and a signal to stop waiting
+ */
+export interface ProcessTxOptions extends AbortOptions, TxOptions {
+  /**
+   * Signal to stop waiting: the method then fails with an AbortError. A transaction already
+   * sent is not cancelled and may still be mined.
+   */
+  signal?: AbortSignal;
+  /**
+   * Simulate the transaction before sending it (default: true). A transaction that would
+   * revert fails with a TxPreflightError carrying the revert reason, before the wallet is
+   * asked to sign it. Process creation is simulated after the census is published, the
+   * metadata stored and the encryption key requested, as the transaction needs them.
+   */
+  preflight?: boolean;
+}
+
 /**
  * Service that orchestrates the complete process creation workflow
  */
 export class ProcessOrchestrationService {
   private censusOrchestrator: CensusOrchestrator;
+  private readonly strictMetadata: boolean;
+  private readonly metadataStorage: MetadataStorage;
 
   constructor(
     private processRegistry: ProcessRegistryService,
     private apiService: VocdoniApiService,
-    private signer: Signer
+    private signer: Signer,
+    config: ProcessOrchestrationConfig = {}
   ) {
+    this.strictMetadata = config.strictMetadata ?? false;
+    this.metadataStorage =
+      config.metadataStorage ?? new SequencerMetadataStorage(apiService.sequencer);
     // Initialize CensusOrchestrator with VocdoniCensusService from apiService
     this.censusOrchestrator = new CensusOrchestrator(apiService.census);
   }
@@ -246,40 +389,24 @@ export class ProcessOrchestrationService {
   /**
    * Gets user-friendly process information by transforming raw contract data
    * @param processId - The process ID to fetch
+   * @param options - Optional signal cancelling the request. The metadata request is cancelled;
+   * the contract read cannot be, so it is only no longer awaited.
    * @returns Promise resolving to the user-friendly process information
+   * @throws AbortError if the signal is aborted
    */
-  async getProcess(processId: string): Promise<ProcessInfo> {
-    // 1. Get raw process data from contract
-    const rawProcess = await this.processRegistry.getProcess(processId);
-
-    // 2. Fetch and parse metadata
-    let metadata: any = null;
-    let title: string | undefined;
-    let description: string | undefined;
-    let questions: Array<ProcessQuestion> = [];
+  async getProcess(processId: string, options: AbortOptions = {}): Promise<ProcessInfo> {
+    const { signal } = options;
 
-    try {
-      if (rawProcess.metadataURI) {
-        metadata = await this.apiService.sequencer.getMetadata(rawProcess.metadataURI);
-        title = metadata?.title?.default;
-        description = metadata?.description?.default;
-
-        // Transform metadata questions to ProcessConfig format
-        if (metadata?.questions) {
-          questions = metadata.questions.map((q: any) => ({
-            title: q.title?.default,
-            description: q.description?.default,
-            choices:
-              q.choices?.map((c: any) => ({
-                title: c.title?.default,
-                value: c.value,
-              })) || [],
-          }));
-        }
-      }
-    } catch (error) {
-      console.warn(`Failed to fetch metadata for process ${processId}:`, error);
-    }
+    // 1. Get raw process data from contract
+    checkAborted(signal);
+    const rawProcess = await abortable(this.processRegistry.getProcess(processId), signal);
+
+    // 2. Fetch, verify and validate metadata
+    const { metadata, status: metadataStatus } = await loadElectionMetadata(
+      rawProcess.metadataURI,
+      (uri, fetchSignal) => this.metadataStorage.get(uri, fetchSignal),
+      { strict: this.strictMetadata, signal }
+    );
 
     // 3. Calculate timing information
     const now = Math.floor(Date.now() / 1000);
@@ -311,11 +438,11 @@ export class ProcessOrchestrationService {
     // 6. Return user-friendly process info
     return {
       processId,
-      title: title || '',
-      description: description,
+      title: metadata?.title.default ?? '',
+      description: metadata?.description.default,
       census,
       ballot,
-      questions: questions || [],
+      questions: metadata ? metadataToQuestions(metadata) : [],
       status: Number(rawProcess.status) as ProcessStatus,
       creator: rawProcess.organizationId,
       startDate: new Date(startTime * 1000),
@@ -327,15 +454,52 @@ export class ProcessOrchestrationService {
       votersCount: Number(rawProcess.votersCount),
       overwrittenVotesCount: Number(rawProcess.overwrittenVotesCount),
       metadataURI: rawProcess.metadataURI,
+      media: metadata ? metadataToMedia(metadata) : {},
+      meta: metadata?.meta,
+      localized: {
+        title: metadata?.title ?? { default: '' },
+        description: metadata?.description,
+        questions: metadata ? metadataToMultiLanguageQuestions(metadata) : [],
+      },
+      metadataStatus,
       raw: rawProcess,
     };
   }
 
+  /**
+   * Gets the decoded results of a process.
+   * Results are reported as pending until the sequencer publishes them on-chain.
+   * @param processId - The process ID to fetch
+   * @returns Promise resolving to the per-question tallies, or a pending status
+   */
+  async getResults(processId: string): Promise<ProcessResults> {
+    const process = await this.getProcess(processId);
+
+    if (process.status !== ProcessStatus.RESULTS || !process.result?.length) {
+      return { status: 'pending', processId, processStatus: process.status };
+    }
+
+    if (process.metadataStatus.status !== 'ok') {
+      throw new Error(
+        `Cannot decode results for process ${processId}: metadata is ${process.metadataStatus.status}`
+      );
+    }
+
+    return {
+      status: 'final',
+      processId,
+      processStatus: process.status,
+      questions: decodeResults(process.result, process.ballot, process.questions),
+      raw: process.result,
+    };
+  }
+
   /**
    * Creates a complete voting process and returns an async generator that yields transaction status events.
    * This method allows you to monitor the transaction progress in real-time.
    *
    * @param config - Process configuration
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events with ProcessCreationResult
    *
    * @example
@@ -369,10 +533,14 @@ export class ProcessOrchestrationService {
    * ```
    */
   async *createProcessStream(
-    config: ProcessConfig
+    config: ProcessConfig,
+    options: ProcessTxOptions = {}
   ): AsyncGenerator<TxStatusEvent<ProcessCreationResult>> {
+    // Check the transaction options before the census, metadata and keys are prepared
+    checkTxOptions(options);
+
     // Prepare all data needed for process creation
-    const data = await this.prepareProcessCreation(config);
+    const data = await abortable(this.prepareProcessCreation(config), options.signal);
 
     // Create encryption key object
     const encryptionKey: EncryptionKey = {
@@ -380,8 +548,7 @@ export class ProcessOrchestrationService {
       y: data.sequencerResult.encryptionPubKey[1],
     };
 
-    // Submit on-chain transaction and yield events
-    const txStream = this.processRegistry.newProcess(
+    const args = [
       ProcessStatus.READY,
       data.startTime,
       data.duration,
@@ -389,15 +556,34 @@ export class ProcessOrchestrationService {
       data.ballotMode,
       data.census,
       data.metadataUri,
-      encryptionKey
+      encryptionKey,
+    ] as const;
+
+    const rejected = await this.preflightTx(
+      () => this.processRegistry.estimateNewProcess(...args, options.overrides),
+      'create',
+      options
     );
+    if (rejected) {
+      yield rejected;
+      return;
+    }
+
+    // Submit on-chain transaction and yield events
+    const txStream = this.processRegistry.newProcess(...args, options);
 
     let transactionHash = 'unknown';
 
-    for await (const event of txStream) {
+    for await (const event of abortableStream(txStream, options.signal)) {
       if (event.status === TxStatus.Pending) {
         transactionHash = event.hash;
         yield { status: TxStatus.Pending, hash: event.hash };
+      } else if (event.status === TxStatus.Replaced) {
+        // A repriced transaction goes on as its replacement
+        transactionHash = event.replacementHash;
+        yield event;
+      } else if (event.status === TxStatus.Confirming) {
+        yield event;
       } else if (event.status === TxStatus.Completed) {
         yield {
           status: TxStatus.Completed,
@@ -424,17 +610,23 @@ export class ProcessOrchestrationService {
    * For real-time transaction status updates, use createProcessStream() instead.
    *
    * The method automatically:
+   * - Validates the configuration before any network or chain call (validateProcessConfig)
    * - Gets encryption keys from the sequencer
    * - Coordinates between sequencer API and on-chain contract calls
    * - Creates and pushes metadata
    * - Submits the on-chain transaction
    *
    * @param config - Simplified process configuration
+   * @param options - Optional transaction options
    * @returns Promise resolving to the process creation result
+   * @throws ProcessConfigValidationError if the configuration is invalid
    */
-  async createProcess(config: ProcessConfig): Promise<ProcessCreationResult> {
+  async createProcess(
+    config: ProcessConfig,
+    options: ProcessTxOptions = {}
+  ): Promise<ProcessCreationResult> {
     // Use the stream internally and consume it to get the final result
-    for await (const event of this.createProcessStream(config)) {
+    for await (const event of this.createProcessStream(config, options)) {
       if (event.status === 'completed') {
         return event.response;
       } else if (event.status === 'failed') {
@@ -452,7 +644,13 @@ export class ProcessOrchestrationService {
    * @private
    */
   private async prepareProcessCreation(config: ProcessConfig): Promise<ProcessCreationData> {
-    // 1. Validate and calculate timing
+    // 0. Validate the whole configuration before any network or chain call
+    const validation = validateProcessConfig(config);
+    if (!validation.valid) {
+      throw new ProcessConfigValidationError(validation.errors);
+    }
+
+    // 1. Calculate timing
     const { startTime, duration } = this.calculateTiming(config.timing);
 
     // 2. Get the next process ID
@@ -473,10 +671,9 @@ export class ProcessOrchestrationService {
       // Use the provided metadata URI directly
       metadataUri = config.metadataUri;
     } else {
-      // Create and push metadata
-      const metadata = this.createMetadata(config);
-      const metadataHash = await this.apiService.sequencer.pushMetadata(metadata);
-      metadataUri = this.apiService.sequencer.getMetadataUrl(metadataHash);
+      // Create and store metadata
+      const metadata = processConfigToMetadata(config);
+      metadataUri = await this.metadataStorage.put(metadata);
     }
 
     // 6. Get encryption public key from sequencer
@@ -531,6 +728,41 @@ export class ProcessOrchestrationService {
     };
   }
 
+  /**
+   * Simulates a registry write unless the preflight is disabled
+   * @returns A failed event when the transaction would revert or the simulation fails,
+   * undefined otherwise
+   * @throws Error if the transaction options are invalid
+   * @throws AbortError if the signal is aborted
+   */
+  private async preflightTx(
+    estimate: () => Promise<TxPreflight>,
+    operation: string,
+    options: ProcessTxOptions
+  ): Promise<{ status: TxStatus.Failed; error: Error } | undefined> {
+    checkTxOptions(options);
+    if (options.preflight === false) {
+      return undefined;
+    }
+    let preflight: TxPreflight;
+    try {
+      preflight = await abortable(estimate(), options.signal);
+    } catch (error) {
+      if (error instanceof AbortError) throw error;
+      return {
+        status: TxStatus.Failed,
+        error: error instanceof Error ? error : new Error('Unknown preflight error'),
+      };
+    }
+    if (preflight.success) {
+      return undefined;
+    }
+    return {
+      status: TxStatus.Failed,
+      error: new TxPreflightError(preflight.revertReason ?? 'unknown reason', operation),
+    };
+  }
+
   /**
    * Validates and calculates timing parameters
    */
@@ -552,7 +784,7 @@ export class ProcessOrchestrationService {
 
     // Calculate start time
     const startTime = startDate
-      ? this.dateToUnixTimestamp(startDate)
+      ? dateToUnixTimestamp(startDate)
       : Math.floor(Date.now() / 1000) + 60;
 
     // Calculate duration
@@ -562,7 +794,7 @@ export class ProcessOrchestrationService {
       calculatedDuration = duration;
     } else {
       // Calculate duration from endDate
-      const endTime = this.dateToUnixTimestamp(endDate!);
+      const endTime = dateToUnixTimestamp(endDate!);
       calculatedDuration = endTime - startTime;
 
       if (calculatedDuration <= 0) {
@@ -579,69 +811,12 @@ export class ProcessOrchestrationService {
     return { startTime, duration: calculatedDuration };
   }
 
-  /**
-   * Converts various date formats to Unix timestamp
-   */
-  private dateToUnixTimestamp(date: Date | string | number): number {
-    if (typeof date === 'number') {
-      // Already a timestamp - validate it's reasonable (not milliseconds)
-      if (date > 1e10) {
-        // Likely milliseconds, convert to seconds
-        return Math.floor(date / 1000);
-      }
-      return Math.floor(date);
-    }
-
-    if (typeof date === 'string') {
-      // ISO string or other parseable date string
-      const parsed = new Date(date);
-      if (isNaN(parsed.getTime())) {
-        throw new Error(`Invalid date string: ${date}`);
-      }
-      return Math.floor(parsed.getTime() / 1000);
-    }
-
-    if (date instanceof Date) {
-      // Date object
-      if (isNaN(date.getTime())) {
-        throw new Error('Invalid Date object provided.');
-      }
-      return Math.floor(date.getTime() / 1000);
-    }
-
-    throw new Error('Invalid date format. Use Date object, ISO string, or Unix timestamp.');
-  }
-
-  /**
-   * Creates metadata from the configuration with metadata fields
-   * This method should only be called with ProcessConfigWithMetadata
-   */
-  private createMetadata(config: ProcessConfigWithMetadata) {
-    const metadata = getElectionMetadataTemplate();
-
-    metadata.title.default = config.title;
-    metadata.description.default = config.description || '';
-
-    // TypeScript ensures at least one question exists due to tuple type
-    metadata.questions = config.questions.map(q => ({
-      title: { default: q.title },
-      description: { default: q.description || '' },
-      meta: {},
-      choices: q.choices.map(c => ({
-        title: { default: c.title },
-        value: c.value,
-        meta: {},
-      })),
-    }));
-
-    return metadata;
-  }
-
   /**
    * Ends a voting process by setting its status to ENDED.
    * Returns an async generator that yields transaction status events.
    *
    * @param processId - The process ID to end
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    *
    * @example
@@ -666,13 +841,33 @@ export class ProcessOrchestrationService {
    * }
    * ```
    */
-  async *endProcessStream(processId: string): AsyncGenerator<TxStatusEvent<{ success: boolean }>> {
+  async *endProcessStream(
+    processId: string,
+    options: ProcessTxOptions = {}
+  ): AsyncGenerator<TxStatusEvent<{ success: boolean }>> {
+    const rejected = await this.preflightTx(
+      () =>
+        this.processRegistry.estimateSetProcessStatus(
+          processId,
+          ProcessStatus.ENDED,
+          options.overrides
+        ),
+      'setStatus',
+      options
+    );
+    if (rejected) {
+      yield rejected;
+      return;
+    }
+
     // Submit on-chain transaction to end the process
-    const txStream = this.processRegistry.setProcessStatus(processId, ProcessStatus.ENDED);
+    const txStream = this.processRegistry.setProcessStatus(processId, ProcessStatus.ENDED, options);
 
-    for await (const event of txStream) {
+    for await (const event of abortableStream(txStream, options.signal)) {
       if (event.status === TxStatus.Pending) {
         yield { status: TxStatus.Pending, hash: event.hash };
+      } else if (event.status === TxStatus.Confirming || event.status === TxStatus.Replaced) {
+        yield event;
       } else if (event.status === TxStatus.Completed) {
         yield {
           status: TxStatus.Completed,
@@ -696,6 +891,7 @@ export class ProcessOrchestrationService {
    * For real-time transaction status updates, use endProcessStream() instead.
    *
    * @param processId - The process ID to end
+   * @param options - Optional transaction options
    * @returns Promise resolving when the process is ended
    *
    * @example
@@ -704,9 +900,9 @@ export class ProcessOrchestrationService {
    * console.log("Process ended successfully");
    * ```
    */
-  async endProcess(processId: string): Promise<void> {
+  async endProcess(processId: string, options: ProcessTxOptions = {}): Promise<void> {
     // Use the stream internally and consume it to get the final result
-    for await (const event of this.endProcessStream(processId)) {
+    for await (const event of this.endProcessStream(processId, options)) {
       if (event.status === 'completed') {
         return;
       } else if (event.status === 'failed') {
@@ -724,6 +920,7 @@ export class ProcessOrchestrationService {
    * Returns an async generator that yields transaction status events.
    *
    * @param processId - The process ID to pause
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    *
    * @example
@@ -749,14 +946,32 @@ export class ProcessOrchestrationService {
    * ```
    */
   async *pauseProcessStream(
-    processId: string
+    processId: string,
+    options: ProcessTxOptions = {}
   ): AsyncGenerator<TxStatusEvent<{ success: boolean }>> {
+    const rejected = await this.preflightTx(
+      () =>
+        this.processRegistry.estimateSetProcessStatus(
+          processId,
+          ProcessStatus.PAUSED,
+          options.overrides
+        ),
+      'setStatus',
+      options
+    );
+    if (rejected) {
+      yield rejected;
+      return;
+    }
+
     // Submit on-chain transaction to pause the process
-    const txStream = this.processRegistry.setProcessStatus(processId, ProcessStatus.PAUSED);
+    const txStream = this.processRegistry.setProcessStatus(processId, ProcessStatus.PAUSED, options);
 
-    for await (const event of txStream) {
+    for await (const event of abortableStream(txStream, options.signal)) {
       if (event.status === TxStatus.Pending) {
         yield { status: TxStatus.Pending, hash: event.hash };
+      } else if (event.status === TxStatus.Confirming || event.status === TxStatus.Replaced) {
+        yield event;
       } else if (event.status === TxStatus.Completed) {
         yield {
           status: TxStatus.Completed,
@@ -780,6 +995,7 @@ export class ProcessOrchestrationService {
    * For real-time transaction status updates, use pauseProcessStream() instead.
    *
    * @param processId - The process ID to pause
+   * @param options - Optional transaction options
    * @returns Promise resolving when the process is paused
    *
    * @example
@@ -788,9 +1004,9 @@ export class ProcessOrchestrationService {
    * console.log("Process paused successfully");
    * ```
    */
-  async pauseProcess(processId: string): Promise<void> {
+  async pauseProcess(processId: string, options: ProcessTxOptions = {}): Promise<void> {
     // Use the stream internally and consume it to get the final result
-    for await (const event of this.pauseProcessStream(processId)) {
+    for await (const event of this.pauseProcessStream(processId, options)) {
       if (event.status === 'completed') {
         return;
       } else if (event.status === 'failed') {
@@ -808,6 +1024,7 @@ export class ProcessOrchestrationService {
    * Returns an async generator that yields transaction status events.
    *
    * @param processId - The process ID to cancel
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    *
    * @example
@@ -833,14 +1050,32 @@ export class ProcessOrchestrationService {
    * ```
    */
   async *cancelProcessStream(
-    processId: string
+    processId: string,
+    options: ProcessTxOptions = {}
   ): AsyncGenerator<TxStatusEvent<{ success: boolean }>> {
+    const rejected = await this.preflightTx(
+      () =>
+        this.processRegistry.estimateSetProcessStatus(
+          processId,
+          ProcessStatus.CANCELED,
+          options.overrides
+        ),
+      'setStatus',
+      options
+    );
+    if (rejected) {
+      yield rejected;
+      return;
+    }
+
     // Submit on-chain transaction to cancel the process
-    const txStream = this.processRegistry.setProcessStatus(processId, ProcessStatus.CANCELED);
+    const txStream = this.processRegistry.setProcessStatus(processId, ProcessStatus.CANCELED, options);
 
-    for await (const event of txStream) {
+    for await (const event of abortableStream(txStream, options.signal)) {
       if (event.status === TxStatus.Pending) {
         yield { status: TxStatus.Pending, hash: event.hash };
+      } else if (event.status === TxStatus.Confirming || event.status === TxStatus.Replaced) {
+        yield event;
       } else if (event.status === TxStatus.Completed) {
         yield {
           status: TxStatus.Completed,
@@ -864,6 +1099,7 @@ export class ProcessOrchestrationService {
    * For real-time transaction status updates, use cancelProcessStream() instead.
    *
    * @param processId - The process ID to cancel
+   * @param options - Optional transaction options
    * @returns Promise resolving when the process is canceled
    *
    * @example
@@ -872,9 +1108,9 @@ export class ProcessOrchestrationService {
    * console.log("Process canceled successfully");
    * ```
    */
-  async cancelProcess(processId: string): Promise<void> {
+  async cancelProcess(processId: string, options: ProcessTxOptions = {}): Promise<void> {
     // Use the stream internally and consume it to get the final result
-    for await (const event of this.cancelProcessStream(processId)) {
+    for await (const event of this.cancelProcessStream(processId, options)) {
       if (event.status === 'completed') {
         return;
       } else if (event.status === 'failed') {
@@ -893,6 +1129,7 @@ export class ProcessOrchestrationService {
    * Returns an async generator that yields transaction status events.
    *
    * @param processId - The process ID to resume
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    *
    * @example
@@ -918,14 +1155,32 @@ export class ProcessOrchestrationService {
    * ```
    */
   async *resumeProcessStream(
-    processId: string
+    processId: string,
+    options: ProcessTxOptions = {}
   ): AsyncGenerator<TxStatusEvent<{ success: boolean }>> {
+    const rejected = await this.preflightTx(
+      () =>
+        this.processRegistry.estimateSetProcessStatus(
+          processId,
+          ProcessStatus.READY,
+          options.overrides
+        ),
+      'setStatus',
+      options
+    );
+    if (rejected) {
+      yield rejected;
+      return;
+    }
+
     // Submit on-chain transaction to resume the process
-    const txStream = this.processRegistry.setProcessStatus(processId, ProcessStatus.READY);
+    const txStream = this.processRegistry.setProcessStatus(processId, ProcessStatus.READY, options);
 
-    for await (const event of txStream) {
+    for await (const event of abortableStream(txStream, options.signal)) {
       if (event.status === TxStatus.Pending) {
         yield { status: TxStatus.Pending, hash: event.hash };
+      } else if (event.status === TxStatus.Confirming || event.status === TxStatus.Replaced) {
+        yield event;
       } else if (event.status === TxStatus.Completed) {
         yield {
           status: TxStatus.Completed,
@@ -950,6 +1205,7 @@ export class ProcessOrchestrationService {
    * For real-time transaction status updates, use resumeProcessStream() instead.
    *
    * @param processId - The process ID to resume
+   * @param options - Optional transaction options
    * @returns Promise resolving when the process is resumed
    *
    * @example
@@ -958,9 +1214,9 @@ export class ProcessOrchestrationService {
    * console.log("Process resumed successfully");
    * ```
    */
-  async resumeProcess(processId: string): Promise<void> {
+  async resumeProcess(processId: string, options: ProcessTxOptions = {}): Promise<void> {
     // Use the stream internally and consume it to get the final result
-    for await (const event of this.resumeProcessStream(processId)) {
+    for await (const event of this.resumeProcessStream(processId, options)) {
       if (event.status === 'completed') {
         return;
       } else if (event.status === 'failed') {
@@ -979,6 +1235,7 @@ export class ProcessOrchestrationService {
    *
    * @param processId - The process ID
    * @param maxVoters - The new maximum number of voters
+   * @param options - Optional transaction options
    * @returns AsyncGenerator yielding transaction status events
    *
    * @example
@@ -1005,14 +1262,28 @@ export class ProcessOrchestrationService {
    */
   async *setProcessMaxVotersStream(
     processId: string,
-    maxVoters: number
+    maxVoters: number,
+    options: ProcessTxOptions = {}
   ): AsyncGenerator<TxStatusEvent<{ success: boolean }>> {
+    const rejected = await this.preflightTx(
+      () =>
+        this.processRegistry.estimateSetProcessMaxVoters(processId, maxVoters, options.overrides),
+      'setMaxVoters',
+      options
+    );
+    if (rejected) {
+      yield rejected;
+      return;
+    }
+
     // Submit on-chain transaction to update maxVoters
-    const txStream = this.processRegistry.setProcessMaxVoters(processId, maxVoters);
+    const txStream = this.processRegistry.setProcessMaxVoters(processId, maxVoters, options);
 
-    for await (const event of txStream) {
+    for await (const event of abortableStream(txStream, options.signal)) {
       if (event.status === TxStatus.Pending) {
         yield { status: TxStatus.Pending, hash: event.hash };
+      } else if (event.status === TxStatus.Confirming || event.status === TxStatus.Replaced) {
+        yield event;
       } else if (event.status === TxStatus.Completed) {
         yield {
           status: TxStatus.Completed,
@@ -1037,6 +1308,7 @@ export class ProcessOrchestrationService {
    *
    * @param processId - The process ID
    * @param maxVoters - The new maximum number of voters
+   * @param options - Optional transaction options
    * @returns Promise resolving when the maxVoters is updated
    *
    * @example
@@ -1045,9 +1317,13 @@ export class ProcessOrchestrationService {
    * console.log("MaxVoters updated successfully");
    * ```
    */
-  async setProcessMaxVoters(processId: string, maxVoters: number): Promise<void> {
+  async setProcessMaxVoters(
+    processId: string,
+    maxVoters: number,
+    options: ProcessTxOptions = {}
+  ): Promise<void> {
     // Use the stream internally and consume it to get the final result
-    for await (const event of this.setProcessMaxVotersStream(processId, maxVoters)) {
+    for await (const event of this.setProcessMaxVotersStream(processId, maxVoters, options)) {
       if (event.status === 'completed') {
         return;
       } else if (event.status === 'failed') {
@@ -1 +1,11 @@
 export * from './ProcessOrchestrationService';
+export {
+  SHORT_PROCESS_DURATION,
+  ProcessConfigValidationError,
+  validateProcessConfig,
+} from './ProcessConfigValidation';
+export type {
+  ProcessConfigIssue,
+  ProcessConfigValidation,
+  ValidateProcessConfigOptions,
+} from './ProcessConfigValidation';
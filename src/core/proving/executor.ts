@@ -0,0 +1,105 @@
+import * as snarkjs from 'snarkjs';
+import { Groth16Proof, ProofInputs } from '../../sequencer/types';
+
+/**
+ * A circuit artifact (circuit wasm or proving key) handed to a proving executor.
+ * Executors that keep artifacts between proofs only call `load` for keys they have not seen.
+ */
+export interface ProvingArtifact {
+  /** Stable identifier of the artifact contents (the artifact hash published by the sequencer) */
+  key: string;
+  /** Returns the artifact bytes. Executors may transfer the underlying buffer to a worker. */
+  load(): Promise<Uint8Array>;
+}
+
+/**
+ * Everything needed to generate a Groth16 proof
+ */
+export interface ProvingRequest {
+  /** Circuit inputs */
+  inputs: ProofInputs;
+  /** Circuit wasm */
+  wasm: ProvingArtifact;
+  /** Proving key */
+  zkey: ProvingArtifact;
+}
+
+/**
+ * Result of a proof generation
+ */
+export interface ProvingResult {
+  proof: Groth16Proof;
+  publicSignals: string[];
+}
+
+/**
+ * Runs Groth16 proof generation.
+ *
+ * @example
+ * ```typescript
+ * const sdk = new DavinciSDK({
+ *   signer,
+ *   sequencerUrl,
+ *   provingExecutor: new NodeWorkerProvingExecutor(),
+ * });
+ * ```
+ */
+export interface ProvingExecutor {
+  /**
+   * Generates a proof
+   * @param request - Circuit inputs and artifacts
+   * @param signal - Optional signal cancelling the proof generation
+   * @throws The signal's abort reason when cancelled
+   */
+  prove(request: ProvingRequest, signal?: AbortSignal): Promise<ProvingResult>;
+
+  /**
+   * Whether the executor already holds an artifact, so loading it again is not needed
+   */
+  hasArtifact?(key: string): boolean;
+
+  /**
+   * Releases any resources held by the executor (workers, cached artifacts)
+   */
+  terminate?(): void;
+}
+
+const groth16 = snarkjs.groth16 as {
+  fullProve(inputs: ProofInputs, wasm: Uint8Array, zkey: Uint8Array): Promise<ProvingResult>;
+};
+
+/**
+ * Generates proofs on the calling thread (default executor).
+ * The proof generation itself cannot be interrupted: cancellation is only
+ * honoured before it starts, and its result is discarded if cancelled meanwhile.
+ */
+export class InThreadProvingExecutor implements ProvingExecutor {
+  async prove(request: ProvingRequest, signal?: AbortSignal): Promise<ProvingResult> {
+    throwIfAborted(signal);
+    const [wasm, zkey] = await Promise.all([request.wasm.load(), request.zkey.load()]);
+    throwIfAborted(signal);
+
+    const { proof, publicSignals } = await groth16.fullProve(request.inputs, wasm, zkey);
+    throwIfAborted(signal);
+
+    return { proof, publicSignals };
+  }
+}
+
+/**
+ * Throws the abort reason of a cancelled signal
+ * @internal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+}
+
+/**
+ * Returns the error a cancelled operation rejects with
+ * @internal
+ */
+export function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Proof generation was aborted', 'AbortError');
+}
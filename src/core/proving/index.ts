@@ -0,0 +1,14 @@
+export { InThreadProvingExecutor } from './executor';
+export type { ProvingArtifact, ProvingExecutor, ProvingRequest, ProvingResult } from './executor';
+export {
+  WorkerProvingExecutor,
+  NodeWorkerProvingExecutor,
+  WebWorkerProvingExecutor,
+} from './worker';
+export type {
+  ProvingWorker,
+  ProvingWorkerMessage,
+  ProvingWorkerReply,
+  NodeWorkerProvingExecutorOptions,
+  WebWorkerProvingExecutorOptions,
+} from './worker';
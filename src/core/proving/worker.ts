@@ -0,0 +1,300 @@
+import { Groth16Proof, ProofInputs } from '../../sequencer/types';
+import {
+  abortReason,
+  ProvingExecutor,
+  ProvingRequest,
+  ProvingResult,
+  throwIfAborted,
+} from './executor';
+
+type ArtifactName = 'wasm' | 'zkey';
+
+/**
+ * Message sent to a proving worker. Artifact bytes are only included
+ * the first time the worker sees an artifact key.
+ */
+export interface ProvingWorkerMessage {
+  id: number;
+  inputs: ProofInputs;
+  wasm: { key: string; bytes?: Uint8Array };
+  zkey: { key: string; bytes?: Uint8Array };
+}
+
+/**
+ * Reply posted by a proving worker
+ */
+export type ProvingWorkerReply =
+  | { id: number; proof: Groth16Proof; publicSignals: string[] }
+  | { id: number; error: string };
+
+/**
+ * Minimal handle over a Node or browser worker
+ */
+export interface ProvingWorker {
+  postMessage(message: ProvingWorkerMessage, transfer: ArrayBuffer[]): void;
+  terminate(): void;
+  /** Whether the worker keeps the process alive (Node only) */
+  setActive?(active: boolean): void;
+}
+
+interface PendingProof {
+  id: number;
+  resolve(result: ProvingResult): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * Worker-side handler, shared by the Node and browser workers.
+ * Expects a `loadSnarkjs()` function returning the snarkjs module.
+ */
+const WORKER_HANDLER = `
+const artifacts = {};
+async function handle(message, reply) {
+  try {
+    for (const name of ['wasm', 'zkey']) {
+      const artifact = message[name];
+      if (artifact.bytes) {
+        artifacts[name] = artifact;
+      } else if (!artifacts[name] || artifacts[name].key !== artifact.key) {
+        throw new Error('Proving worker is missing ' + name + ' artifact ' + artifact.key);
+      }
+    }
+    const snarkjs = await loadSnarkjs();
+    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+      message.inputs,
+      artifacts.wasm.bytes,
+      artifacts.zkey.bytes
+    );
+    reply({ id: message.id, proof, publicSignals });
+  } catch (error) {
+    reply({ id: message.id, error: error && error.message ? error.message : String(error) });
+  }
+}
+`;
+
+/**
+ * Base class of the executors generating proofs in a dedicated worker.
+ *
+ * Proofs are generated one at a time. Circuit artifacts are transferred to the worker
+ * (not copied) the first time their key is seen and kept there for later proofs, so
+ * the buffers returned by `ProvingArtifact.load` are detached after the transfer.
+ * Cancelling a proof terminates the worker; the next proof starts a new one.
+ */
+export abstract class WorkerProvingExecutor implements ProvingExecutor {
+  private worker?: ProvingWorker;
+  private pending?: PendingProof;
+  private loadedKeys: Partial<Record<ArtifactName, string>> = {};
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextId = 0;
+
+  /**
+   * Starts a worker running the handler
+   * @param onReply - Called with every reply posted by the worker
+   * @param onError - Called when the worker fails or exits
+   */
+  protected abstract spawn(
+    onReply: (reply: ProvingWorkerReply) => void,
+    onError: (error: Error) => void
+  ): Promise<ProvingWorker>;
+
+  prove(request: ProvingRequest, signal?: AbortSignal): Promise<ProvingResult> {
+    const result = this.queue.then(() => this.run(request, signal));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  hasArtifact(key: string): boolean {
+    return this.loadedKeys.wasm === key || this.loadedKeys.zkey === key;
+  }
+
+  terminate(): void {
+    this.pending?.reject(new Error('Proving executor was terminated'));
+    this.reset();
+  }
+
+  private async run(request: ProvingRequest, signal?: AbortSignal): Promise<ProvingResult> {
+    throwIfAborted(signal);
+    const worker = await this.getWorker();
+
+    const message: ProvingWorkerMessage = {
+      id: ++this.nextId,
+      inputs: request.inputs,
+      wasm: { key: request.wasm.key },
+      zkey: { key: request.zkey.key },
+    };
+    const transfer: ArrayBuffer[] = [];
+    for (const name of ['wasm', 'zkey'] as const) {
+      if (this.loadedKeys[name] !== request[name].key) {
+        const bytes = await request[name].load();
+        message[name].bytes = bytes;
+        if (bytes.buffer instanceof ArrayBuffer) transfer.push(bytes.buffer);
+      }
+    }
+    throwIfAborted(signal);
+    if (this.worker !== worker) {
+      throw new Error('Proving executor was terminated');
+    }
+
+    return new Promise<ProvingResult>((resolve, reject) => {
+      const onAbort = () => {
+        this.pending?.reject(abortReason(signal as AbortSignal));
+        this.reset();
+      };
+      const settle = () => {
+        signal?.removeEventListener('abort', onAbort);
+        worker.setActive?.(false);
+        this.pending = undefined;
+      };
+
+      this.pending = {
+        id: message.id,
+        resolve: result => {
+          settle();
+          resolve(result);
+        },
+        reject: error => {
+          settle();
+          reject(error);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      worker.setActive?.(true);
+      worker.postMessage(message, transfer);
+
+      if (message.wasm.bytes) this.loadedKeys.wasm = message.wasm.key;
+      if (message.zkey.bytes) this.loadedKeys.zkey = message.zkey.key;
+    });
+  }
+
+  private async getWorker(): Promise<ProvingWorker> {
+    if (this.worker) return this.worker;
+
+    const worker: ProvingWorker = await this.spawn(
+      reply => {
+        if (this.worker !== worker || this.pending?.id !== reply.id) return;
+        if ('error' in reply) {
+          this.pending.reject(new Error(`Proof generation failed: ${reply.error}`));
+        } else {
+          this.pending.resolve({ proof: reply.proof, publicSignals: reply.publicSignals });
+        }
+      },
+      error => {
+        if (this.worker !== worker) return;
+        this.pending?.reject(error);
+        this.reset();
+      }
+    );
+    this.worker = worker;
+    return worker;
+  }
+
+  private reset(): void {
+    const worker = this.worker;
+    this.worker = undefined;
+    this.pending = undefined;
+    this.loadedKeys = {};
+    worker?.terminate();
+  }
+}
+
+/**
+ * Options for NodeWorkerProvingExecutor
+ */
+export interface NodeWorkerProvingExecutorOptions {
+  /**
+   * Module specifier or file URL the worker imports snarkjs from
+   * (default: 'snarkjs', resolved from the working directory)
+   */
+  snarkjs?: string;
+}
+
+/**
+ * Generates proofs in a Node.js `worker_threads` worker, keeping the event loop free.
+ * The worker does not keep the process alive while idle; call `terminate()` to stop it.
+ */
+export class NodeWorkerProvingExecutor extends WorkerProvingExecutor {
+  constructor(private readonly options: NodeWorkerProvingExecutorOptions = {}) {
+    super();
+  }
+
+  protected async spawn(
+    onReply: (reply: ProvingWorkerReply) => void,
+    onError: (error: Error) => void
+  ): Promise<ProvingWorker> {
+    const { Worker } = await import('worker_threads');
+    const source = [
+      "const { parentPort, workerData } = require('worker_threads');",
+      'let snarkjsModule;',
+      'const loadSnarkjs = () => (snarkjsModule = snarkjsModule || import(workerData.snarkjs));',
+      WORKER_HANDLER,
+      "parentPort.on('message', message => handle(message, reply => parentPort.postMessage(reply)));",
+    ].join('\n');
+
+    const worker = new Worker(source, {
+      eval: true,
+      workerData: {
+        snarkjs: this.options.snarkjs ?? 'snarkjs',
+        // snarkjs depends on the `web-worker` package, which treats every worker thread
+        // as one of its own and evaluates `workerData.mod`: hand it an empty script.
+        mod: 'data:,',
+      },
+    });
+    worker.on('message', onReply);
+    worker.on('error', onError);
+    worker.on('exit', code => onError(new Error(`Proving worker exited with code ${code}`)));
+    worker.unref();
+
+    return {
+      postMessage: (message, transfer) => worker.postMessage(message, transfer),
+      terminate: () => void worker.terminate(),
+      setActive: active => (active ? worker.ref() : worker.unref()),
+    };
+  }
+}
+
+/**
+ * Options for WebWorkerProvingExecutor
+ */
+export interface WebWorkerProvingExecutorOptions {
+  /** URL of the snarkjs browser bundle (`build/snarkjs.min.js`) loaded by the worker */
+  snarkjsUrl: string;
+}
+
+/**
+ * Generates proofs in a browser Web Worker, keeping the UI responsive
+ */
+export class WebWorkerProvingExecutor extends WorkerProvingExecutor {
+  constructor(private readonly options: WebWorkerProvingExecutorOptions) {
+    super();
+  }
+
+  protected spawn(
+    onReply: (reply: ProvingWorkerReply) => void,
+    onError: (error: Error) => void
+  ): Promise<ProvingWorker> {
+    // The worker runs from a blob URL, so relative URLs are resolved against the page
+    const snarkjsUrl = new URL(this.options.snarkjsUrl, globalThis.location?.href).href;
+    const source = [
+      `importScripts(${JSON.stringify(snarkjsUrl)});`,
+      'const loadSnarkjs = () => Promise.resolve(self.snarkjs);',
+      WORKER_HANDLER,
+      'self.onmessage = event => handle(event.data, reply => self.postMessage(reply));',
+    ].join('\n');
+
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    worker.onmessage = (event: MessageEvent<ProvingWorkerReply>) => onReply(event.data);
+    worker.onerror = event => {
+      event.preventDefault();
+      onError(new Error(`Proving worker failed: ${event.message}`));
+    };
+
+    return Promise.resolve({
+      postMessage: (message, transfer) => worker.postMessage(message, transfer),
+      terminate: () => {
+        worker.terminate();
+        URL.revokeObjectURL(url);
+      },
+    });
+  }
+}
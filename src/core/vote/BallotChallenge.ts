@@ -0,0 +1,270 @@
+import { sha256, toUtf8Bytes } from 'ethers';
+import { BallotBuilder } from '../../crypto/BallotBuilder';
+import type { AbortOptions } from '../api/abort';
+import { VoteBallot, VoteCiphertext } from '../../sequencer/api/types';
+import type { VoteResult } from './VoteOrchestrationService';
+
+/**
+ * Current ballot audit format version
+ */
+export const BALLOT_AUDIT_VERSION = 1;
+
+/**
+ * Everything needed to check an audited ballot independently.
+ * Revealing the randomness exposes the choices: the ballot must never be cast.
+ */
+export interface BallotAudit {
+  /** Audit format version */
+  version: typeof BALLOT_AUDIT_VERSION;
+  /** The process ID */
+  processId: string;
+  /** The voter's address */
+  voterAddress: string;
+  /** Vote ID the ballot would have been cast with */
+  voteId: string;
+  /** Process encryption key the ballot was encrypted with (RTE coordinates) */
+  encryptionKey: { x: string; y: string };
+  /** The encrypted ballot */
+  ballot: VoteBallot;
+  /** Fingerprint of the ciphertexts shown to the voter before the audit */
+  fingerprint: string;
+  /** The revealed randomness `k` (decimal string) */
+  k: string;
+  /** The revealed ballot fields */
+  choices: number[];
+}
+
+/**
+ * Outcome of a ballot audit verification
+ */
+export interface BallotAuditVerification {
+  /** Whether re-encrypting the choices with the revealed randomness gives the audited ciphertexts */
+  ciphertextsMatch: boolean;
+  /** Whether the fingerprint matches the audited ciphertexts */
+  fingerprintMatches: boolean;
+  /** Whether the vote ID derives from the revealed randomness */
+  voteIdMatches: boolean;
+  /** Whether the ballot was encrypted with the expected process key */
+  encryptionKeyMatches: boolean;
+  /** Whether every check passed */
+  valid: boolean;
+  /** Every reason the audit failed verification */
+  reasons: string[];
+}
+
+/**
+ * Options for verifyBallotAudit
+ */
+export interface VerifyBallotAuditOptions {
+  /**
+   * Process encryption key, read independently from the process (default: the key in the audit).
+   * An independent verifier should not trust the key recorded by the device under audit.
+   */
+  encryptionKey?: { x: string; y: string };
+  /** Ballot builder to reuse (built on demand otherwise) */
+  builder?: BallotBuilder;
+}
+
+/**
+ * Error thrown when a challenge ballot is used out of order
+ */
+export class BallotChallengeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BallotChallengeError';
+  }
+}
+
+/**
+ * A ballot encrypted ahead of casting, for Benaloh-style cast-or-audit challenges.
+ *
+ * Show the voter the `fingerprint`, then either cast the ballot or audit it. Auditing
+ * reveals the randomness so that anyone can recompute the ciphertexts and check they
+ * encrypt the voter's choices; an audited ballot can no longer be cast, and the voter
+ * must encrypt a new ballot, with fresh randomness, to vote.
+ */
+export class ChallengeBallot {
+  private status: 'encrypted' | 'audited' | 'casting' | 'submitted' | 'cast' = 'encrypted';
+
+  /**
+   * @internal Created by VoteOrchestrationService.encryptBallot()
+   */
+  constructor(
+    /** The process ID */
+    readonly processId: string,
+    /** The voter's address */
+    readonly voterAddress: string,
+    /** Vote ID the ballot will be cast with */
+    readonly voteId: string,
+    /** The encrypted ballot */
+    readonly ballot: VoteBallot,
+    private readonly encryptionKey: { x: string; y: string },
+    private readonly secret: { k: string; choices: number[] },
+    private readonly castBallot: (
+      k: string,
+      signal: AbortSignal | undefined,
+      onSubmitting: () => void
+    ) => Promise<VoteResult>
+  ) {}
+
+  /**
+   * Fingerprint of the ciphertexts, to show the voter before they decide to cast or audit
+   */
+  get fingerprint(): string {
+    return ballotFingerprint(this.ballot.ciphertexts);
+  }
+
+  /**
+   * Whether the ballot was audited (and can no longer be cast)
+   */
+  get audited(): boolean {
+    return this.status === 'audited';
+  }
+
+  /**
+   * Reveals the randomness and choices of the ballot. The ballot can no longer be cast.
+   *
+   * @returns The audit, to check with verifyBallotAudit()
+   * @throws BallotChallengeError if the ballot was cast or is being cast
+   */
+  audit(): BallotAudit {
+    if (this.status !== 'encrypted' && this.status !== 'audited') {
+      throw new BallotChallengeError('Cast ballots cannot be audited');
+    }
+    this.status = 'audited';
+
+    return {
+      version: BALLOT_AUDIT_VERSION,
+      processId: this.processId,
+      voterAddress: this.voterAddress,
+      voteId: this.voteId,
+      encryptionKey: { ...this.encryptionKey },
+      ballot: this.ballot,
+      fingerprint: this.fingerprint,
+      k: this.secret.k,
+      choices: [...this.secret.choices],
+    };
+  }
+
+  /**
+   * Proves, signs and submits the ballot, keeping its ciphertexts.
+   * A failure before the vote is sent leaves the ballot ready to cast or audit again. Once
+   * the vote is sent the sequencer may have accepted it, so the ballot can no longer be
+   * cast or audited even if the submission or the status request fails.
+   *
+   * @param options - Optional signal cancelling the vote
+   * @returns Promise resolving to vote submission result
+   * @throws BallotChallengeError if the ballot was audited or already cast, or if the
+   * process encryption changed since the ballot was encrypted
+   */
+  async cast(options: AbortOptions = {}): Promise<VoteResult> {
+    if (this.status === 'audited') {
+      throw new BallotChallengeError(
+        'Audited ballots cannot be cast. Encrypt a new ballot to vote.'
+      );
+    }
+    if (this.status !== 'encrypted') {
+      throw new BallotChallengeError('Ballot was already cast');
+    }
+
+    this.status = 'casting';
+    try {
+      const result = await this.castBallot(
+        this.secret.k,
+        options.signal,
+        () => (this.status = 'submitted')
+      );
+      this.status = 'cast';
+      return result;
+    } catch (error) {
+      if (this.status === 'casting') {
+        this.status = 'encrypted';
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Computes the fingerprint of a ballot's ciphertexts
+ */
+export function ballotFingerprint(ciphertexts: VoteCiphertext[]): string {
+  return sha256(toUtf8Bytes(JSON.stringify(normalizeCiphertexts(ciphertexts))));
+}
+
+/**
+ * Checks an audited ballot: re-encrypts the revealed choices with the revealed randomness
+ * and the process public key, and compares the result with the audited ciphertexts.
+ *
+ * @param audit - The ballot audit
+ * @param options - The independently read process encryption key
+ * @returns The verification outcome
+ */
+export async function verifyBallotAudit(
+  audit: BallotAudit,
+  options: VerifyBallotAuditOptions = {}
+): Promise<BallotAuditVerification> {
+  const builder = options.builder ?? (await BallotBuilder.build());
+  const reasons: string[] = [];
+  const encryptionKey = options.encryptionKey ?? audit.encryptionKey;
+
+  const encryptionKeyMatches =
+    BigInt(encryptionKey.x) === BigInt(audit.encryptionKey.x) &&
+    BigInt(encryptionKey.y) === BigInt(audit.encryptionKey.y);
+  if (!encryptionKeyMatches) {
+    reasons.push('ballot was not encrypted with the process encryption key');
+  }
+
+  const audited = normalizeCiphertexts(audit.ballot.ciphertexts);
+  const pubKey: unknown = builder.createPubKeyFromRTE(encryptionKey.x, encryptionKey.y);
+  const expected = builder
+    .encryptFields(audit.choices, pubKey, audit.k, audited.length)
+    .cipherfields.map(([c1, c2]) => ({ c1, c2 }));
+  const ciphertextsMatch =
+    JSON.stringify(normalizeCiphertexts(expected as VoteCiphertext[])) === JSON.stringify(audited);
+  if (!ciphertextsMatch) {
+    reasons.push('ciphertexts do not encrypt the revealed choices with the revealed randomness');
+  }
+
+  const fingerprintMatches = ballotFingerprint(audit.ballot.ciphertexts) === audit.fingerprint;
+  if (!fingerprintMatches) {
+    reasons.push('fingerprint does not match the audited ciphertexts');
+  }
+
+  const voteIdMatches =
+    BigInt(
+      builder.computeVoteID(
+        BigInt(audit.processId).toString(),
+        BigInt(audit.voterAddress).toString(),
+        audit.k
+      )
+    ) === BigInt(audit.voteId);
+  if (!voteIdMatches) {
+    reasons.push('vote ID does not derive from the revealed randomness');
+  }
+
+  return {
+    ciphertextsMatch,
+    fingerprintMatches,
+    voteIdMatches,
+    encryptionKeyMatches,
+    valid: reasons.length === 0,
+    reasons,
+  };
+}
+
+/**
+ * Whether two ballots have the same ciphertexts
+ * @internal
+ */
+export function sameCiphertexts(a: VoteCiphertext[], b: VoteCiphertext[]): boolean {
+  return JSON.stringify(normalizeCiphertexts(a)) === JSON.stringify(normalizeCiphertexts(b));
+}
+
+function normalizeCiphertexts(ciphertexts: VoteCiphertext[]): VoteCiphertext[] {
+  const normalize = (point: string[]) => point.map(value => BigInt(value).toString());
+  return ciphertexts.map(({ c1, c2 }) => ({
+    c1: normalize(c1) as [string, string],
+    c2: normalize(c2) as [string, string],
+  }));
+}
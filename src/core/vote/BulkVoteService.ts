@@ -0,0 +1,297 @@
+import { Signer } from 'ethers';
+import { VoteStatus } from '../../sequencer/api/types';
+import { isTransientSequencerError } from '../api/BaseService';
+import { checkAborted, sleep } from '../api/abort';
+import { runWithConcurrency } from '../api/concurrency';
+import { AlreadyVotedError } from './VoteOverwrite';
+import { VoteConfig, VoteOrchestrationService, VoteResult } from './VoteOrchestrationService';
+import { VotePackage } from './VotePackage';
+import { createVoteReceipt } from './VoteReceipt';
+
+/**
+ * A vote cast by one of many signers
+ */
+export interface BulkVote extends VoteConfig {
+  /** The voter's signer */
+  signer: Signer;
+}
+
+/**
+ * Options for waiting until bulk votes settle
+ */
+export interface BulkVoteSettlementOptions {
+  /** Maximum time to wait in milliseconds (default: 300000) */
+  timeoutMs?: number;
+  /** Polling interval in milliseconds (default: 5000) */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Options for submitting many votes
+ */
+export interface BulkVoteOptions {
+  /** Maximum number of votes being prepared at once, which caps concurrent proofs (default: 2) */
+  concurrency?: number;
+  /** Retries of a sequencer step failing with a transient error (default: 3) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled on each retry (default: 1000) */
+  retryDelayMs?: number;
+  /**
+   * Wait until the submitted votes settle, polling their status with a single shared poller.
+   * Votes still pending at the timeout keep their last known status.
+   */
+  waitUntilSettled?: boolean | BulkVoteSettlementOptions;
+  /** Called as each vote is submitted or fails */
+  onVote?: (outcome: BulkVoteSuccess | BulkVoteFailure) => void;
+  /**
+   * Signal cancelling the votes not submitted yet, which are reported as failed with an
+   * AbortError, and the wait until the votes settle. A vote's own `signal` takes precedence.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A vote submitted by the bulk vote engine
+ */
+export interface BulkVoteSuccess {
+  /** Index of the vote in the submitted list */
+  index: number;
+  /** The voter's address */
+  voterAddress: string;
+  /** The vote result; its status is updated while waiting for the votes to settle */
+  result: VoteResult;
+}
+
+/**
+ * A vote the bulk vote engine could not submit
+ */
+export interface BulkVoteFailure {
+  /** Index of the vote in the submitted list */
+  index: number;
+  /** The voter's address, if it could be read from the signer */
+  voterAddress?: string;
+  /** The error of the last attempt */
+  error: unknown;
+  /** Number of attempts of the failing step */
+  attempts: number;
+}
+
+/**
+ * Outcome of a bulk vote submission
+ */
+export interface BulkVoteReport {
+  /** Submitted votes, in list order */
+  succeeded: BulkVoteSuccess[];
+  /** Failed votes, in list order */
+  failed: BulkVoteFailure[];
+}
+
+// Votes polled at once while waiting for the votes to settle
+const STATUS_POLL_CONCURRENCY = 8;
+
+/**
+ * Submits votes of many signers, sharing one ballot input generator, proving executor
+ * and circuit artifact cache between them.
+ *
+ * Each vote is prepared (proven and signed) and then submitted. Steps failing with a
+ * transient sequencer error (timeouts, rate limiting, 5xx responses) are retried with
+ * exponential backoff; a retried submission is not proven again.
+ */
+export class BulkVoteService {
+  constructor(private readonly orchestrator: VoteOrchestrationService) {}
+
+  /**
+   * Submit many votes
+   *
+   * @param votes - The votes, each with its own signer
+   * @param options - Concurrency, retry and settlement options
+   * @returns Promise resolving to the submitted and failed votes
+   *
+   * @example
+   * ```typescript
+   * const bulk = new BulkVoteService(sdk.voteOrchestrator);
+   * const { succeeded, failed } = await bulk.submitVotes(
+   *   wallets.map(signer => ({ signer, processId, choices: [1] })),
+   *   { concurrency: 2, waitUntilSettled: true }
+   * );
+   * ```
+   */
+  async submitVotes(votes: BulkVote[], options: BulkVoteOptions = {}): Promise<BulkVoteReport> {
+    const concurrency = options.concurrency ?? 2;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('concurrency must be a positive integer');
+    }
+
+    const succeeded: BulkVoteSuccess[] = [];
+    const failed: BulkVoteFailure[] = [];
+
+    await runWithConcurrency(votes, concurrency, async (vote, index) => {
+      const outcome = await this.submitOne(vote, index, options);
+      if ('result' in outcome) {
+        succeeded.push(outcome);
+      } else {
+        failed.push(outcome);
+      }
+      options.onVote?.(outcome);
+    });
+
+    if (options.waitUntilSettled && !options.signal?.aborted) {
+      const settlement = options.waitUntilSettled === true ? {} : options.waitUntilSettled;
+      await this.waitUntilSettled(succeeded, settlement, options.signal);
+    }
+
+    return {
+      succeeded: succeeded.sort((a, b) => a.index - b.index),
+      failed: failed.sort((a, b) => a.index - b.index),
+    };
+  }
+
+  private async submitOne(
+    vote: BulkVote,
+    index: number,
+    options: BulkVoteOptions
+  ): Promise<BulkVoteSuccess | BulkVoteFailure> {
+    const { signer, ...config } = vote;
+    const signal = config.signal ?? options.signal;
+    let voterAddress: string | undefined;
+    // Each step has its own retry budget and attempt count
+    const prepareAttempts = { count: 0 };
+    const submitAttempts = { count: 0 };
+
+    try {
+      voterAddress = await signer.getAddress();
+      const orchestrator = this.orchestrator.withSigner(signer);
+
+      const votePackage = await this.retry(
+        () => orchestrator.prepareVote({ ...config, signal }),
+        options,
+        prepareAttempts,
+        signal
+      );
+      const result = await this.retry(
+        () => this.submitPrepared(orchestrator, votePackage, submitAttempts.count > 1, signal),
+        options,
+        submitAttempts,
+        signal
+      );
+      return { index, voterAddress, result };
+    } catch (error) {
+      const attempts = submitAttempts.count || prepareAttempts.count;
+      return { index, voterAddress, error, attempts };
+    }
+  }
+
+  /**
+   * Submit a prepared vote. A previous attempt may have reached the sequencer even though
+   * it failed here, so a retry first looks the vote ID up: a known vote counts as submitted.
+   * When the lookup fails, a retry still accepts the sequencer reporting this vote ID as the
+   * voter's previous vote.
+   */
+  private async submitPrepared(
+    orchestrator: VoteOrchestrationService,
+    votePackage: VotePackage,
+    isRetry: boolean,
+    signal?: AbortSignal
+  ): Promise<VoteResult> {
+    const { request } = votePackage;
+    const submitted = (status: VoteStatus): VoteResult => ({
+      voteId: request.voteId,
+      signature: request.signature,
+      voterAddress: request.address,
+      processId: request.processId,
+      status,
+      ...(votePackage.overwrite && { overwrite: votePackage.overwrite }),
+      receipt: createVoteReceipt(votePackage),
+    });
+
+    if (isRetry) {
+      try {
+        const { status } = await orchestrator.getVoteStatus(request.processId, request.voteId, {
+          signal,
+        });
+        return submitted(status);
+      } catch {
+        // Unknown vote ID or lookup failure: submit again
+        checkAborted(signal);
+      }
+    }
+
+    try {
+      return await orchestrator.submitPreparedVote(votePackage, { signal });
+    } catch (error) {
+      if (
+        !isRetry ||
+        !(error instanceof AlreadyVotedError) ||
+        error.previousVoteId?.toLowerCase() !== request.voteId.toLowerCase()
+      ) {
+        throw error;
+      }
+      // The status lookup above failed, so the status is not known yet
+      return submitted(VoteStatus.Pending);
+    }
+  }
+
+  /**
+   * Run a step, retrying it after transient sequencer errors
+   */
+  private async retry<T>(
+    task: () => Promise<T>,
+    options: BulkVoteOptions,
+    attempts: { count: number },
+    signal?: AbortSignal
+  ): Promise<T> {
+    const retries = options.retries ?? 3;
+    const retryDelayMs = options.retryDelayMs ?? 1000;
+
+    for (let attempt = 0; ; attempt++) {
+      attempts.count = attempt + 1;
+      try {
+        return await task();
+      } catch (error) {
+        if (attempt >= retries || !isTransientSequencerError(error)) {
+          throw error;
+        }
+        await sleep(retryDelayMs * 2 ** attempt, signal);
+      }
+    }
+  }
+
+  /**
+   * Poll the status of every pending vote until all of them settle or fail, the timeout
+   * elapses or the signal is aborted. Failed status requests leave the last known status.
+   */
+  private async waitUntilSettled(
+    succeeded: BulkVoteSuccess[],
+    options: BulkVoteSettlementOptions,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const deadline = Date.now() + (options.timeoutMs ?? 300000);
+    const pollIntervalMs = options.pollIntervalMs ?? 5000;
+    const isPending = ({ result }: BulkVoteSuccess) =>
+      result.status !== VoteStatus.Settled && result.status !== VoteStatus.Error;
+
+    let pending = succeeded.filter(isPending);
+    while (pending.length > 0 && Date.now() < deadline) {
+      try {
+        await sleep(Math.min(pollIntervalMs, Math.max(0, deadline - Date.now())), signal);
+      } catch {
+        // Cancelled: keep the last known statuses
+        return;
+      }
+
+      await runWithConcurrency(pending, STATUS_POLL_CONCURRENCY, async ({ result }) => {
+        try {
+          const { status } = await this.orchestrator.getVoteStatus(
+            result.processId,
+            result.voteId,
+            { signal }
+          );
+          result.status = status;
+        } catch {
+          // Keep the last known status and poll again on the next round
+        }
+      });
+      pending = pending.filter(isPending);
+    }
+  }
+}
@@ -1,7 +1,8 @@
-import { Signer, sha256 } from 'ethers';
+import { Signer } from 'ethers';
 import { VocdoniApiService } from '../api/ApiService';
 import { BallotInputGenerator } from '../../sequencer/BallotInputGenerator';
 import { BallotInputsOutput } from '../../crypto/types';
+import { assertValidBallot } from '../../crypto/BallotChecker';
 import { ProofInputs as Groth16ProofInputs } from '../../sequencer/types';
 import {
   CensusOrigin,
@@ -10,8 +11,63 @@ import {
   assertMerkleCensusProof,
   assertCSPCensusProof,
 } from '../../census/types';
-import { VoteRequest, VoteBallot, VoteProof, VoteStatus } from '../../sequencer/api/types';
+import {
+  GetProcessResponse,
+  InfoResponse,
+  VoteRequest,
+  VoteBallot,
+  StatusUpdate,
+  VoteProof,
+  VoteStatus,
+} from '../../sequencer/api/types';
+import {
+  StatusSubscriber,
+  StatusSubscriptionOptions,
+  StatusTransport,
+} from '../../sequencer/StatusSubscription';
+import {
+  checkVotePackage,
+  VOTE_PACKAGE_VERSION,
+  VotePackage,
+  VotePackageError,
+} from './VotePackage';
 import { BallotMode } from '../types';
+import { answersToChoices, VoteAnswers } from '../ballot/answers';
+import { MetadataValidationError } from '../metadata/validation';
+import { loadElectionMetadata } from '../metadata/loader';
+import { MetadataStorage, SequencerMetadataStorage } from '../metadata/storage';
+import { metadataToQuestions } from '../metadata/transform';
+import { InThreadProvingExecutor, ProvingExecutor } from '../proving';
+import {
+  ArtifactStore,
+  CircuitArtifactLoader,
+  CircuitArtifactName,
+  CircuitArtifactProgress,
+} from '../artifacts';
+import { runVoteStages, VoteStage, VoteStageRunner, VoteStreamEvent } from './VoteStream';
+import { AbortOptions, timeoutSignal } from '../api/abort';
+import {
+  AlreadyVotedError,
+  evaluateVoteOverwrite,
+  readOverwriteCounters,
+  VoteOverwriteConfirmation,
+  VoteOverwriteInfo,
+} from './VoteOverwrite';
+import { createVoteReceipt, encryptReceiptSecret, VoteReceipt } from './VoteReceipt';
+import { BallotChallengeError, ChallengeBallot, sameCiphertexts } from './BallotChallenge';
+import {
+  deriveVoteRandomness,
+  DerivedVoteRandomness,
+  DeterministicRandomnessOptions,
+} from './VoteRandomness';
+import { BallotBuilder } from '../../crypto/BallotBuilder';
+import {
+  verifyVoteRequest,
+  voteIdMessage,
+  VoteRequestProcessData,
+  VoteRequestVerification,
+} from './VoteVerification';
+import { evaluateVoterEligibility, VoterEligibility } from './VoterEligibility';
 import * as snarkjs from 'snarkjs';
 
 /**
@@ -21,11 +77,46 @@ export interface VoteConfig {
   /** The process ID to vote in */
   processId: string;
 
-  /** The voter's choices - array of selected values for each question */
-  choices: number[];
+  /**
+   * The voter's choices - one value per ballot field.
+   * Provide either `choices` or `answers`.
+   */
+  choices?: number[];
+
+  /**
+   * Structured answers keyed by question index. They are translated into ballot fields
+   * using the process metadata questions and ballot mode.
+   * Provide either `choices` or `answers`.
+   */
+  answers?: VoteAnswers;
 
   /** Optional: Custom randomness for vote encryption (will be generated if not provided) */
   randomness?: string;
+
+  /**
+   * Derive the randomness from a signature of the voter, so that it can be derived again
+   * later with deriveVoteRandomness() (default: false). Cannot be combined with `randomness`.
+   */
+  deterministicRandomness?: boolean | DeterministicRandomnessOptions;
+
+  /**
+   * Replace a previous vote of the same voter (default: false).
+   * Without it, voting again fails with AlreadyVotedError.
+   */
+  allowOverwrite?: boolean;
+
+  /**
+   * Password encrypting the randomness and choices into the vote receipt.
+   * Without it, the receipt only holds public data.
+   */
+  receiptPassword?: string;
+
+  /**
+   * Signal cancelling the vote: polling, in-flight requests and, with a worker proving
+   * executor, proof generation stop, and the vote fails with an AbortError.
+   * A vote already sent to the sequencer is not withdrawn.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -46,6 +137,12 @@ export interface VoteResult {
 
   /** Current vote status */
   status: VoteStatus;
+
+  /** Set when the vote replaces a previous vote of the same voter */
+  overwrite?: VoteOverwriteInfo;
+
+  /** Exportable receipt to verify later that the vote was recorded as cast */
+  receipt?: VoteReceipt;
 }
 
 /**
@@ -62,6 +159,40 @@ export interface VoteStatusInfo {
   processId: string;
 }
 
+/**
+ * Options for preloading circuit artifacts
+ */
+export interface PreloadCircuitsOptions {
+  /** Called as each artifact is downloaded or found in the cache */
+  onProgress?: (progress: CircuitArtifactProgress) => void;
+}
+
+/**
+ * Options for confirming a vote overwrite
+ */
+export interface ConfirmVoteOverwriteOptions {
+  /** Maximum time to wait for the vote to settle in milliseconds (default: 300000) */
+  timeoutMs?: number;
+  /** Initial polling interval in milliseconds (default: 5000) */
+  pollIntervalMs?: number;
+  /** Signal cancelling the wait */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for verifying a vote request
+ */
+export interface VerifyVoteRequestConfig {
+  /** Process data (default: read from the sequencer) */
+  process?: VoteRequestProcessData;
+  /** Parsed ballot proof verification key (default: the one advertised by the sequencer) */
+  verificationKey?: unknown;
+  /** Voter weight (default: the CSP census proof weight, or the weight reported by the sequencer) */
+  weight?: string;
+  /** Signal cancelling the sequencer requests */
+  signal?: AbortSignal;
+}
+
 /**
  * Configuration options for VoteOrchestrationService
  */
@@ -70,6 +201,24 @@ export interface VoteOrchestrationConfig {
   verifyCircuitFiles?: boolean;
   /** Whether to verify the generated proof is valid before submission (default: true) */
   verifyProof?: boolean;
+  /** Backend used to resolve process metadata (default: the sequencer) */
+  metadataStorage?: MetadataStorage;
+  /** Executor generating vote proofs (default: on the calling thread) */
+  provingExecutor?: ProvingExecutor;
+  /** Persistent store for circuit artifacts (default: none, artifacts are kept in memory) */
+  artifactStore?: ArtifactStore;
+  /** How vote status updates are received (default: "polling") */
+  statusTransport?: StatusTransport;
+}
+
+/**
+ * State an orchestrator shares with the orchestrators it returns from withSigner
+ */
+interface SharedVoteState {
+  artifacts: CircuitArtifactLoader;
+  statusSubscriber: StatusSubscriber;
+  vkeyCache: Map<string, unknown>;
+  submittedVoteIds: Map<string, string>;
 }
 
 /**
@@ -79,22 +228,84 @@ export interface VoteOrchestrationConfig {
 export class VoteOrchestrationService {
   private readonly verifyCircuitFiles: boolean;
   private readonly verifyProof: boolean;
+  private readonly metadataStorage: MetadataStorage;
+  private readonly provingExecutor: ProvingExecutor;
+  private readonly artifacts: CircuitArtifactLoader;
+  private readonly statusSubscriber: StatusSubscriber;
   
-  // Cache for circuit files
-  private wasmCache = new Map<string, Uint8Array>();
-  private zkeyCache = new Map<string, Uint8Array>();
-  private vkeyCache = new Map<string, any>();
+  // Parsed verification key of the advertised circuit, by artifact key
+  private readonly vkeyCache: Map<string, unknown>;
+
+  // IDs of the votes submitted by this instance, by process and voter address
+  private readonly submittedVoteIds: Map<string, string>;
+
+  // Ballot builder deriving vote randomness, built on first use
+  private ballotBuilder?: Promise<BallotBuilder>;
 
   constructor(
     private apiService: VocdoniApiService,
     private getBallotInputGenerator: () => Promise<BallotInputGenerator>,
     private signer: Signer,
     private censusProviders: CensusProviders = {},
-    config: VoteOrchestrationConfig = {}
+    config: VoteOrchestrationConfig = {},
+    shared?: SharedVoteState
   ) {
     // Default to true - verify circuit files and proof by default for security
     this.verifyCircuitFiles = config.verifyCircuitFiles ?? true;
     this.verifyProof = config.verifyProof ?? true;
+    this.metadataStorage =
+      config.metadataStorage ?? new SequencerMetadataStorage(apiService.sequencer);
+    this.provingExecutor = config.provingExecutor ?? new InThreadProvingExecutor();
+    this.artifacts =
+      shared?.artifacts ??
+      new CircuitArtifactLoader({
+        store: config.artifactStore,
+        verify: this.verifyCircuitFiles,
+      });
+    this.statusSubscriber =
+      shared?.statusSubscriber ??
+      new StatusSubscriber(apiService.sequencer, config.statusTransport);
+    this.vkeyCache = shared?.vkeyCache ?? new Map<string, unknown>();
+    this.submittedVoteIds = shared?.submittedVoteIds ?? new Map<string, string>();
+  }
+
+  /**
+   * Returns an orchestrator voting with another signer. It shares this orchestrator's
+   * ballot input generator, proving executor, circuit artifacts and submitted vote IDs,
+   * so circuits are only loaded once for many voters.
+   *
+   * @param signer - The voter's signer
+   * @returns The orchestrator for the signer
+   */
+  withSigner(signer: Signer): VoteOrchestrationService {
+    return new VoteOrchestrationService(
+      this.apiService,
+      this.getBallotInputGenerator,
+      signer,
+      this.censusProviders,
+      {
+        verifyCircuitFiles: this.verifyCircuitFiles,
+        verifyProof: this.verifyProof,
+        metadataStorage: this.metadataStorage,
+        provingExecutor: this.provingExecutor,
+      },
+      {
+        artifacts: this.artifacts,
+        statusSubscriber: this.statusSubscriber,
+        vkeyCache: this.vkeyCache,
+        submittedVoteIds: this.submittedVoteIds,
+      }
+    );
+  }
+
+  /**
+   * Downloads and verifies the circuit artifacts ahead of the first vote.
+   * Artifacts already in memory or in the artifact store are not downloaded again.
+   *
+   * @param options - Optional progress callback
+   */
+  async preloadCircuits(options: PreloadCircuitsOptions = {}): Promise<void> {
+    await this.downloadCircuits(options.onProgress);
   }
 
   /**
@@ -105,46 +316,338 @@ export class VoteOrchestrationService {
    * - Generates cryptographic proofs
    * - Signs and submits the vote
    *
+   * For progress updates while the vote is prepared, use submitVoteStream() instead.
+   *
    * @param config - Simplified vote configuration
    * @returns Promise resolving to vote submission result
    */
   async submitVote(config: VoteConfig): Promise<VoteResult> {
-    // 1. Get process information
-    const process = await this.apiService.sequencer.getProcess(config.processId);
+    return runVoteStages(this.submitVoteStream(config));
+  }
+
+  /**
+   * Submit a vote, yielding an event as each stage starts and completes.
+   * Stages run in the order of the VoteStage enum; circuit downloads also yield
+   * progress events. The last event carries the vote result and the stage timings.
+   *
+   * @param config - Simplified vote configuration
+   * @returns AsyncGenerator yielding vote stage events
+   * @throws VoteStageError carrying the failing stage and the original error as `cause`
+   * @throws AbortError if `config.signal` is aborted
+   *
+   * @example
+   * ```typescript
+   * for await (const event of voteOrchestrator.submitVoteStream({ processId, choices: [1] })) {
+   *   if (event.type === 'stage-started') console.log(`${event.stage}...`);
+   *   if (event.type === 'completed') console.log('Vote ID:', event.result.voteId);
+   * }
+   * ```
+   */
+  async *submitVoteStream(config: VoteConfig): AsyncGenerator<VoteStreamEvent, VoteResult> {
+    const runner = new VoteStageRunner(config.signal);
+    const votePackage = yield* this.prepareVoteStages(config, runner);
+    const result = yield* this.sendVotePackageStages(votePackage, runner);
 
+    yield { type: 'completed', result, timings: { ...runner.timings }, elapsedMs: runner.elapsed() };
+    return result;
+  }
+
+  /**
+   * Prepare a fully proven and signed vote without submitting it.
+   * The returned package is serializable and can be submitted later, or from
+   * another device, with submitPreparedVote().
+   *
+   * @param config - Simplified vote configuration
+   * @returns Promise resolving to the vote package
+   */
+  async prepareVote(config: VoteConfig): Promise<VotePackage> {
+    return runVoteStages(this.prepareVoteStages(config, new VoteStageRunner(config.signal)));
+  }
+
+  /**
+   * Submit a vote prepared with prepareVote().
+   * The package is first checked against the current process state: it must still
+   * accept votes and use the same encryption key and ballot mode. The previous vote
+   * check runs again, as the voter may have voted since the package was prepared.
+   *
+   * @param votePackage - The prepared vote
+   * @param options - Optional signal cancelling the submission
+   * @returns Promise resolving to vote submission result
+   * @throws VotePackageError if the package no longer matches the process
+   * @throws AlreadyVotedError if the voter has voted and the package does not allow overwrites
+   */
+  async submitPreparedVote(
+    votePackage: VotePackage,
+    options: AbortOptions = {}
+  ): Promise<VoteResult> {
+    const { request } = votePackage;
+    const process = await this.apiService.sequencer.getProcess(request.processId, options.signal);
+
+    const reasons = checkVotePackage(votePackage, process);
+    if (reasons.length > 0) {
+      throw new VotePackageError(reasons);
+    }
+
+    const overwrite = await this.checkPreviousVote(
+      process,
+      request.address,
+      votePackage.allowOverwrite,
+      options.signal
+    );
+
+    return runVoteStages(
+      this.sendVotePackageStages({ ...votePackage, overwrite }, new VoteStageRunner(options.signal))
+    );
+  }
+
+  /**
+   * Wait for a vote replacing a previous one to settle, then check that the process
+   * counted it as an overwrite: the overwritten votes count grew and the voters count
+   * did not drop.
+   *
+   * @param result - The result of a vote submitted with `allowOverwrite`
+   * @param options - Optional timeout, polling interval and signal
+   * @returns Promise resolving to the overwrite confirmation
+   * @throws Error if the vote did not replace a previous vote
+   */
+  async confirmVoteOverwrite(
+    result: VoteResult,
+    options: ConfirmVoteOverwriteOptions = {}
+  ): Promise<VoteOverwriteConfirmation> {
+    if (!result.overwrite) {
+      throw new Error(`Vote ${result.voteId} did not replace a previous vote`);
+    }
+
+    const { status } = await this.waitForVoteStatus(
+      result.processId,
+      result.voteId,
+      VoteStatus.Settled,
+      options.timeoutMs,
+      options.pollIntervalMs,
+      options.signal
+    );
+    const process = await this.apiService.sequencer.getProcess(result.processId, options.signal);
+
+    return evaluateVoteOverwrite(result.voteId, result.overwrite, status, process);
+  }
+
+  /**
+   * Encrypt a ballot without proving or submitting it, for cast-or-audit challenges.
+   * The ballot is encrypted with fresh randomness; `config.randomness` is not allowed.
+   *
+   * The voter may audit the ballot, revealing its randomness so that the ciphertexts can
+   * be checked with verifyBallotAudit(), or cast it. Casting proves, signs and submits the
+   * same ciphertexts. Audited ballots cannot be cast: encrypt a new ballot to vote.
+   *
+   * @param config - Simplified vote configuration
+   * @returns Promise resolving to the encrypted ballot
+   * @throws AlreadyVotedError if the voter has voted and overwrites are not allowed
+   *
+   * @example
+   * ```typescript
+   * const ballot = await voteOrchestrator.encryptBallot({ processId, choices: [1] });
+   * console.log('Ballot fingerprint:', ballot.fingerprint);
+   * if (voterWantsToAudit) {
+   *   const audit = ballot.audit();
+   *   console.log(await verifyBallotAudit(audit, { encryptionKey: process.encryptionKey }));
+   * } else {
+   *   const result = await ballot.cast();
+   * }
+   * ```
+   */
+  async encryptBallot(config: VoteConfig): Promise<ChallengeBallot> {
+    if (config.randomness !== undefined || config.deterministicRandomness) {
+      throw new Error(
+        'Challenge ballots are encrypted with fresh randomness; remove randomness and deterministicRandomness'
+      );
+    }
+
+    const { signal } = config;
+    const process = await this.apiService.sequencer.getProcess(config.processId, signal);
     if (!process.isAcceptingVotes) {
       throw new Error('Process is not currently accepting votes');
     }
 
-    // 2. Get voter address from signer
     const voterAddress = await this.signer.getAddress();
-
-    // 3. Get census proof (weight will be retrieved from the proof)
+    await this.checkPreviousVote(process, voterAddress, config.allowOverwrite, signal);
+    const choices = await this.resolveChoices(
+      config,
+      process.metadataURI,
+      process.ballotMode,
+      signal
+    );
     const censusProof = await this.getCensusProof(
       process.census.censusOrigin,
       process.census.censusRoot,
       voterAddress,
-      config.processId
+      config.processId,
+      signal
     );
 
-    // 4. Generate vote proof inputs
-    const { voteId, voteIdDecimal, cryptoOutput, circomInputs } = await this.generateVoteProofInputs(
+    const { voteId, cryptoOutput, circomInputs } = await this.generateVoteProofInputs(
       config.processId,
       voterAddress,
       process.encryptionKey,
       process.ballotMode,
-      config.choices,
-      censusProof.weight,
-      config.randomness
+      choices,
+      censusProof.weight
+    );
+    const encryptionKey = { x: process.encryptionKey.x, y: process.encryptionKey.y };
+
+    return new ChallengeBallot(
+      config.processId,
+      voterAddress,
+      voteId,
+      cryptoOutput.ballot,
+      encryptionKey,
+      { k: circomInputs.k, choices },
+      (k, castSignal, onSubmitting) =>
+        this.castChallengeBallot(
+          { ...config, signal: castSignal },
+          k,
+          cryptoOutput.ballot.ciphertexts,
+          onSubmitting
+        )
+    );
+  }
+
+  /**
+   * Prove, sign and submit an encrypted challenge ballot, re-encrypting it with its own randomness.
+   * `onSubmitting` is called right before the vote is sent to the sequencer.
+   *
+   * @throws BallotChallengeError if the re-encrypted ballot differs, as the process changed
+   */
+  private async castChallengeBallot(
+    config: VoteConfig,
+    k: string,
+    ciphertexts: VoteBallot['ciphertexts'],
+    onSubmitting: () => void
+  ): Promise<VoteResult> {
+    const votePackage = await this.prepareVote({
+      ...config,
+      randomness: '0x' + BigInt(k).toString(16),
+    });
+
+    if (!sameCiphertexts(votePackage.request.ballot.ciphertexts, ciphertexts)) {
+      throw new BallotChallengeError(
+        'The process changed since the ballot was encrypted. Encrypt a new ballot to vote.'
+      );
+    }
+
+    return runVoteStages(
+      this.sendVotePackageStages(votePackage, new VoteStageRunner(config.signal)),
+      stage => {
+        if (stage === VoteStage.Submitting) onSubmitting();
+      }
     );
+  }
+
+  /**
+   * Run the stages preparing a vote package
+   */
+  private async *prepareVoteStages(
+    config: VoteConfig,
+    runner: VoteStageRunner
+  ): AsyncGenerator<VoteStreamEvent, VotePackage> {
+    if (config.randomness !== undefined && config.deterministicRandomness) {
+      throw new Error('Provide either randomness or deterministicRandomness, not both');
+    }
+
+    // 1. Get process information, check for a previous vote and resolve the ballot choices
+    const { process, voterAddress, overwrite, choices } = yield* runner.run(
+      VoteStage.FetchingProcess,
+      async () => {
+        const state = await this.apiService.sequencer.getProcess(config.processId, runner.signal);
 
-    // 5. Generate zk-SNARK proof using snarkjs
-    const { proof } = await this.generateZkProof(circomInputs);
+        if (!state.isAcceptingVotes) {
+          throw new Error('Process is not currently accepting votes');
+        }
+
+        const address = await this.signer.getAddress();
+        return {
+          process: state,
+          voterAddress: address,
+          overwrite: await this.checkPreviousVote(
+            state,
+            address,
+            config.allowOverwrite,
+            runner.signal
+          ),
+          choices: await this.resolveChoices(
+            config,
+            state.metadataURI,
+            state.ballotMode,
+            runner.signal
+          ),
+        };
+      }
+    );
+
+    // 2. Get census proof (weight will be retrieved from the proof)
+    const censusProof = yield* runner.run(VoteStage.FetchingCensusProof, () =>
+      this.getCensusProof(
+        process.census.censusOrigin,
+        process.census.censusRoot,
+        voterAddress,
+        config.processId,
+        runner.signal
+      )
+    );
+
+    // 3. Generate vote proof inputs and encrypt the receipt secret
+    const { voteId, cryptoOutput, circomInputs, receiptSecret } = yield* runner.run(
+      VoteStage.BuildingInputs,
+      async () => {
+        const inputs = await this.generateVoteProofInputs(
+          config.processId,
+          voterAddress,
+          process.encryptionKey,
+          process.ballotMode,
+          choices,
+          censusProof.weight,
+          await this.resolveRandomness(config)
+        );
+        if (
+          config.deterministicRandomness &&
+          overwrite?.previousVoteId &&
+          BigInt(overwrite.previousVoteId) === BigInt(inputs.voteId)
+        ) {
+          throw new Error(
+            'The previous vote was cast with the same deterministic randomness; use another nonce to replace it'
+          );
+        }
+        return {
+          ...inputs,
+          receiptSecret:
+            config.receiptPassword !== undefined
+              ? await encryptReceiptSecret(
+                  { k: inputs.circomInputs.k, choices },
+                  config.receiptPassword
+                )
+              : undefined,
+        };
+      }
+    );
+
+    // 4. Load the circuit artifacts
+    const info = yield* runner.run(VoteStage.DownloadingCircuits, onProgress =>
+      this.downloadCircuits(onProgress, runner.signal)
+    );
+
+    // 5. Generate zk-SNARK proof and optionally verify it
+    const { proof, publicSignals } = yield* runner.run(VoteStage.Proving, () =>
+      this.generateZkProof(info, circomInputs, runner.signal)
+    );
+    if (this.verifyProof) {
+      yield* runner.run(VoteStage.VerifyingProof, () =>
+        this.verifyZkProof(info, proof, publicSignals)
+      );
+    }
 
     // 6. Sign the vote using raw VoteID bytes (canonical format)
-    const signature = await this.signVote(voteId);
+    const signature = yield* runner.run(VoteStage.Signing, () => this.signVote(voteId));
 
-    // 7. Submit the vote
+    // 7. Build the vote request
     const voteRequest: VoteRequest = {
       processId: config.processId,
       ballot: cryptoOutput.ballot,
@@ -160,29 +663,103 @@ export class VoteOrchestrationService {
       voteRequest.censusProof = censusProof;
     }
 
-    await this.apiService.sequencer.submitVote(voteRequest);
+    return {
+      version: VOTE_PACKAGE_VERSION,
+      request: voteRequest,
+      process: {
+        encryptionKey: { x: process.encryptionKey.x, y: process.encryptionKey.y },
+        ballotMode: process.ballotMode,
+        censusRoot: process.census.censusRoot,
+        startTime: process.startTime,
+        duration: process.duration,
+      },
+      weight: censusProof.weight,
+      createdAt: new Date().toISOString(),
+      ...(config.allowOverwrite && { allowOverwrite: true }),
+      ...(overwrite && { overwrite }),
+      ...(receiptSecret && { receiptSecret }),
+    };
+  }
 
-    // 8. Get initial vote status
-    const status = await this.apiService.sequencer.getVoteStatus(config.processId, voteId);
+  /**
+   * Run the stages sending a vote package to the sequencer and reading its initial status
+   */
+  private async *sendVotePackageStages(
+    votePackage: VotePackage,
+    runner: VoteStageRunner
+  ): AsyncGenerator<VoteStreamEvent, VoteResult> {
+    const { request } = votePackage;
+
+    yield* runner.run(VoteStage.Submitting, () =>
+      this.apiService.sequencer.submitVote(request, runner.signal)
+    );
+    this.submittedVoteIds.set(this.voterKey(request.processId, request.address), request.voteId);
+
+    // Get initial vote status
+    const status = yield* runner.run(VoteStage.FetchingStatus, () =>
+      this.apiService.sequencer.getVoteStatus(request.processId, request.voteId, runner.signal)
+    );
 
     return {
-      voteId,
-      signature,
-      voterAddress,
-      processId: config.processId,
+      voteId: request.voteId,
+      signature: request.signature,
+      voterAddress: request.address,
+      processId: request.processId,
       status: status.status,
+      ...(votePackage.overwrite && { overwrite: votePackage.overwrite }),
+      receipt: createVoteReceipt(votePackage),
     };
   }
 
+  /**
+   * Look for a previous vote of the voter and check that replacing it is allowed
+   *
+   * @returns The overwrite info, or undefined if the voter has not voted yet
+   * @throws AlreadyVotedError if the voter has voted and overwrites are not allowed
+   */
+  private async checkPreviousVote(
+    process: GetProcessResponse,
+    address: string,
+    allowOverwrite = false,
+    signal?: AbortSignal
+  ): Promise<VoteOverwriteInfo | undefined> {
+    const previousVote = await this.apiService.sequencer.getAddressVote(
+      process.id,
+      address,
+      signal
+    );
+    if (!previousVote) {
+      return undefined;
+    }
+
+    // Fall back to the votes submitted by this instance when the sequencer omits the ID
+    const previousVoteId =
+      previousVote.voteId ?? this.submittedVoteIds.get(this.voterKey(process.id, address));
+    if (!allowOverwrite) {
+      throw new AlreadyVotedError(process.id, address, previousVoteId);
+    }
+
+    return { previousVoteId, ...readOverwriteCounters(process) };
+  }
+
+  private voterKey(processId: string, address: string): string {
+    return `${processId.replace(/^0x/i, '').toLowerCase()}:${address.toLowerCase()}`;
+  }
+
   /**
    * Get the status of a submitted vote
    *
    * @param processId - The process ID
    * @param voteId - The vote ID
+   * @param options - Optional signal cancelling the request
    * @returns Promise resolving to vote status information
    */
-  async getVoteStatus(processId: string, voteId: string): Promise<VoteStatusInfo> {
-    const status = await this.apiService.sequencer.getVoteStatus(processId, voteId);
+  async getVoteStatus(
+    processId: string,
+    voteId: string,
+    options: AbortOptions = {}
+  ): Promise<VoteStatusInfo> {
+    const status = await this.apiService.sequencer.getVoteStatus(processId, voteId, options.signal);
 
     return {
       voteId,
@@ -202,14 +779,76 @@ export class VoteOrchestrationService {
     return this.apiService.sequencer.hasAddressVoted(processId, address);
   }
 
+  /**
+   * Check whether an address can vote in a process, collecting every reason it cannot:
+   * census membership, previous votes, the process status and voting period, and the
+   * census proof provider the census origin needs.
+   *
+   * @param processId - The process ID
+   * @param address - The voter's address (default: the signer's address)
+   * @param signal - Optional signal to abort the lookups
+   * @returns The eligibility report
+   */
+  async getVoterEligibility(
+    processId: string,
+    address?: string,
+    signal?: AbortSignal
+  ): Promise<VoterEligibility> {
+    const voterAddress = address ?? (await this.signer.getAddress());
+    const { sequencer } = this.apiService;
+    const process = await sequencer.getProcess(processId, signal);
+
+    // The sequencer only knows the members of Merkle tree censuses
+    const { censusOrigin } = process.census;
+    const isMerkle =
+      censusOrigin === CensusOrigin.OffchainStatic ||
+      censusOrigin === CensusOrigin.OffchainDynamic ||
+      censusOrigin === CensusOrigin.Onchain;
+    const [weight, vote] = await Promise.all([
+      isMerkle
+        ? sequencer
+            .getAddressWeight(processId, voterAddress, signal)
+            .catch((error: { code?: unknown }) => {
+              // Not in census
+              if (error?.code === 40001) return null;
+              throw error;
+            })
+        : undefined,
+      sequencer.getAddressVote(processId, voterAddress, signal),
+    ]);
+
+    return evaluateVoterEligibility({
+      process,
+      address: voterAddress,
+      weight,
+      vote,
+      cspProviderConfigured: this.censusProviders.csp !== undefined,
+    });
+  }
+
+  /**
+   * Subscribe to the vote status and sequencer statistics updates of a process.
+   * Updates are polled, or pushed by the sequencer with the `auto` and `push` status
+   * transports. The current state is delivered first.
+   *
+   * @param options - The process, votes and statistics to follow
+   * @returns AsyncGenerator yielding status updates until the consumer stops iterating
+   * @throws AbortError if `options.signal` is aborted
+   */
+  subscribeStatus(options: StatusSubscriptionOptions): AsyncGenerator<StatusUpdate> {
+    return this.statusSubscriber.subscribe(options);
+  }
+
   /**
    * Watch vote status changes in real-time using an async generator.
    * Yields each status change as it happens, allowing for reactive UI updates.
+   * Changes are received through the status subscription (see subscribeStatus).
    *
    * @param processId - The process ID
    * @param voteId - The vote ID
    * @param options - Optional configuration
    * @returns AsyncGenerator yielding vote status updates
+   * @throws AbortError if `options.signal` is aborted
    *
    * @example
    * ```typescript
@@ -238,31 +877,44 @@ export class VoteOrchestrationService {
     options?: {
       targetStatus?: VoteStatus;
       timeoutMs?: number;
+      /** Initial polling interval in milliseconds (default: 5000) */
       pollIntervalMs?: number;
+      /**
+       * Maximum polling interval in milliseconds, reached by backing off while the status
+       * does not change (default: 60000)
+       */
+      maxPollIntervalMs?: number;
+      signal?: AbortSignal;
     }
   ): AsyncGenerator<VoteStatusInfo> {
     const targetStatus = options?.targetStatus ?? VoteStatus.Settled;
     const timeoutMs = options?.timeoutMs ?? 300000;
-    const pollIntervalMs = options?.pollIntervalMs ?? 5000;
-
-    const startTime = Date.now();
-    let previousStatus: VoteStatus | null = null;
+    const timeout = timeoutSignal(timeoutMs, options?.signal);
 
-    while (Date.now() - startTime < timeoutMs) {
-      const statusInfo = await this.getVoteStatus(processId, voteId);
-
-      // Only yield if status has changed
-      if (statusInfo.status !== previousStatus) {
-        previousStatus = statusInfo.status;
-        yield statusInfo;
+    try {
+      // The subscription only delivers status changes
+      for await (const update of this.statusSubscriber.subscribe({
+        processId,
+        voteIds: [voteId],
+        pollIntervalMs: options?.pollIntervalMs,
+        maxPollIntervalMs: options?.maxPollIntervalMs,
+        signal: timeout.signal,
+      })) {
+        if (update.type !== 'vote-status') continue;
+        yield { voteId, status: update.status, processId };
 
         // Stop if we reached target status or error
-        if (statusInfo.status === targetStatus || statusInfo.status === VoteStatus.Error) {
+        if (update.status === targetStatus || update.status === VoteStatus.Error) {
           return;
         }
       }
-
-      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    } catch (error) {
+      if (timeout.timedOut()) {
+        throw new Error(`Vote did not reach status ${targetStatus} within ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      timeout.clear();
     }
 
     throw new Error(`Vote did not reach status ${targetStatus} within ${timeoutMs}ms`);
@@ -276,15 +928,18 @@ export class VoteOrchestrationService {
    * @param voteId - The vote ID
    * @param targetStatus - The target status to wait for (default: "settled")
    * @param timeoutMs - Maximum time to wait in milliseconds (default: 300000 = 5 minutes)
-   * @param pollIntervalMs - Polling interval in milliseconds (default: 5000 = 5 seconds)
+   * @param pollIntervalMs - Initial polling interval in milliseconds (default: 5000 = 5 seconds)
+   * @param signal - Optional signal cancelling the wait
    * @returns Promise resolving to final vote status
+   * @throws AbortError if the signal is aborted
    */
   async waitForVoteStatus(
     processId: string,
     voteId: string,
     targetStatus: VoteStatus = VoteStatus.Settled,
     timeoutMs: number = 300000,
-    pollIntervalMs: number = 5000
+    pollIntervalMs: number = 5000,
+    signal?: AbortSignal
   ): Promise<VoteStatusInfo> {
     // Use watchVoteStatus internally and return final status
     let finalStatus: VoteStatusInfo | null = null;
@@ -293,6 +948,7 @@ export class VoteOrchestrationService {
       targetStatus,
       timeoutMs,
       pollIntervalMs,
+      signal,
     })) {
       finalStatus = statusInfo;
     }
@@ -304,6 +960,110 @@ export class VoteOrchestrationService {
     return finalStatus;
   }
 
+  /**
+   * Derive the vote randomness of this voter from a signature over a message bound to the
+   * process. Signing again gives the same randomness, so the ballot of a vote cast with
+   * `deterministicRandomness` can be rebuilt later to audit it or to recognise the vote.
+   *
+   * @param processId - The process ID
+   * @param options - Optional derivation nonce
+   * @returns Promise resolving to the randomness and the vote ID it gives
+   */
+  async deriveVoteRandomness(
+    processId: string,
+    options: DeterministicRandomnessOptions = {}
+  ): Promise<DerivedVoteRandomness> {
+    this.ballotBuilder ??= BallotBuilder.build();
+    return deriveVoteRandomness(this.signer, processId, {
+      ...options,
+      builder: await this.ballotBuilder,
+    });
+  }
+
+  /**
+   * Verify a vote request: recompute its ballot inputs hash, verify its ballot proof and
+   * check the voter's signature over the vote ID. Process data, verification key and
+   * weight not given are read from the sequencer; give them to avoid trusting it.
+   *
+   * @param request - The vote request, as submitted to the sequencer
+   * @param config - Optional process data, verification key, weight and signal
+   * @returns Promise resolving to the verification outcome
+   */
+  async verifyVoteRequest(
+    request: VoteRequest,
+    config: VerifyVoteRequestConfig = {}
+  ): Promise<VoteRequestVerification> {
+    const { sequencer } = this.apiService;
+    const { signal } = config;
+
+    const [process, verificationKey, weight] = await Promise.all([
+      config.process ?? sequencer.getProcess(request.processId, signal),
+      config.verificationKey ??
+        sequencer.getInfo(signal).then(info => this.loadVerificationKey(info)),
+      config.weight ??
+        request.censusProof?.weight ??
+        sequencer.getAddressWeight(request.processId, request.address, signal),
+    ]);
+    this.ballotBuilder ??= BallotBuilder.build();
+
+    return verifyVoteRequest(request, {
+      process,
+      verificationKey,
+      weight,
+      builder: await this.ballotBuilder,
+    });
+  }
+
+  /**
+   * Resolve the randomness a vote is encrypted with: derived from the voter's signature,
+   * given by the caller, or generated (undefined)
+   */
+  private async resolveRandomness(config: VoteConfig): Promise<string | undefined> {
+    if (!config.deterministicRandomness) {
+      return config.randomness;
+    }
+
+    const options = config.deterministicRandomness === true ? {} : config.deterministicRandomness;
+    const { k } = await this.deriveVoteRandomness(config.processId, options);
+    return '0x' + BigInt(k).toString(16);
+  }
+
+  /**
+   * Resolve the ballot fields from either the raw choices or the structured answers
+   */
+  private async resolveChoices(
+    config: VoteConfig,
+    metadataURI: string,
+    ballotMode: BallotMode,
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    if (config.choices !== undefined && config.answers !== undefined) {
+      throw new Error('Provide either choices or answers, not both');
+    }
+    if (config.answers === undefined) {
+      if (!config.choices) {
+        throw new Error('Either choices or answers must be provided');
+      }
+      return config.choices;
+    }
+
+    const { metadata, status } = await loadElectionMetadata(
+      metadataURI,
+      (uri, fetchSignal) => this.metadataStorage.get(uri, fetchSignal),
+      { signal }
+    );
+    if (status.status === 'invalid') {
+      throw new MetadataValidationError(status.reasons);
+    }
+    if (status.status === 'missing' || !metadata) {
+      throw new Error(
+        `Cannot translate answers: ${status.status === 'missing' ? status.reason : 'no metadata'}`
+      );
+    }
+
+    return answersToChoices(config.answers, ballotMode, metadataToQuestions(metadata));
+  }
+
   /**
    * Get census proof based on census origin type
    */
@@ -311,7 +1071,8 @@ export class VoteOrchestrationService {
     censusOrigin: number,
     censusRoot: string,
     voterAddress: string,
-    processId: string
+    processId: string,
+    signal?: AbortSignal
   ): Promise<CensusProof> {
     // Check if it's a Merkle-based census (OffchainStatic, OffchainDynamic, or Onchain)
     if (
@@ -329,7 +1090,11 @@ export class VoteOrchestrationService {
         return proof;
       } else {
         // For MerkleTree, only the weight is needed - get it from sequencer
-        const weight = await this.apiService.sequencer.getAddressWeight(processId, voterAddress);
+        const weight = await this.apiService.sequencer.getAddressWeight(
+          processId,
+          voterAddress,
+          signal
+        );
         
         // Return minimal census proof with just the weight
         // (full proof is not needed for MerkleTree voting)
@@ -380,8 +1145,8 @@ export class VoteOrchestrationService {
   }> {
     const generator = await this.getBallotInputGenerator();
 
-    // Validate choices based on ballot mode
-    this.validateChoices(choices, ballotMode);
+    // Validate choices against the ballot circuit constraints before proving
+    assertValidBallot(choices, ballotMode, weight);
 
     // Convert custom randomness if provided
     let k: string | undefined;
@@ -412,116 +1177,59 @@ export class VoteOrchestrationService {
   }
 
   /**
-   * Validate user choices based on ballot mode
+   * Load the circuit artifacts the proving executor does not already hold.
+   * Cancelling does not stop the downloads, which are shared and complete into the cache.
+   *
+   * @returns The sequencer info the artifacts were loaded from
    */
-  private validateChoices(choices: number[], ballotMode: BallotMode): void {
-    const maxValue = parseInt(ballotMode.maxValue);
-    const minValue = parseInt(ballotMode.minValue);
-
-    // Validate each choice is within the allowed range
-    for (let i = 0; i < choices.length; i++) {
-      const choice = choices[i];
-
-      if (choice < minValue || choice > maxValue) {
-        throw new Error(`Choice ${choice} is out of range [${minValue}, ${maxValue}]`);
-      }
+  private async downloadCircuits(
+    onProgress?: (progress: CircuitArtifactProgress) => void,
+    signal?: AbortSignal
+  ): Promise<InfoResponse> {
+    const info = await this.apiService.sequencer.getInfo(signal);
+    const artifacts: CircuitArtifactName[] = ['circuit', 'provingKey'];
+    if (this.verifyProof) {
+      artifacts.push('verificationKey');
     }
-  }
 
-  /**
-   * Verify hash of downloaded file
-   */
-  private verifyHash(data: Uint8Array, expectedHash: string, filename: string): void {
-    const computedHash = sha256(data).slice(2); // Remove '0x' prefix
-    if (computedHash.toLowerCase() !== expectedHash.toLowerCase()) {
-      throw new Error(
-        `Hash verification failed for ${filename}. ` +
-          `Expected: ${expectedHash.toLowerCase()}, ` +
-          `Computed: ${computedHash.toLowerCase()}`
-      );
-    }
+    await Promise.all(
+      artifacts
+        .filter(
+          artifact =>
+            !this.provingExecutor.hasArtifact?.(CircuitArtifactLoader.keyOf(info, artifact))
+        )
+        .map(artifact => this.artifacts.load(info, artifact, onProgress))
+    );
+    return info;
   }
 
   /**
-   * Generate zk-SNARK proof using snarkjs directly (no CircomProof wrapper)
+   * Generate zk-SNARK proof with the configured proving executor
    */
-  private async generateZkProof(circomInputs: Groth16ProofInputs): Promise<{
+  private async generateZkProof(
+    info: InfoResponse,
+    circomInputs: Groth16ProofInputs,
+    signal?: AbortSignal
+  ): Promise<{
     proof: VoteProof;
     publicSignals: string[];
   }> {
-    // Get circuit URLs from sequencer info
-    const info = await this.apiService.sequencer.getInfo();
-
-    // Download WASM file (with caching)
-    let wasmBytes = this.wasmCache.get(info.circuitUrl);
-    if (!wasmBytes) {
-      const response = await fetch(info.circuitUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch WASM at ${info.circuitUrl}: ${response.status}`);
-      }
-      const buffer = await response.arrayBuffer();
-      wasmBytes = new Uint8Array(buffer);
-      
-      // Verify hash if enabled
-      if (this.verifyCircuitFiles) {
-        this.verifyHash(wasmBytes, info.circuitHash, 'circuit.wasm');
-      }
-      
-      this.wasmCache.set(info.circuitUrl, wasmBytes);
-    }
-
-    // Download zkey file (with caching)
-    let zkeyBytes = this.zkeyCache.get(info.provingKeyUrl);
-    if (!zkeyBytes) {
-      const response = await fetch(info.provingKeyUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch zkey at ${info.provingKeyUrl}: ${response.status}`);
-      }
-      const buffer = await response.arrayBuffer();
-      zkeyBytes = new Uint8Array(buffer);
-      
-      // Verify hash if enabled
-      if (this.verifyCircuitFiles) {
-        this.verifyHash(zkeyBytes, info.provingKeyHash, 'proving_key.zkey');
-      }
-      
-      this.zkeyCache.set(info.provingKeyUrl, zkeyBytes);
-    }
-
-    // Use snarkjs.groth16.fullProve with file bytes
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-      circomInputs,
-      wasmBytes,
-      zkeyBytes
+    // Circuit files are loaded (from the artifact cache if possible) when the executor needs them
+    const { proof, publicSignals } = await this.provingExecutor.prove(
+      {
+        inputs: circomInputs,
+        wasm: {
+          key: CircuitArtifactLoader.keyOf(info, 'circuit'),
+          load: () => this.artifacts.load(info, 'circuit'),
+        },
+        zkey: {
+          key: CircuitArtifactLoader.keyOf(info, 'provingKey'),
+          load: () => this.artifacts.load(info, 'provingKey'),
+        },
+      },
+      signal
     );
 
-    // Optionally verify the generated proof
-    if (this.verifyProof) {
-      // Download and cache verification key
-      let vkey = this.vkeyCache.get(info.verificationKeyUrl);
-      if (!vkey) {
-        const response = await fetch(info.verificationKeyUrl);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch vkey at ${info.verificationKeyUrl}: ${response.status}`);
-        }
-        const vkeyText = await response.text();
-        
-        // Verify hash if enabled
-        if (this.verifyCircuitFiles) {
-          const vkeyBytes = new TextEncoder().encode(vkeyText);
-          this.verifyHash(vkeyBytes, info.verificationKeyHash, 'verification_key.json');
-        }
-        
-        vkey = JSON.parse(vkeyText);
-        this.vkeyCache.set(info.verificationKeyUrl, vkey);
-      }
-      
-      const isValid = await snarkjs.groth16.verify(vkey, publicSignals, proof);
-      if (!isValid) {
-        throw new Error('Generated proof is invalid');
-      }
-    }
-
     // Convert proof to VoteProof format
     const voteProof: VoteProof = {
       pi_a: proof.pi_a,
@@ -533,19 +1241,44 @@ export class VoteOrchestrationService {
     return { proof: voteProof, publicSignals };
   }
 
+  /**
+   * Verify a generated proof against the circuit verification key
+   */
+  private async verifyZkProof(
+    info: InfoResponse,
+    proof: VoteProof,
+    publicSignals: string[]
+  ): Promise<void> {
+    const vkey = await this.loadVerificationKey(info);
+
+    const isValid = await snarkjs.groth16.verify(vkey, publicSignals, proof);
+    if (!isValid) {
+      throw new Error('Generated proof is invalid');
+    }
+  }
+
+  /**
+   * Load and parse the circuit verification key, once per key
+   */
+  private async loadVerificationKey(info: InfoResponse): Promise<unknown> {
+    const vkeyKey = CircuitArtifactLoader.keyOf(info, 'verificationKey');
+    let vkey: unknown = this.vkeyCache.get(vkeyKey);
+    if (!vkey) {
+      const vkeyBytes = await this.artifacts.load(info, 'verificationKey');
+      vkey = JSON.parse(new TextDecoder().decode(vkeyBytes));
+      // Only the advertised key is kept: a new key means the circuits were updated
+      this.vkeyCache.clear();
+      this.vkeyCache.set(vkeyKey, vkey);
+    }
+    return vkey;
+  }
+
   /**
    * Sign the vote using the signer
    */
   private async signVote(voteIdHex: string): Promise<string> {
     // Sequencer VerifyVoteID currently verifies signature over a 32-byte
     // big-endian VoteID message (left-padded), while voteId transport is 8-byte.
-    const voteId = BigInt(voteIdHex);
-    const bytes = new Uint8Array(32);
-    let value = voteId;
-    for (let i = 31; i >= 0; i--) {
-      bytes[i] = Number(value & 0xffn);
-      value >>= 8n;
-    }
-    return this.signer.signMessage(bytes);
+    return this.signer.signMessage(voteIdMessage(voteIdHex));
   }
 }
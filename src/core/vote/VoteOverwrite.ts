@@ -0,0 +1,104 @@
+import { GetProcessResponse, VoteStatus } from '../../sequencer/api/types';
+
+/**
+ * Error thrown when the voter already voted and the vote was not marked as an overwrite
+ */
+export class AlreadyVotedError extends Error {
+  constructor(
+    public readonly processId: string,
+    public readonly address: string,
+    /** ID of the previous vote, when the sequencer or this SDK instance knows it */
+    public readonly previousVoteId?: string
+  ) {
+    super(
+      `Address ${address} has already voted in process ${processId}` +
+        (previousVoteId ? ` (vote ${previousVoteId})` : '') +
+        '. Set allowOverwrite to replace the previous vote.'
+    );
+    this.name = 'AlreadyVotedError';
+  }
+}
+
+/**
+ * Previous vote replaced by a vote, with the process counters before the replacement
+ */
+export interface VoteOverwriteInfo {
+  /** ID of the replaced vote, when known */
+  previousVoteId?: string;
+  /** Process voters count before the vote was submitted */
+  votersCount: number;
+  /** Process overwritten votes count before the vote was submitted */
+  overwrittenVotesCount: number;
+}
+
+/**
+ * Outcome of an overwrite confirmation
+ */
+export interface VoteOverwriteConfirmation {
+  /** ID of the replacing vote */
+  voteId: string;
+  /** ID of the replaced vote, when known */
+  previousVoteId?: string;
+  /** Last status of the replacing vote */
+  status: VoteStatus;
+  /** Whether the replacing vote settled */
+  settled: boolean;
+  /** Process voters count before and after the replacement (expected to stay the same) */
+  votersCount: { before: number; after: number };
+  /** Process overwritten votes count before and after the replacement (expected to grow) */
+  overwrittenVotesCount: { before: number; after: number };
+  /**
+   * Whether the replacement settled and the counters moved as expected.
+   * Votes of other voters settling at the same time can also move the counters,
+   * so this confirms the replacement was counted, not that it was the only change.
+   */
+  confirmed: boolean;
+}
+
+/**
+ * Reads the overwrite counters of a process
+ * @internal
+ */
+export function readOverwriteCounters(
+  process: Pick<GetProcessResponse, 'votersCount' | 'overwrittenVotesCount'>
+): Pick<VoteOverwriteInfo, 'votersCount' | 'overwrittenVotesCount'> {
+  return {
+    votersCount: Number(process.votersCount),
+    overwrittenVotesCount: Number(process.overwrittenVotesCount),
+  };
+}
+
+/**
+ * Compares the process counters before and after an overwrite
+ *
+ * @param voteId - ID of the replacing vote
+ * @param overwrite - The overwrite info returned with the vote result
+ * @param status - Last status of the replacing vote
+ * @param process - Current process state from the sequencer
+ * @returns The overwrite confirmation
+ */
+export function evaluateVoteOverwrite(
+  voteId: string,
+  overwrite: VoteOverwriteInfo,
+  status: VoteStatus,
+  process: Pick<GetProcessResponse, 'votersCount' | 'overwrittenVotesCount'>
+): VoteOverwriteConfirmation {
+  const after = readOverwriteCounters(process);
+  const settled = status === VoteStatus.Settled;
+
+  return {
+    voteId,
+    previousVoteId: overwrite.previousVoteId,
+    status,
+    settled,
+    votersCount: { before: overwrite.votersCount, after: after.votersCount },
+    overwrittenVotesCount: {
+      before: overwrite.overwrittenVotesCount,
+      after: after.overwrittenVotesCount,
+    },
+    confirmed:
+      settled &&
+      after.overwrittenVotesCount > overwrite.overwrittenVotesCount &&
+      after.votersCount >= overwrite.votersCount,
+  };
+}
@@ -0,0 +1,191 @@
+import { getProcessVotingWindow } from '../../sequencer/api/helpers';
+import type { GetProcessResponse, VoteRequest } from '../../sequencer/api/types';
+import { BallotMode } from '../types';
+import type { VoteOverwriteInfo } from './VoteOverwrite';
+import type { EncryptedReceiptSecret } from './VoteReceipt';
+
+/**
+ * Current vote package format version
+ */
+export const VOTE_PACKAGE_VERSION = 1;
+
+/**
+ * A fully proven and signed vote, ready to be submitted later or from another device.
+ * It only contains JSON-compatible values and can be stored or sent as is.
+ */
+export interface VotePackage {
+  /** Package format version */
+  version: typeof VOTE_PACKAGE_VERSION;
+
+  /** The vote request sent to the sequencer */
+  request: VoteRequest;
+
+  /** Process state the vote was prepared against */
+  process: {
+    /** Encryption key the ballot was encrypted with */
+    encryptionKey: { x: string; y: string };
+    /** Ballot mode the ballot was proven against */
+    ballotMode: BallotMode;
+    /** Census root at preparation time */
+    censusRoot: string;
+    /** Voting start time at preparation time (ISO 8601, absent in older packages) */
+    startTime?: string;
+    /** Voting duration at preparation time (nanoseconds, absent in older packages) */
+    duration?: number;
+  };
+
+  /** Voter weight used in the proof */
+  weight: string;
+
+  /** Preparation date (ISO 8601) */
+  createdAt: string;
+
+  /** Whether the vote may replace a previous vote of the same voter */
+  allowOverwrite?: boolean;
+
+  /** Previous vote found at preparation time */
+  overwrite?: VoteOverwriteInfo;
+
+  /** Randomness and choices encrypted with the receipt password, copied to the vote receipt */
+  receiptSecret?: EncryptedReceiptSecret;
+}
+
+/**
+ * Error thrown when a vote package cannot be submitted
+ */
+export class VotePackageError extends Error {
+  constructor(public readonly reasons: string[]) {
+    super(`Invalid vote package: ${reasons.join('; ')}`);
+    this.name = 'VotePackageError';
+  }
+}
+
+/**
+ * Serializes a vote package to JSON
+ */
+export function serializeVotePackage(votePackage: VotePackage): string {
+  return JSON.stringify(votePackage);
+}
+
+/**
+ * Parses a serialized vote package
+ *
+ * @param json - The serialized package
+ * @returns The vote package
+ * @throws VotePackageError if the package is malformed or has an unsupported version
+ */
+export function deserializeVotePackage(json: string): VotePackage {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new VotePackageError(['package is not valid JSON']);
+  }
+
+  const pkg = (typeof data === 'object' && data !== null ? data : {}) as Partial<VotePackage>;
+  const request = (pkg.request ?? {}) as Partial<Record<string, unknown>>;
+  const reasons: string[] = [];
+
+  if (pkg.version !== VOTE_PACKAGE_VERSION) {
+    reasons.push(`unsupported package version ${JSON.stringify(pkg.version)}`);
+  } else {
+    for (const key of ['processId', 'voteId', 'address', 'signature', 'ballotInputsHash']) {
+      if (typeof request[key] !== 'string') reasons.push(`request.${key} is missing`);
+    }
+    if (!request.ballot || !request.ballotProof) {
+      reasons.push('request ballot or proof is missing');
+    }
+    if (!pkg.process?.encryptionKey || !pkg.process?.ballotMode) {
+      reasons.push('process context is missing');
+    }
+  }
+
+  if (reasons.length > 0) {
+    throw new VotePackageError(reasons);
+  }
+  return pkg as VotePackage;
+}
+
+/**
+ * Checks that a vote package can still be accepted by the process
+ *
+ * @param votePackage - The prepared vote
+ * @param process - The current process state from the sequencer
+ * @param now - Current time in milliseconds (default: Date.now())
+ * @returns Every reason the package would be rejected (empty when it still matches)
+ */
+export function checkVotePackage(
+  votePackage: VotePackage,
+  process: GetProcessResponse,
+  now: number = Date.now()
+): string[] {
+  const reasons: string[] = [];
+
+  if (votePackage.version !== VOTE_PACKAGE_VERSION) {
+    reasons.push(`unsupported package version ${JSON.stringify(votePackage.version)}`);
+    return reasons;
+  }
+
+  if (normalizeHex(process.id) !== normalizeHex(votePackage.request.processId)) {
+    reasons.push('package was prepared for a different process');
+  }
+
+  if (!process.isAcceptingVotes) {
+    reasons.push('process is not currently accepting votes');
+  }
+
+  const { startTime, endTime } = getProcessVotingWindow(process);
+  if (now < startTime) {
+    reasons.push('process voting period has not started');
+  } else if (now >= endTime) {
+    reasons.push('process voting period has ended');
+  }
+
+  const { encryptionKey, ballotMode, censusRoot } = votePackage.process;
+  if (
+    BigInt(encryptionKey.x) !== BigInt(process.encryptionKey.x) ||
+    BigInt(encryptionKey.y) !== BigInt(process.encryptionKey.y)
+  ) {
+    reasons.push('process encryption key has changed');
+  }
+
+  const changed = ballotModeDiff(ballotMode, process.ballotMode);
+  if (changed.length > 0) {
+    reasons.push(`process ballot mode has changed (${changed.join(', ')})`);
+  }
+
+  if (normalizeHex(censusRoot) !== normalizeHex(process.census.censusRoot)) {
+    reasons.push('process census root has changed');
+  }
+
+  const prepared = votePackage.process;
+  if (
+    (prepared.startTime !== undefined && new Date(prepared.startTime).getTime() !== startTime) ||
+    (prepared.duration !== undefined && prepared.duration !== process.duration)
+  ) {
+    reasons.push('process voting window has changed');
+  }
+
+  return reasons;
+}
+
+function ballotModeDiff(a: BallotMode, b: BallotMode): string[] {
+  const fields: Array<keyof BallotMode> = [
+    'numFields',
+    'uniqueValues',
+    'maxValue',
+    'minValue',
+    'maxValueSum',
+    'minValueSum',
+    'costExponent',
+  ];
+  const changed = fields.filter(field => String(a[field]) !== String(b[field]));
+  if ((a.groupSize ?? a.numFields) !== (b.groupSize ?? b.numFields)) {
+    changed.push('groupSize');
+  }
+  return changed;
+}
+
+function normalizeHex(value: string): string {
+  return value.replace(/^0x/i, '').toLowerCase();
+}
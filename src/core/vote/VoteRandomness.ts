@@ -0,0 +1,101 @@
+import { getAddress, getBytes, keccak256, Signer } from 'ethers';
+import { BallotBuilder } from '../../crypto/BallotBuilder';
+
+/**
+ * Current version of the vote randomness derivation
+ */
+export const VOTE_RANDOMNESS_VERSION = 1;
+
+/**
+ * Options for deriving the vote randomness from the voter's wallet
+ */
+export interface DeterministicRandomnessOptions {
+  /**
+   * Derivation index (default: 0). The same nonce gives the same randomness and vote ID,
+   * so a vote replacing a deterministic vote needs another nonce.
+   */
+  nonce?: number;
+}
+
+/**
+ * Options for deriveVoteRandomness
+ */
+export interface DeriveVoteRandomnessOptions extends DeterministicRandomnessOptions {
+  /** Ballot builder to reuse (built on demand otherwise) */
+  builder?: BallotBuilder;
+}
+
+/**
+ * Vote randomness derived from the voter's wallet
+ */
+export interface DerivedVoteRandomness {
+  /** Randomness `k` (decimal string), reduced like the randomness of other votes */
+  k: string;
+  /** Vote ID a ballot encrypted with `k` is cast with */
+  voteId: string;
+  /** The derivation index */
+  nonce: number;
+}
+
+/**
+ * Returns the message the voter signs to derive the vote randomness.
+ * The message is domain-separated by purpose, version, process, voter and nonce.
+ *
+ * @param processId - The process ID
+ * @param voterAddress - The voter's address
+ * @param nonce - Derivation index (default: 0)
+ */
+export function voteRandomnessMessage(
+  processId: string,
+  voterAddress: string,
+  nonce: number = 0
+): string {
+  if (!Number.isSafeInteger(nonce) || nonce < 0) {
+    throw new Error('nonce must be a non-negative integer');
+  }
+
+  return [
+    'DAVINCI vote randomness',
+    `Version: ${VOTE_RANDOMNESS_VERSION}`,
+    `Process: 0x${processId.replace(/^0x/i, '').toLowerCase()}`,
+    `Voter: ${getAddress(voterAddress)}`,
+    `Nonce: ${nonce}`,
+    '',
+    'This signature reveals your vote: only sign it in the app you vote with.',
+  ].join('\n');
+}
+
+/**
+ * Derives the vote randomness from a signature of the voter over voteRandomnessMessage().
+ * Signing the same message again gives the same randomness, so the voter can rebuild the
+ * ballot later to audit it or to recognise their vote, without having stored anything.
+ *
+ * The signer must produce deterministic signatures (RFC 6979), as ethers wallets and most
+ * hardware wallets do. Anyone holding the signature can recover the vote: treat it like
+ * the randomness itself.
+ *
+ * @param signer - The voter's signer
+ * @param processId - The process ID
+ * @param options - Derivation nonce and ballot builder
+ * @returns The randomness and the vote ID it gives
+ */
+export async function deriveVoteRandomness(
+  signer: Signer,
+  processId: string,
+  options: DeriveVoteRandomnessOptions = {}
+): Promise<DerivedVoteRandomness> {
+  const nonce = options.nonce ?? 0;
+  const voterAddress = await signer.getAddress();
+  const message = voteRandomnessMessage(processId, voterAddress, nonce);
+  const signature = await signer.signMessage(message);
+
+  const builder = options.builder ?? (await BallotBuilder.build());
+  const k = builder.kFromBytes(getBytes(keccak256(signature)));
+  const voteId = builder.computeVoteID(
+    BigInt('0x' + processId.replace(/^0x/i, '')).toString(),
+    BigInt(voterAddress).toString(),
+    k
+  );
+
+  return { k, voteId: '0x' + BigInt(voteId).toString(16).padStart(16, '0'), nonce };
+}
@@ -0,0 +1,323 @@
+import { getBytes, hexlify } from 'ethers';
+import { isTransientSequencerError } from '../api/BaseService';
+import { BallotBuilder, parseBallotMode } from '../../crypto/BallotBuilder';
+import type { VocdoniSequencerService } from '../../sequencer/SequencerService';
+import { VoteBallot, VoteProof, VoteStatus } from '../../sequencer/api/types';
+import { BallotMode } from '../types';
+import type { VotePackage } from './VotePackage';
+
+/**
+ * Current vote receipt format version
+ */
+export const VOTE_RECEIPT_VERSION = 1;
+
+/**
+ * Secret part of a receipt: the encryption randomness and the plaintext choices
+ */
+export interface VoteReceiptSecret {
+  /** Randomness `k` the ballot was encrypted with (decimal string) */
+  k: string;
+  /** The plaintext ballot fields */
+  choices: number[];
+}
+
+/**
+ * Receipt secret encrypted with a voter-chosen password (AES-256-GCM, key derived with PBKDF2-SHA256)
+ */
+export interface EncryptedReceiptSecret {
+  algorithm: 'AES-256-GCM';
+  kdf: 'PBKDF2-SHA256';
+  /** PBKDF2 iterations */
+  iterations: number;
+  /** PBKDF2 salt (hex) */
+  salt: string;
+  /** AES-GCM initialization vector (hex) */
+  iv: string;
+  /** Encrypted secret (hex) */
+  ciphertext: string;
+}
+
+/**
+ * Exportable record of a cast vote. It only contains JSON-compatible values.
+ * Everything but `secret` is public: it matches what was sent to the sequencer.
+ */
+export interface VoteReceipt {
+  /** Receipt format version */
+  version: typeof VOTE_RECEIPT_VERSION;
+  /** The process ID */
+  processId: string;
+  /** The vote ID */
+  voteId: string;
+  /** The voter's address */
+  voterAddress: string;
+  /** Voter weight used in the proof */
+  weight: string;
+  /** The encrypted ballot */
+  ballot: VoteBallot;
+  /** Hash of the ballot inputs (decimal string) */
+  ballotInputsHash: string;
+  /** The ballot proof */
+  proof: VoteProof;
+  /** Signature over the vote ID */
+  signature: string;
+  /** Process state the ballot was encrypted and proven against */
+  process: {
+    encryptionKey: { x: string; y: string };
+    ballotMode: BallotMode;
+  };
+  /** Preparation date of the vote (ISO 8601) */
+  createdAt: string;
+  /** Randomness and choices, present when the vote was cast with a receipt password */
+  secret?: EncryptedReceiptSecret;
+}
+
+/**
+ * Outcome of a receipt verification
+ */
+export interface VoteReceiptVerification {
+  /** Whether the ballot inputs hash matches the receipt ballot, voter and process */
+  inputsHashMatches: boolean;
+  /** Whether the vote ID derives from the receipt randomness (only checked with the password) */
+  voteIdMatches?: boolean;
+  /** Whether the ciphertexts encrypt the receipt choices (only checked with the password) */
+  choicesMatch?: boolean;
+  /** The decrypted choices (only with the password) */
+  choices?: number[];
+  /** Vote status reported by the sequencer, undefined if the sequencer has no record of the vote */
+  status?: VoteStatus;
+  /** Whether every check passed and the sequencer recorded the vote */
+  valid: boolean;
+  /** Every reason the receipt failed verification */
+  reasons: string[];
+}
+
+/**
+ * Options for verifyReceipt
+ */
+export interface VerifyReceiptOptions {
+  /** Sequencer the vote was submitted to */
+  sequencer: Pick<VocdoniSequencerService, 'getVoteStatus'>;
+  /** Receipt password, to check the vote ID and the choices against the ciphertexts */
+  password?: string;
+  /** Ballot builder to reuse (built on demand otherwise) */
+  builder?: BallotBuilder;
+}
+
+// PBKDF2 iterations for new receipts
+const RECEIPT_KDF_ITERATIONS = 600000;
+
+/**
+ * Encrypts a receipt secret with a password
+ *
+ * @param secret - The randomness and choices
+ * @param password - The voter-chosen password
+ * @returns The encrypted secret
+ */
+export async function encryptReceiptSecret(
+  secret: VoteReceiptSecret,
+  password: string
+): Promise<EncryptedReceiptSecret> {
+  if (!password) {
+    throw new Error('Receipt password must not be empty');
+  }
+
+  const salt = globalThis.crypto.getRandomValues(new Uint8Array(16));
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveReceiptKey(password, salt, RECEIPT_KDF_ITERATIONS);
+  const plaintext = new TextEncoder().encode(JSON.stringify(secret));
+  const ciphertext = await globalThis.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    plaintext
+  );
+
+  return {
+    algorithm: 'AES-256-GCM',
+    kdf: 'PBKDF2-SHA256',
+    iterations: RECEIPT_KDF_ITERATIONS,
+    salt: hexlify(salt),
+    iv: hexlify(iv),
+    ciphertext: hexlify(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypts a receipt secret
+ *
+ * @param encrypted - The encrypted secret
+ * @param password - The password the secret was encrypted with
+ * @returns The randomness and choices
+ * @throws Error if the password is wrong or the secret is corrupted
+ */
+export async function decryptReceiptSecret(
+  encrypted: EncryptedReceiptSecret,
+  password: string
+): Promise<VoteReceiptSecret> {
+  const key = await deriveReceiptKey(password, getBytes(encrypted.salt), encrypted.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await globalThis.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: getBytes(encrypted.iv) },
+      key,
+      getBytes(encrypted.ciphertext)
+    );
+  } catch {
+    throw new Error('Cannot decrypt the receipt secret: wrong password or corrupted receipt');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as VoteReceiptSecret;
+}
+
+/**
+ * Builds the receipt of a prepared vote
+ *
+ * @param votePackage - The vote package that was submitted
+ * @returns The vote receipt
+ */
+export function createVoteReceipt(votePackage: VotePackage): VoteReceipt {
+  const { request, process } = votePackage;
+  return {
+    version: VOTE_RECEIPT_VERSION,
+    processId: request.processId,
+    voteId: request.voteId,
+    voterAddress: request.address,
+    weight: votePackage.weight,
+    ballot: request.ballot,
+    ballotInputsHash: request.ballotInputsHash,
+    proof: request.ballotProof,
+    signature: request.signature,
+    process: { encryptionKey: process.encryptionKey, ballotMode: process.ballotMode },
+    createdAt: votePackage.createdAt,
+    ...(votePackage.receiptSecret && { secret: votePackage.receiptSecret }),
+  };
+}
+
+/**
+ * Verifies a vote receipt: recomputes the ballot inputs hash from the receipt ballot,
+ * checks the vote ID and the ciphertexts against the decrypted randomness and choices
+ * (when a password is given), and reads the vote status recorded by the sequencer.
+ *
+ * @param receipt - The vote receipt
+ * @param options - The sequencer and optional receipt password
+ * @returns The verification outcome
+ * @throws Error if the sequencer cannot be reached
+ *
+ * @example
+ * ```typescript
+ * const verification = await verifyReceipt(receipt, { sequencer: sdk.api.sequencer, password });
+ * if (verification.valid) {
+ *   console.log('Vote recorded as cast:', verification.status, verification.choices);
+ * } else {
+ *   console.error(verification.reasons);
+ * }
+ * ```
+ */
+export async function verifyReceipt(
+  receipt: VoteReceipt,
+  options: VerifyReceiptOptions
+): Promise<VoteReceiptVerification> {
+  const builder = options.builder ?? (await BallotBuilder.build());
+  const reasons: string[] = [];
+
+  const processId = BigInt(receipt.processId).toString();
+  const address = BigInt(receipt.voterAddress).toString();
+  const pubKey: unknown = builder.createPubKeyFromRTE(
+    receipt.process.encryptionKey.x,
+    receipt.process.encryptionKey.y
+  );
+  const cipherfields = receipt.ballot.ciphertexts.map(({ c1, c2 }) =>
+    [c1, c2].map(point => point.map(coordinate => BigInt(coordinate).toString()))
+  );
+
+  const inputsHash = builder.computeBallotInputsHash(
+    processId,
+    parseBallotMode(receipt.process.ballotMode),
+    pubKey,
+    address,
+    BigInt(receipt.voteId).toString(),
+    cipherfields,
+    receipt.weight
+  );
+  const inputsHashMatches = BigInt(inputsHash) === BigInt(receipt.ballotInputsHash);
+  if (!inputsHashMatches) {
+    reasons.push('ballot inputs hash does not match the receipt ballot');
+  }
+
+  const verification: VoteReceiptVerification = { inputsHashMatches, valid: false, reasons };
+
+  if (options.password !== undefined) {
+    const secret = await readSecret(receipt, options.password, reasons);
+    if (secret) {
+      verification.choices = secret.choices;
+      verification.voteIdMatches =
+        BigInt(builder.computeVoteID(processId, address, secret.k)) === BigInt(receipt.voteId);
+      if (!verification.voteIdMatches) {
+        reasons.push('vote ID does not derive from the receipt randomness');
+      }
+
+      const expected = builder.encryptFields(
+        secret.choices,
+        pubKey,
+        secret.k,
+        cipherfields.length
+      ).cipherfields;
+      verification.choicesMatch = JSON.stringify(expected) === JSON.stringify(cipherfields);
+      if (!verification.choicesMatch) {
+        reasons.push('ballot ciphertexts do not encrypt the receipt choices');
+      }
+    }
+  }
+
+  try {
+    const { status } = await options.sequencer.getVoteStatus(receipt.processId, receipt.voteId);
+    verification.status = status;
+    if (status === VoteStatus.Error) {
+      reasons.push('sequencer reports the vote as failed');
+    }
+  } catch (error) {
+    if (isTransientSequencerError(error)) {
+      throw error;
+    }
+    reasons.push(`sequencer has no record of vote ${receipt.voteId}`);
+  }
+
+  verification.valid = reasons.length === 0;
+  return verification;
+}
+
+async function readSecret(
+  receipt: VoteReceipt,
+  password: string,
+  reasons: string[]
+): Promise<VoteReceiptSecret | undefined> {
+  if (!receipt.secret) {
+    reasons.push('receipt has no encrypted secret');
+    return undefined;
+  }
+  try {
+    return await decryptReceiptSecret(receipt.secret, password);
+  } catch (error) {
+    reasons.push(error instanceof Error ? error.message : String(error));
+    return undefined;
+  }
+}
+
+async function deriveReceiptKey(
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await globalThis.crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return globalThis.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
@@ -0,0 +1,163 @@
+import type { CircuitArtifactProgress } from '../artifacts';
+import { abortable, abortError, checkAborted } from '../api/abort';
+import type { VoteResult } from './VoteOrchestrationService';
+
+/**
+ * Stages of a vote submission, in the order they run
+ */
+export enum VoteStage {
+  /**
+   * Fetching the process state, checking for a previous vote of the voter
+   * (and fetching the metadata when voting with answers)
+   */
+  FetchingProcess = 'fetching-process',
+  /** Fetching the voter census proof */
+  FetchingCensusProof = 'fetching-census-proof',
+  /** Encrypting the ballot and building the circuit inputs */
+  BuildingInputs = 'building-inputs',
+  /** Loading the circuit artifacts (from the cache when possible) */
+  DownloadingCircuits = 'downloading-circuits',
+  /** Generating the zk-SNARK proof */
+  Proving = 'proving',
+  /** Verifying the generated proof (skipped when `verifyProof` is disabled) */
+  VerifyingProof = 'verifying-proof',
+  /** Signing the vote */
+  Signing = 'signing',
+  /** Sending the vote to the sequencer */
+  Submitting = 'submitting',
+  /** Reading the initial vote status */
+  FetchingStatus = 'fetching-status',
+}
+
+/**
+ * Duration in milliseconds of each completed stage
+ */
+export type VoteStageTimings = Partial<Record<VoteStage, number>>;
+
+/**
+ * Events yielded by submitVoteStream. `elapsedMs` is the time since the stream started.
+ */
+export type VoteStreamEvent =
+  | { type: 'stage-started'; stage: VoteStage; elapsedMs: number }
+  | { type: 'stage-completed'; stage: VoteStage; durationMs: number; elapsedMs: number }
+  | {
+      type: 'download-progress';
+      stage: VoteStage;
+      progress: CircuitArtifactProgress;
+      elapsedMs: number;
+    }
+  | { type: 'completed'; result: VoteResult; timings: VoteStageTimings; elapsedMs: number };
+
+/**
+ * Error thrown by submitVoteStream when a stage fails.
+ * The original error is available as `cause`. Cancelled votes fail with an AbortError instead.
+ */
+export class VoteStageError extends Error {
+  constructor(
+    public readonly stage: VoteStage,
+    public readonly cause: unknown,
+    public readonly timings: VoteStageTimings
+  ) {
+    super(
+      `Vote failed while ${stage.replace(/-/g, ' ')}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`
+    );
+    this.name = 'VoteStageError';
+  }
+}
+
+/**
+ * Runs vote stages, yielding their events and recording their timings.
+ * Once the signal is aborted, the running stage fails with an AbortError without waiting
+ * for its task, and no other stage starts.
+ * @internal
+ */
+export class VoteStageRunner {
+  readonly timings: VoteStageTimings = {};
+  private readonly startedAt = Date.now();
+
+  constructor(readonly signal?: AbortSignal) {}
+
+  elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  /**
+   * Runs a stage, yielding its start, progress and completion events
+   * @returns The stage result
+   * @throws VoteStageError if the stage fails
+   * @throws AbortError if the signal is aborted
+   */
+  async *run<T>(
+    stage: VoteStage,
+    task: (onProgress: (progress: CircuitArtifactProgress) => void) => Promise<T>
+  ): AsyncGenerator<VoteStreamEvent, T> {
+    checkAborted(this.signal);
+    const stageStartedAt = Date.now();
+    yield { type: 'stage-started', stage, elapsedMs: this.elapsed() };
+
+    const progress: CircuitArtifactProgress[] = [];
+    let wake: (() => void) | undefined;
+    let settled = false;
+    const result = abortable(
+      task(event => {
+        progress.push(event);
+        wake?.();
+      }),
+      this.signal
+    );
+    const done = () => {
+      settled = true;
+      wake?.();
+    };
+    result.then(done, done);
+
+    // Relay progress events while the task runs
+    while (!settled || progress.length > 0) {
+      const next = progress.shift();
+      if (next) {
+        yield { type: 'download-progress', stage, progress: next, elapsedMs: this.elapsed() };
+      } else {
+        await new Promise<void>(resolve => (wake = resolve));
+        wake = undefined;
+      }
+    }
+
+    let value: T;
+    try {
+      value = await result;
+    } catch (error) {
+      if (this.signal?.aborted) {
+        throw abortError(this.signal);
+      }
+      throw new VoteStageError(stage, error, { ...this.timings });
+    }
+
+    const durationMs = Date.now() - stageStartedAt;
+    this.timings[stage] = durationMs;
+    yield { type: 'stage-completed', stage, durationMs, elapsedMs: this.elapsed() };
+    return value;
+  }
+}
+
+/**
+ * Runs vote stages to completion without exposing their events.
+ * Stage failures are rethrown as the original error.
+ * `onStageStarted` is called as each stage starts, before its task runs.
+ * @internal
+ */
+export async function runVoteStages<T>(
+  stages: AsyncGenerator<VoteStreamEvent, T>,
+  onStageStarted?: (stage: VoteStage) => void
+): Promise<T> {
+  try {
+    for (;;) {
+      const next = await stages.next();
+      if (next.done) return next.value;
+      if (next.value.type === 'stage-started') onStageStarted?.(next.value.stage);
+    }
+  } catch (error) {
+    throw error instanceof VoteStageError ? error.cause : error;
+  }
+}
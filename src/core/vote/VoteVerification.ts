@@ -0,0 +1,148 @@
+import { verifyMessage } from 'ethers';
+import * as snarkjs from 'snarkjs';
+import { BallotBuilder, parseBallotMode } from '../../crypto/BallotBuilder';
+import { VoteProof, VoteRequest } from '../../sequencer/api/types';
+import { BallotMode } from '../types';
+
+const groth16 = snarkjs.groth16 as {
+  verify(vkey: unknown, publicSignals: string[], proof: VoteProof): Promise<boolean>;
+};
+
+/**
+ * Process data a vote request is verified against
+ */
+export interface VoteRequestProcessData {
+  /** Process encryption key (RTE coordinates) */
+  encryptionKey: { x: string; y: string };
+  /** Process ballot mode */
+  ballotMode: BallotMode;
+}
+
+/**
+ * Options for verifyVoteRequest
+ */
+export interface VerifyVoteRequestOptions {
+  /** Process data, read independently from the sequencer (e.g. from the process registry) */
+  process: VoteRequestProcessData;
+  /** Parsed ballot proof verification key (the circuit `verification_key.json`) */
+  verificationKey: unknown;
+  /** Voter weight (decimal string, default: the weight of the CSP census proof) */
+  weight?: string;
+  /** Ballot builder to reuse (built on demand otherwise) */
+  builder?: BallotBuilder;
+}
+
+/**
+ * Outcome of a vote request verification
+ */
+export interface VoteRequestVerification {
+  /** Whether the ballot inputs hash matches the one recomputed from the public inputs */
+  inputsHashMatches: boolean;
+  /** Whether the ballot proof verifies for the recomputed inputs hash */
+  proofValid: boolean;
+  /** Whether the vote ID is signed by the voter address */
+  signatureValid: boolean;
+  /** Whether every check passed */
+  valid: boolean;
+  /** Every reason the vote request failed verification */
+  reasons: string[];
+}
+
+/**
+ * Returns the message a voter signs for a vote: the vote ID as 32 big-endian bytes
+ * (left-padded), as the sequencer verifies it, while the vote ID travels as 8 bytes.
+ *
+ * @param voteId - The vote ID (hex-prefixed)
+ */
+export function voteIdMessage(voteId: string): Uint8Array {
+  const bytes = new Uint8Array(32);
+  let value = BigInt(voteId);
+  for (let i = 31; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Verifies a vote request without trusting the sequencer: recomputes the ballot inputs
+ * hash from the ciphertexts, address, vote ID, weight and ballot mode, verifies the ballot
+ * proof for that hash against the verification key, and checks that the voter address
+ * signed the vote ID.
+ *
+ * @param request - The vote request, as submitted to the sequencer
+ * @param options - The process data, verification key and voter weight
+ * @returns The verification outcome
+ * @throws Error if the voter weight is neither given nor in the census proof
+ *
+ * @example
+ * ```typescript
+ * const verification = await verifyVoteRequest(request, {
+ *   process: { encryptionKey, ballotMode },
+ *   verificationKey: JSON.parse(await readFile('verification_key.json', 'utf8')),
+ *   weight: '1',
+ * });
+ * if (!verification.valid) console.error(verification.reasons);
+ * ```
+ */
+export async function verifyVoteRequest(
+  request: VoteRequest,
+  options: VerifyVoteRequestOptions
+): Promise<VoteRequestVerification> {
+  const weight = options.weight ?? request.censusProof?.weight;
+  if (weight === undefined) {
+    throw new Error('The voter weight is required to verify a vote without a CSP census proof');
+  }
+
+  const builder = options.builder ?? (await BallotBuilder.build());
+  const reasons: string[] = [];
+
+  const { encryptionKey, ballotMode } = options.process;
+  const pubKey: unknown = builder.createPubKeyFromRTE(encryptionKey.x, encryptionKey.y);
+  const cipherfields = request.ballot.ciphertexts.map(({ c1, c2 }) =>
+    [c1, c2].map(point => point.map(coordinate => BigInt(coordinate).toString()))
+  );
+  const inputsHash = builder.computeBallotInputsHash(
+    BigInt(request.processId).toString(),
+    parseBallotMode(ballotMode),
+    pubKey,
+    BigInt(request.address).toString(),
+    BigInt(request.voteId).toString(),
+    cipherfields,
+    weight
+  );
+  const inputsHashMatches = BigInt(inputsHash) === BigInt(request.ballotInputsHash);
+  if (!inputsHashMatches) {
+    reasons.push('ballot inputs hash does not match the public inputs');
+  }
+
+  // The recomputed hash is the only public signal of the ballot proof
+  let proofValid: boolean;
+  try {
+    proofValid = await groth16.verify(options.verificationKey, [inputsHash], request.ballotProof);
+  } catch {
+    proofValid = false;
+  }
+  if (!proofValid) {
+    reasons.push('ballot proof does not verify against the verification key');
+  }
+
+  let signatureValid: boolean;
+  try {
+    const signer = verifyMessage(voteIdMessage(request.voteId), request.signature);
+    signatureValid = signer.toLowerCase() === request.address.toLowerCase();
+  } catch {
+    signatureValid = false;
+  }
+  if (!signatureValid) {
+    reasons.push('vote ID is not signed by the voter address');
+  }
+
+  return {
+    inputsHashMatches,
+    proofValid,
+    signatureValid,
+    valid: reasons.length === 0,
+    reasons,
+  };
+}
@@ -0,0 +1,181 @@
+import { CensusOrigin } from '../../census/types';
+import { AddressVoteResponse, GetProcessResponse } from '../../sequencer/api/types';
+import { getProcessVotingWindow } from '../../sequencer/api/helpers';
+import { ProcessStatus } from '../../contracts/types';
+
+/**
+ * Machine-readable reasons an address cannot vote in a process
+ */
+export enum VoterIneligibilityReason {
+  /** The address is not in the process census */
+  NotInCensus = 'not-in-census',
+  /** The address has already voted (a new vote needs `allowOverwrite`) */
+  AlreadyVoted = 'already-voted',
+  /** The voting period has not started yet */
+  ProcessNotStarted = 'process-not-started',
+  /** The voting period is over or the process was ended */
+  ProcessEnded = 'process-ended',
+  /** The process is paused */
+  ProcessPaused = 'process-paused',
+  /** The process was canceled */
+  ProcessCanceled = 'process-canceled',
+  /** The sequencer does not accept votes for the process */
+  ProcessNotAcceptingVotes = 'process-not-accepting-votes',
+  /** The census is a CSP census and no CSP census proof provider is configured */
+  CspProviderMissing = 'csp-provider-missing',
+  /** The census origin is not supported by this SDK */
+  UnsupportedCensusOrigin = 'unsupported-census-origin',
+}
+
+/**
+ * A reason an address cannot vote, with a human-readable explanation
+ */
+export interface VoterIneligibility {
+  code: VoterIneligibilityReason;
+  message: string;
+}
+
+/**
+ * Report of whether an address can vote in a process
+ */
+export interface VoterEligibility {
+  processId: string;
+  address: string;
+  /** Whether the address can vote now (no reasons against it) */
+  eligible: boolean;
+  /** Census origin of the process */
+  censusOrigin: CensusOrigin;
+  /**
+   * Whether the address is in the census. Undefined for CSP censuses, whose members
+   * the sequencer does not know: the CSP proves membership when the vote is cast.
+   */
+  inCensus?: boolean;
+  /** Voter weight in the census, when the sequencer knows it */
+  weight?: string;
+  /** Whether the address has already voted */
+  hasVoted: boolean;
+  /** ID of the previous vote, when the sequencer reports it */
+  previousVoteId?: string;
+  /** Process status, as reported by the sequencer */
+  status: ProcessStatus;
+  /** Whether the sequencer accepts votes for the process */
+  acceptingVotes: boolean;
+  startDate: Date;
+  endDate: Date;
+  /** Seconds until the voting period starts (0 once started) */
+  secondsUntilStart: number;
+  /** Seconds until the voting period ends (0 once over) */
+  secondsUntilEnd: number;
+  /** Whether casting a vote needs a CSP census proof provider */
+  cspProviderRequired: boolean;
+  /** Whether a CSP census proof provider is configured */
+  cspProviderConfigured: boolean;
+  /** Every reason the address cannot vote, empty when eligible */
+  reasons: VoterIneligibility[];
+}
+
+/**
+ * Data an eligibility report is evaluated from
+ */
+export interface VoterEligibilityInput {
+  process: Pick<
+    GetProcessResponse,
+    'id' | 'status' | 'startTime' | 'duration' | 'isAcceptingVotes' | 'census'
+  >;
+  address: string;
+  /**
+   * Voter weight from the sequencer participants endpoint: null when the address is not
+   * in the census, undefined when not looked up (CSP censuses)
+   */
+  weight?: string | null;
+  /** Vote registered by the address, or null if it has not voted */
+  vote: AddressVoteResponse | null;
+  /** Whether a CSP census proof provider is configured */
+  cspProviderConfigured: boolean;
+  /** Current time in milliseconds (default: Date.now()) */
+  now?: number;
+}
+
+// Process statuses that stop voting
+const STATUS_REASONS: Partial<Record<ProcessStatus, VoterIneligibilityReason>> = {
+  [ProcessStatus.ENDED]: VoterIneligibilityReason.ProcessEnded,
+  [ProcessStatus.CANCELED]: VoterIneligibilityReason.ProcessCanceled,
+  [ProcessStatus.PAUSED]: VoterIneligibilityReason.ProcessPaused,
+  [ProcessStatus.RESULTS]: VoterIneligibilityReason.ProcessEnded,
+};
+
+const REASON_MESSAGES: Record<VoterIneligibilityReason, string> = {
+  [VoterIneligibilityReason.NotInCensus]: 'The address is not in the process census',
+  [VoterIneligibilityReason.AlreadyVoted]:
+    'The address has already voted. Set allowOverwrite to replace the previous vote.',
+  [VoterIneligibilityReason.ProcessNotStarted]: 'The voting period has not started yet',
+  [VoterIneligibilityReason.ProcessEnded]: 'The process has ended',
+  [VoterIneligibilityReason.ProcessPaused]: 'The process is paused',
+  [VoterIneligibilityReason.ProcessCanceled]: 'The process was canceled',
+  [VoterIneligibilityReason.ProcessNotAcceptingVotes]:
+    'The sequencer does not accept votes for the process',
+  [VoterIneligibilityReason.CspProviderMissing]:
+    'The process uses a CSP census and no CSP census proof provider is configured',
+  [VoterIneligibilityReason.UnsupportedCensusOrigin]:
+    'The process census origin is not supported by this SDK',
+};
+
+/**
+ * Evaluates whether an address can vote in a process, collecting every reason it cannot
+ *
+ * @param input - The process, the address census and vote lookups, and the CSP setup
+ * @returns The eligibility report
+ */
+export function evaluateVoterEligibility(input: VoterEligibilityInput): VoterEligibility {
+  const { process, weight, vote } = input;
+  const now = input.now ?? Date.now();
+  const status = process.status as ProcessStatus;
+  const censusOrigin = process.census.censusOrigin;
+  const codes: VoterIneligibilityReason[] = [];
+
+  const { startTime, endTime } = getProcessVotingWindow(process);
+
+  const cspProviderRequired = censusOrigin === CensusOrigin.CSP;
+  if (!Object.values(CensusOrigin).includes(censusOrigin)) {
+    codes.push(VoterIneligibilityReason.UnsupportedCensusOrigin);
+  } else if (cspProviderRequired && !input.cspProviderConfigured) {
+    codes.push(VoterIneligibilityReason.CspProviderMissing);
+  }
+  if (weight === null) {
+    codes.push(VoterIneligibilityReason.NotInCensus);
+  }
+  if (vote !== null) {
+    codes.push(VoterIneligibilityReason.AlreadyVoted);
+  }
+
+  const statusReason = STATUS_REASONS[status];
+  if (statusReason) {
+    codes.push(statusReason);
+  } else if (now < startTime) {
+    codes.push(VoterIneligibilityReason.ProcessNotStarted);
+  } else if (now >= endTime) {
+    codes.push(VoterIneligibilityReason.ProcessEnded);
+  } else if (!process.isAcceptingVotes) {
+    codes.push(VoterIneligibilityReason.ProcessNotAcceptingVotes);
+  }
+
+  return {
+    processId: process.id,
+    address: input.address,
+    eligible: codes.length === 0,
+    censusOrigin,
+    inCensus: weight === undefined ? undefined : weight !== null,
+    weight: weight ?? undefined,
+    hasVoted: vote !== null,
+    previousVoteId: vote?.voteId,
+    status,
+    acceptingVotes: process.isAcceptingVotes,
+    startDate: new Date(startTime),
+    endDate: new Date(endTime),
+    secondsUntilStart: Math.max(0, Math.ceil((startTime - now) / 1000)),
+    secondsUntilEnd: Math.max(0, Math.ceil((endTime - now) / 1000)),
+    cspProviderRequired,
+    cspProviderConfigured: input.cspProviderConfigured,
+    reasons: codes.map(code => ({ code, message: REASON_MESSAGES[code] })),
+  };
+}
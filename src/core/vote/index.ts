@@ -4,4 +4,76 @@ export type {
   VoteResult,
   VoteStatusInfo,
   VoteOrchestrationConfig,
+  PreloadCircuitsOptions,
+  ConfirmVoteOverwriteOptions,
+  VerifyVoteRequestConfig,
 } from './VoteOrchestrationService';
+export {
+  VOTE_PACKAGE_VERSION,
+  VotePackageError,
+  serializeVotePackage,
+  deserializeVotePackage,
+  checkVotePackage,
+} from './VotePackage';
+export type { VotePackage } from './VotePackage';
+export { VoteStage, VoteStageError } from './VoteStream';
+export type { VoteStageTimings, VoteStreamEvent } from './VoteStream';
+export { AlreadyVotedError, evaluateVoteOverwrite } from './VoteOverwrite';
+export type { VoteOverwriteInfo, VoteOverwriteConfirmation } from './VoteOverwrite';
+export { BulkVoteService } from './BulkVoteService';
+export type {
+  BulkVote,
+  BulkVoteOptions,
+  BulkVoteSettlementOptions,
+  BulkVoteSuccess,
+  BulkVoteFailure,
+  BulkVoteReport,
+} from './BulkVoteService';
+export {
+  VOTE_RECEIPT_VERSION,
+  createVoteReceipt,
+  encryptReceiptSecret,
+  decryptReceiptSecret,
+  verifyReceipt,
+} from './VoteReceipt';
+export type {
+  VoteReceipt,
+  VoteReceiptSecret,
+  EncryptedReceiptSecret,
+  VoteReceiptVerification,
+  VerifyReceiptOptions,
+} from './VoteReceipt';
+export {
+  BALLOT_AUDIT_VERSION,
+  BallotChallengeError,
+  ChallengeBallot,
+  ballotFingerprint,
+  verifyBallotAudit,
+} from './BallotChallenge';
+export type {
+  BallotAudit,
+  BallotAuditVerification,
+  VerifyBallotAuditOptions,
+} from './BallotChallenge';
+export {
+  VOTE_RANDOMNESS_VERSION,
+  deriveVoteRandomness,
+  voteRandomnessMessage,
+} from './VoteRandomness';
+export type {
+  DeterministicRandomnessOptions,
+  DeriveVoteRandomnessOptions,
+  DerivedVoteRandomness,
+} from './VoteRandomness';
+export { verifyVoteRequest, voteIdMessage } from './VoteVerification';
+export type {
+  VoteRequestProcessData,
+  VerifyVoteRequestOptions,
+  VoteRequestVerification,
+} from './VoteVerification';
+export { VoterIneligibilityReason, evaluateVoterEligibility } from './VoterEligibility';
+export type {
+  VoterEligibility,
+  VoterIneligibility,
+  VoterEligibilityInput,
+} from './VoterEligibility';
@@ -5,6 +5,8 @@ import { buildPoseidon } from 'circomlibjs';
 export const FIELD_MODULUS =
   21888242871839275222246405745257275088548364400416034343698204186575808495617n;
 const VOTE_ID_MIN = 0x8000000000000000n;
+// Number of ballot fields supported by the ballot proof circuit
+export const BALLOT_CIRCUIT_CAPACITY = 8;
 const VOTE_ID_HASH_BITS = 63n;
 
 // Scaling factor for RTE <-> TE conversion
@@ -165,6 +167,13 @@ export class BallotBuilder {
     return this.elgamal.randomScalar().toString();
   }
 
+  /**
+   * Derives a k value from seed bytes, reduced into the subgroup like randomK()
+   */
+  kFromBytes(seed: Uint8Array): string {
+    return this.elgamal.scalarFromBytes(seed).toString();
+  }
+
   derivePoseidonChain(seedK: string, n: number): string[] {
     let current = BigInt(seedK);
     const out: string[] = [current.toString()];
@@ -250,6 +259,52 @@ export class BallotBuilder {
     return packed;
   }
 
+  /**
+   * Computes the hash of the public ballot inputs, as checked by the ballot proof.
+   * Only public data is needed, so anyone can recompute it from a submitted ballot.
+   *
+   * @param processId - Process ID as decimal string
+   * @param config - Ballot configuration
+   * @param pubKey - Public key as field elements [x, y] in TE format
+   * @param address - Voter address as decimal string
+   * @param voteId - Vote ID as decimal string
+   * @param cipherfields - Encrypted fields, padded to the circuit capacity
+   * @param weight - The voter's weight
+   */
+  computeBallotInputsHash(
+    processId: string,
+    config: BallotConfig,
+    pubKey: any,
+    address: string,
+    voteId: string,
+    cipherfields: string[][][],
+    weight: number | string
+  ): string {
+    // Build Inputs Hash - MUST MATCH ballot_proof.circom ORDER
+    const inputsList: any[] = [];
+
+    const packedBallotMode = this.packBallotMode(config);
+    inputsList.push(BigInt(processId));
+    inputsList.push(mod(packedBallotMode, FIELD_MODULUS));
+
+    inputsList.push(BigInt(this.elgamal.F.toString(pubKey[0], 10)));
+    inputsList.push(BigInt(this.elgamal.F.toString(pubKey[1], 10)));
+
+    inputsList.push(BigInt(address));
+    inputsList.push(BigInt(voteId));
+
+    for (const cf of cipherfields) {
+      inputsList.push(BigInt(cf[0][0]));
+      inputsList.push(BigInt(cf[0][1]));
+      inputsList.push(BigInt(cf[1][0]));
+      inputsList.push(BigInt(cf[1][1]));
+    }
+
+    inputsList.push(BigInt(weight));
+
+    return this.computeInputsHash(inputsList);
+  }
+
   /**
    * Creates a public key point from TE coordinates (as strings or bigints).
    * Use this when you already have coordinates in TE format.
@@ -292,37 +347,23 @@ export class BallotBuilder {
     address: string,
     k: string,
     config: BallotConfig,
-    circuitCapacity: number = 8
+    circuitCapacity: number = BALLOT_CIRCUIT_CAPACITY
   ): BallotInputs {
     const activeFields = config.numFields;
     const groupSize = config.groupSize ?? config.numFields;
 
     const { cipherfields, paddedFields } = this.encryptFields(fields, pubKey, k, circuitCapacity);
     const voteId = this.computeVoteID(processId, address, k);
-
-    // Build Inputs Hash - MUST MATCH ballot_proof.circom ORDER
-    const inputsList: any[] = [];
-
     const packedBallotMode = this.packBallotMode(config);
-    inputsList.push(BigInt(processId));
-    inputsList.push(mod(packedBallotMode, FIELD_MODULUS));
-
-    inputsList.push(BigInt(this.elgamal.F.toString(pubKey[0], 10)));
-    inputsList.push(BigInt(this.elgamal.F.toString(pubKey[1], 10)));
-
-    inputsList.push(BigInt(address));
-    inputsList.push(BigInt(voteId));
-
-    for (const cf of cipherfields) {
-      inputsList.push(BigInt(cf[0][0]));
-      inputsList.push(BigInt(cf[0][1]));
-      inputsList.push(BigInt(cf[1][0]));
-      inputsList.push(BigInt(cf[1][1]));
-    }
-
-    inputsList.push(BigInt(weight));
-
-    const inputsHash = this.computeInputsHash(inputsList);
+    const inputsHash = this.computeBallotInputsHash(
+      processId,
+      config,
+      pubKey,
+      address,
+      voteId,
+      cipherfields,
+      weight
+    );
 
     return {
       fields: paddedFields,
@@ -366,7 +407,7 @@ export class BallotBuilder {
     fields: number[],
     weight: number,
     k?: string,
-    circuitCapacity: number = 8
+    circuitCapacity: number = BALLOT_CIRCUIT_CAPACITY
   ): BallotInputs {
     // Convert process ID and address from hex to decimal
     const processId = hexToDecimal(sequencerData.processId);
@@ -0,0 +1,188 @@
+import { BALLOT_CIRCUIT_CAPACITY, SequencerProcessData } from './BallotBuilder';
+
+/**
+ * Ballot constraints enforced by the ballot proof circuit
+ */
+export enum BallotRule {
+  /** More fields than the ballot mode (or the circuit) allows */
+  NumFields = 'numFields',
+  /** Field value is not an integer within [minValue, maxValue] */
+  Range = 'range',
+  /** Repeated values when uniqueValues is enabled */
+  UniqueValues = 'uniqueValues',
+  /** Total cost above maxValueSum */
+  MaxValueSum = 'maxValueSum',
+  /** Total cost below minValueSum */
+  MinValueSum = 'minValueSum',
+  /** Invalid cost exponent in the ballot mode */
+  CostExponent = 'costExponent',
+}
+
+/**
+ * A single violated ballot constraint
+ */
+export interface BallotViolation {
+  /** The violated rule */
+  rule: BallotRule;
+  /** Human readable description */
+  message: string;
+  /** Index of the offending field, when the violation is field specific */
+  fieldIndex?: number;
+}
+
+/**
+ * Result of checking a ballot against a ballot mode
+ */
+export interface BallotCheckResult {
+  /** Whether the ballot satisfies every constraint */
+  valid: boolean;
+  /** Violated constraints (empty when valid) */
+  violations: BallotViolation[];
+  /** Total cost of the ballot: sum(field ^ costExponent) */
+  totalCost: bigint;
+}
+
+/**
+ * Ballot mode as stored on-chain and returned by the sequencer
+ */
+export type BallotCheckerMode = SequencerProcessData['ballotMode'];
+
+/**
+ * Error thrown when a ballot does not satisfy the ballot mode constraints
+ */
+export class BallotValidationError extends Error {
+  constructor(public readonly violations: BallotViolation[]) {
+    super(`Invalid ballot: ${violations.map(v => v.message).join('; ')}`);
+    this.name = 'BallotValidationError';
+  }
+}
+
+/**
+ * Checks a ballot against the same constraints as the ballot proof circuit.
+ *
+ * Fields are zero-padded up to `numFields` before checking, as the circuit does.
+ * When `costExponent > 1` the sum bounds are scaled by the voter weight.
+ * A `maxValueSum` of 0 disables the upper bound.
+ *
+ * @param fields - The ballot field values
+ * @param ballotMode - The process ballot mode
+ * @param weight - The voter weight (defaults to 1)
+ * @returns The check result with every violated rule
+ */
+export function checkBallot(
+  fields: Array<number | bigint | string>,
+  ballotMode: BallotCheckerMode,
+  weight: number | bigint | string = 1
+): BallotCheckResult {
+  const violations: BallotViolation[] = [];
+  const numFields = ballotMode.numFields;
+  const costExponent = ballotMode.costExponent;
+  const maxValue = BigInt(ballotMode.maxValue);
+  const minValue = BigInt(ballotMode.minValue);
+
+  if (!Number.isInteger(costExponent) || costExponent < 1 || costExponent > 255) {
+    violations.push({
+      rule: BallotRule.CostExponent,
+      message: `Cost exponent ${costExponent} must be an integer in range [1, 255]`,
+    });
+  }
+
+  if (!Number.isInteger(numFields) || numFields < 1 || numFields > BALLOT_CIRCUIT_CAPACITY) {
+    violations.push({
+      rule: BallotRule.NumFields,
+      message: `numFields ${numFields} must be an integer in range [1, ${BALLOT_CIRCUIT_CAPACITY}]`,
+    });
+    return { valid: false, violations, totalCost: 0n };
+  }
+
+  if (fields.length > numFields) {
+    violations.push({
+      rule: BallotRule.NumFields,
+      message: `Ballot has ${fields.length} fields but the ballot mode allows ${numFields}`,
+    });
+  }
+
+  // Parse and zero-pad the active fields
+  const values: bigint[] = [];
+  for (let i = 0; i < numFields; i++) {
+    const raw = i < fields.length ? fields[i] : 0;
+    const value = toInteger(raw);
+    if (value === null) {
+      violations.push({
+        rule: BallotRule.Range,
+        message: `Choice ${String(raw)} at field ${i} is not an integer`,
+        fieldIndex: i,
+      });
+      values.push(0n);
+      continue;
+    }
+    if (value < minValue || value > maxValue) {
+      violations.push({
+        rule: BallotRule.Range,
+        message: `Choice ${value} at field ${i} is out of range [${minValue}, ${maxValue}]`,
+        fieldIndex: i,
+      });
+    }
+    values.push(value);
+  }
+
+  if (ballotMode.uniqueValues) {
+    const seen = new Set<bigint>();
+    values.forEach((value, i) => {
+      if (seen.has(value)) {
+        violations.push({
+          rule: BallotRule.UniqueValues,
+          message: `Value ${value} at field ${i} is repeated but unique values are required`,
+          fieldIndex: i,
+        });
+      }
+      seen.add(value);
+    });
+  }
+
+  const exponent = BigInt(Math.max(1, Math.trunc(costExponent) || 1));
+  const totalCost = values.reduce((acc, value) => acc + value ** exponent, 0n);
+
+  const scale = costExponent > 1 ? BigInt(weight) : 1n;
+  const effectiveScale = scale > 0n ? scale : 1n;
+  const maxValueSum = BigInt(ballotMode.maxValueSum) * effectiveScale;
+  const minValueSum = BigInt(ballotMode.minValueSum) * effectiveScale;
+
+  if (maxValueSum > 0n && totalCost > maxValueSum) {
+    violations.push({
+      rule: BallotRule.MaxValueSum,
+      message: `Total cost ${totalCost} exceeds the maximum ${maxValueSum}`,
+    });
+  }
+
+  if (totalCost < minValueSum) {
+    violations.push({
+      rule: BallotRule.MinValueSum,
+      message: `Total cost ${totalCost} is below the minimum ${minValueSum}`,
+    });
+  }
+
+  return { valid: violations.length === 0, violations, totalCost };
+}
+
+/**
+ * Checks a ballot and throws a BallotValidationError listing every violation
+ */
+export function assertValidBallot(
+  fields: Array<number | bigint | string>,
+  ballotMode: BallotCheckerMode,
+  weight?: number | bigint | string
+): void {
+  const result = checkBallot(fields, ballotMode, weight);
+  if (!result.valid) {
+    throw new BallotValidationError(result.violations);
+  }
+}
+
+function toInteger(value: number | bigint | string): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) ? BigInt(value) : null;
+  }
+  return /^-?\d+$/.test(value.trim()) ? BigInt(value.trim()) : null;
+}
@@ -15,6 +15,7 @@ export interface ElGamal {
   encrypt: (msg: bigint | string, pubKey: any, k: bigint | string) => { c1: any; c2: any };
   generateKeyPair: () => { privKey: bigint; pubKey: any };
   randomScalar: () => bigint;
+  scalarFromBytes: (bytes: Uint8Array) => bigint;
   packPoint: (p: any) => any;
   unpackPoint: (p: any) => any;
 }
@@ -24,7 +25,11 @@ export async function buildElGamal(): Promise<ElGamal> {
   const F = babyjub.F;
 
   function randomScalar(): bigint {
-    const bytes = getRandomBytes(32);
+    return scalarFromBytes(getRandomBytes(32));
+  }
+
+  // Reduces little-endian bytes into the subgroup, for random and derived scalars alike
+  function scalarFromBytes(bytes: Uint8Array): bigint {
     let bi = 0n;
     for (let i = 0; i < bytes.length; i++) {
       bi += BigInt(bytes[i]) << BigInt(8 * i);
@@ -65,6 +70,7 @@ export async function buildElGamal(): Promise<ElGamal> {
     encrypt,
     generateKeyPair,
     randomScalar,
+    scalarFromBytes,
     packPoint: babyjub.packPoint,
     unpackPoint: babyjub.unpackPoint,
   };
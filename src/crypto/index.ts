@@ -1,3 +1,4 @@
 export * from './ElGamal';
 export * from './BallotBuilder';
+export * from './BallotChecker';
 export * from './types';
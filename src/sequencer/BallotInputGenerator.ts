@@ -1,4 +1,4 @@
-import { BallotBuilder, BallotInputsOutput, BallotConfig } from '../crypto';
+import { BallotBuilder, BallotInputsOutput, BALLOT_CIRCUIT_CAPACITY } from '../crypto';
 import { BallotMode } from '../core/types';
 import { ProofInputs } from './types';
 
@@ -62,7 +62,7 @@ export class BallotInputGenerator {
       choices,
       parseInt(weight),
       customK,
-      8
+      BALLOT_CIRCUIT_CAPACITY
     );
 
     // Convert to CircomProof inputs format
@@ -1,13 +1,18 @@
 import { BaseService } from '../core/api/BaseService';
 import {
+  AddressVoteResponse,
   GetProcessResponse,
   InfoResponse,
   ListProcessesResponse,
   ParticipantInfoResponse,
   ProcessKeysResponse,
+  ProcessSequencerStats,
   SequencerStats,
+  StatusEventsRequest,
+  StatusUpdate,
   VoteBallot,
   VoteRequest,
+  VoteStatus,
   VoteStatusResponse,
   WorkersResponse,
 } from './api/types';
@@ -39,10 +44,11 @@ export class VocdoniSequencerService extends BaseService {
     });
   }
 
-  getProcess(processId: string): Promise<GetProcessResponse> {
+  getProcess(processId: string, signal?: AbortSignal): Promise<GetProcessResponse> {
     return this.request({
       method: 'GET',
       url: `/processes/${processId}`,
+      signal,
     });
   }
 
@@ -54,40 +60,99 @@ export class VocdoniSequencerService extends BaseService {
     }).then(res => res.processes ?? []);
   }
 
-  async submitVote(vote: VoteRequest): Promise<void> {
+  async submitVote(vote: VoteRequest, signal?: AbortSignal): Promise<void> {
     await this.request({
       method: 'POST',
       url: '/votes',
       data: vote,
+      signal,
     });
   }
 
-  getVoteStatus(processId: string, voteId: string): Promise<VoteStatusResponse> {
+  getVoteStatus(
+    processId: string,
+    voteId: string,
+    signal?: AbortSignal
+  ): Promise<VoteStatusResponse> {
     return this.request<VoteStatusResponse>({
       method: 'GET',
       url: `/votes/${processId}/voteId/${voteId}`,
+      signal,
     });
   }
 
-  async hasAddressVoted(processId: string, address: string): Promise<boolean> {
+  /**
+   * Streams the status updates of a process from the sequencer event stream
+   * (`GET /processes/{processId}/events`, Server-Sent Events).
+   * Sequencers without the endpoint fail with code 404, 405, 406 or 501.
+   */
+  async *streamStatusEvents(
+    processId: string,
+    request: StatusEventsRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<StatusUpdate> {
+    const events = this.streamEvents({
+      method: 'GET',
+      url: `/processes/${processId}/events`,
+      params: { voteId: request.voteIds, stats: request.stats || undefined },
+      signal,
+    });
+
+    for await (const { event, data } of events) {
+      if (event === 'vote-status') {
+        const { voteId, status } = JSON.parse(data) as { voteId: string; status: VoteStatus };
+        yield { type: 'vote-status', processId, voteId, status };
+      } else if (event === 'process-stats') {
+        yield {
+          type: 'process-stats',
+          processId,
+          stats: JSON.parse(data) as ProcessSequencerStats,
+        };
+      }
+    }
+  }
+
+  async hasAddressVoted(
+    processId: string,
+    address: string,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    return (await this.getAddressVote(processId, address, signal)) !== null;
+  }
+
+  /**
+   * Gets the vote registered by an address
+   * @returns The vote, or null if the address has not voted
+   */
+  async getAddressVote(
+    processId: string,
+    address: string,
+    signal?: AbortSignal
+  ): Promise<AddressVoteResponse | null> {
     try {
-      await this.request({
+      const vote = await this.request<AddressVoteResponse | null>({
         method: 'GET',
         url: `/votes/${processId}/address/${address}`,
+        signal,
       });
-      return true;
+      return vote ?? {};
     } catch (error: any) {
       if (error?.code === 40001) {
-        return false;
+        return null;
       }
       throw error;
     }
   }
 
-  async getAddressWeight(processId: string, address: string): Promise<string> {
+  async getAddressWeight(
+    processId: string,
+    address: string,
+    signal?: AbortSignal
+  ): Promise<string> {
     const participant = await this.request<ParticipantInfoResponse>({
       method: 'GET',
       url: `/processes/${processId}/participants/${address}`,
+      signal,
     });
     return participant.weight;
   }
@@ -109,10 +174,11 @@ export class VocdoniSequencerService extends BaseService {
     }
   }
 
-  getInfo(): Promise<InfoResponse> {
+  getInfo(signal?: AbortSignal): Promise<InfoResponse> {
     return this.request<InfoResponse>({
       method: 'GET',
       url: '/info',
+      signal,
     });
   }
 
@@ -154,6 +220,23 @@ export class VocdoniSequencerService extends BaseService {
     });
   }
 
+  /**
+   * Fetches a metadata document without parsing it, so it can be checked against its content hash
+   */
+  async getMetadataRaw(hashOrUrl: string, signal?: AbortSignal): Promise<string> {
+    const isUrl = hashOrUrl.startsWith('http://') || hashOrUrl.startsWith('https://');
+    if (!isUrl && !isMetadataHash(hashOrUrl)) {
+      throw new Error('Invalid metadata hash format');
+    }
+
+    return this.request<string>({
+      method: 'GET',
+      url: isUrl ? hashOrUrl : `/metadata/${hashOrUrl}`,
+      responseType: 'text',
+      signal,
+    });
+  }
+
   getMetadataUrl(hash: string): string {
     if (!isMetadataHash(hash)) throw new Error('Invalid metadata hash format');
     return this.resolveUrl(`/metadata/${hash}`);
@@ -0,0 +1,188 @@
+import { isTransientSequencerError } from '../core/api/BaseService';
+import { checkAborted, sleep } from '../core/api/abort';
+import { runWithConcurrency } from '../core/api/concurrency';
+import { VocdoniSequencerService } from './SequencerService';
+import { StatusUpdate } from './api/types';
+
+/**
+ * How status updates are received from the sequencer:
+ * - `polling`: polling only (default)
+ * - `auto`: the sequencer event stream when supported, polling otherwise
+ * - `push`: the sequencer event stream, failing if the sequencer does not support it
+ *
+ * The event stream (`GET /processes/{id}/events`) is not part of the documented sequencer
+ * API yet: only opt in for sequencers known to serve it.
+ */
+export type StatusTransport = 'auto' | 'push' | 'polling';
+
+/**
+ * Options for subscribing to the status updates of a process
+ */
+export interface StatusSubscriptionOptions {
+  /** The process ID */
+  processId: string;
+  /** Votes whose status changes are delivered */
+  voteIds?: string[];
+  /** Whether the process sequencer statistics are delivered */
+  stats?: boolean;
+  /** Initial polling interval in milliseconds (default: 5000) */
+  pollIntervalMs?: number;
+  /**
+   * Maximum polling interval in milliseconds, reached by backing off while nothing changes
+   * (default: 60000). Set it to `pollIntervalMs` to poll at a fixed interval.
+   */
+  maxPollIntervalMs?: number;
+  /** Signal ending the subscription */
+  signal?: AbortSignal;
+}
+
+// Error codes of sequencers without the event stream endpoint
+const PUSH_UNSUPPORTED_CODES = [404, 405, 406, 501];
+
+// Status requests sent at once on each polling round
+const STATUS_POLL_CONCURRENCY = 8;
+
+/**
+ * Delivers vote status and process statistics updates from the sequencer.
+ *
+ * The status is polled with exponential backoff and jitter: starting at `pollIntervalMs`,
+ * the interval doubles up to `maxPollIntervalMs` while nothing changes or the sequencer
+ * fails with a transient error, and resets on each update. Each round sends a bounded
+ * number of requests at once; a vote whose request fails keeps its last status until the
+ * next round. With the `auto` and `push` transports, updates are pushed through the
+ * sequencer event stream (Server-Sent Events) and polling only catches up between
+ * reconnections.
+ */
+export class StatusSubscriber {
+  // Whether the sequencer event stream is available, once known
+  private pushSupported?: boolean;
+
+  constructor(
+    private readonly sequencer: VocdoniSequencerService,
+    private readonly transport: StatusTransport = 'polling',
+    private readonly random: () => number = Math.random
+  ) {}
+
+  /**
+   * Subscribe to the status updates of a process. The current state is delivered first;
+   * then each change is delivered once, until the consumer stops iterating.
+   *
+   * @param options - The process, votes and statistics to follow
+   * @returns AsyncGenerator yielding status updates
+   * @throws AbortError if `options.signal` is aborted
+   * @throws Error if the sequencer fails with a non-transient error, or if the `push`
+   * transport is required and the sequencer has no event stream
+   */
+  async *subscribe(options: StatusSubscriptionOptions): AsyncGenerator<StatusUpdate> {
+    const pollIntervalMs = options.pollIntervalMs ?? 5000;
+    const maxPollIntervalMs = Math.max(pollIntervalMs, options.maxPollIntervalMs ?? 60000);
+    const { signal } = options;
+    const delivered = new Map<string, string>();
+    const isNew = (update: StatusUpdate): boolean => {
+      const key = update.type === 'vote-status' ? `vote:${update.voteId}` : 'stats';
+      const value = JSON.stringify(update.type === 'vote-status' ? update.status : update.stats);
+      if (delivered.get(key) === value) return false;
+      delivered.set(key, value);
+      return true;
+    };
+
+    let attempt = 0;
+    for (;;) {
+      checkAborted(signal);
+
+      // Polling delivers the initial state, and catches up after the event stream drops
+      const results = await this.poll(options);
+      for (const result of results) {
+        if (result.status === 'fulfilled' && isNew(result.value)) {
+          attempt = 0;
+          yield result.value;
+        }
+      }
+      for (const result of results) {
+        if (result.status === 'rejected' && !isTransientSequencerError(result.reason)) {
+          throw result.reason;
+        }
+      }
+
+      if (this.transport !== 'polling' && this.pushSupported !== false) {
+        try {
+          const events = this.sequencer.streamStatusEvents(
+            options.processId,
+            { voteIds: options.voteIds, stats: options.stats },
+            signal
+          );
+          for await (const update of events) {
+            this.pushSupported = true;
+            attempt = 0;
+            if (isNew(update)) yield update;
+          }
+        } catch (error) {
+          if (isPushUnsupported(error)) {
+            if (this.transport === 'push') throw error;
+            this.pushSupported = false;
+          } else if (!isTransientSequencerError(error)) {
+            throw error;
+          }
+        }
+      }
+
+      // A fixed interval when the maximum is the initial interval
+      const delay =
+        maxPollIntervalMs > pollIntervalMs
+          ? backoffDelay(pollIntervalMs, maxPollIntervalMs, attempt, this.random)
+          : pollIntervalMs;
+      await sleep(delay, signal);
+      attempt++;
+    }
+  }
+
+  /**
+   * Request the status of every vote and the statistics, a few at a time, settling each
+   * request on its own so that one failure does not discard the other updates
+   */
+  private async poll(
+    options: StatusSubscriptionOptions
+  ): Promise<PromiseSettledResult<StatusUpdate>[]> {
+    const { processId, signal } = options;
+    const requests = (options.voteIds ?? []).map(voteId => async (): Promise<StatusUpdate> => {
+      const { status } = await this.sequencer.getVoteStatus(processId, voteId, signal);
+      return { type: 'vote-status', processId, voteId, status };
+    });
+    if (options.stats) {
+      requests.push(async () => {
+        const process = await this.sequencer.getProcess(processId, signal);
+        return { type: 'process-stats', processId, stats: process.sequencerStats };
+      });
+    }
+
+    const results: PromiseSettledResult<StatusUpdate>[] = [];
+    await runWithConcurrency(requests, STATUS_POLL_CONCURRENCY, async (request, index) => {
+      try {
+        results[index] = { status: 'fulfilled', value: await request() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    });
+    return results;
+  }
+}
+
+/**
+ * Delay before the next poll: the base interval doubled on each attempt up to the
+ * maximum, with equal jitter (between half and all of it)
+ * @internal
+ */
+export function backoffDelay(
+  baseMs: number,
+  maxMs: number,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(maxMs, baseMs * 2 ** attempt);
+  return delay / 2 + (random() * delay) / 2;
+}
+
+function isPushUnsupported(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'number' && PUSH_UNSUPPORTED_CODES.includes(code);
+}
@@ -1,4 +1,8 @@
 import { Signer, Wallet } from 'ethers';
+import type { GetProcessResponse } from './types';
+
+// The sequencer reports the duration as a Go time.Duration, in nanoseconds
+const NANOSECONDS_PER_MILLISECOND = 1_000_000;
 
 /**
  * Creates the signature message for process creation.
@@ -35,3 +39,15 @@ export function validateProcessId(processId: string): boolean {
   const cleanId = processId.replace(/^0x/, '');
   return /^[0-9a-fA-F]{62}$/.test(cleanId);
 }
+
+/**
+ * Converts the sequencer process start time and nanosecond duration into a voting window.
+ * @param process - The process start time (ISO 8601) and duration (nanoseconds)
+ * @returns The start and end of the voting period, in milliseconds since the epoch
+ */
+export function getProcessVotingWindow(
+  process: Pick<GetProcessResponse, 'startTime' | 'duration'>
+): { startTime: number; endTime: number } {
+  const startTime = new Date(process.startTime).getTime();
+  return { startTime, endTime: startTime + process.duration / NANOSECONDS_PER_MILLISECOND };
+}
@@ -105,6 +105,37 @@ export interface VoteStatusResponse {
   status: VoteStatus;
 }
 
+/**
+ * Sequencer statistics of a process
+ */
+export type ProcessSequencerStats = GetProcessResponse['sequencerStats'];
+
+/**
+ * An update delivered by a status subscription
+ */
+export type StatusUpdate =
+  | { type: 'vote-status'; processId: string; voteId: string; status: VoteStatus }
+  | { type: 'process-stats'; processId: string; stats: ProcessSequencerStats };
+
+/**
+ * What a status event stream reports
+ */
+export interface StatusEventsRequest {
+  /** Votes whose status changes are reported */
+  voteIds?: string[];
+  /** Whether the process sequencer statistics are reported */
+  stats?: boolean;
+}
+
+/**
+ * Vote registered by an address in a process.
+ * The vote ID is only reported by some sequencer versions.
+ */
+export interface AddressVoteResponse {
+  voteId?: string;
+  [key: string]: unknown;
+}
+
 export interface ListProcessesResponse {
   processes: string[];
 }
@@ -4,3 +4,5 @@ export * from './types';
 
 export { DavinciCSP } from './DavinciCSP';
 export { BallotInputGenerator } from './BallotInputGenerator';
+export { StatusSubscriber } from './StatusSubscription';
+export type { StatusSubscriptionOptions, StatusTransport } from './StatusSubscription';
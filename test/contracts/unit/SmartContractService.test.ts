@@ -0,0 +1,204 @@
+import { FeeData, makeError, type BaseContract, type ContractTransactionResponse } from 'ethers';
+import { TxReplacedError } from '../../../src/contracts/errors';
+import {
+  checkTxOptions,
+  SmartContractService,
+  TxStatus,
+  type TxOverrides,
+  type SimulatableMethod,
+  type TxStatusEvent,
+} from '../../../src/contracts/SmartContractService';
+
+class TestContractService extends SmartContractService {
+  send(tx: unknown, confirmations?: number) {
+    return this.sendTx(
+      Promise.resolve(tx as ContractTransactionResponse),
+      () => Promise.resolve('done'),
+      confirmations
+    );
+  }
+
+  preflight(
+    contract: BaseContract,
+    method: SimulatableMethod,
+    args: unknown[],
+    overrides?: TxOverrides
+  ) {
+    return this.preflightTx(contract, method, args, overrides);
+  }
+}
+
+function contractWithFees(feeData: FeeData): BaseContract {
+  return { runner: { provider: { getFeeData: () => Promise.resolve(feeData) } } } as BaseContract;
+}
+
+function callException(info: Record<string, unknown>) {
+  return makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data: null,
+    reason: null,
+    transaction: { to: null, data: '0x' },
+    invocation: null,
+    revert: null,
+    ...info,
+  });
+}
+
+describe('SmartContractService.preflightTx', () => {
+  const service = new TestContractService();
+
+  it('estimates the gas and the maximum fee of a transaction that succeeds', async () => {
+    const method = {
+      staticCall: vi.fn().mockResolvedValue(undefined),
+      estimateGas: vi.fn().mockResolvedValue(21000n),
+    };
+    const contract = contractWithFees(new FeeData(null, 30n, 2n));
+
+    await expect(service.preflight(contract, method, ['0x01', 5])).resolves.toEqual({
+      success: true,
+      gasLimit: 21000n,
+      gasPrice: undefined,
+      maxFeePerGas: 30n,
+      maxPriorityFeePerGas: 2n,
+      maxFee: 630000n,
+    });
+    expect(method.staticCall).toHaveBeenCalledWith('0x01', 5);
+    expect(method.estimateGas).toHaveBeenCalledWith('0x01', 5);
+  });
+
+  it('simulates the transaction with its overrides', async () => {
+    const method = {
+      staticCall: vi.fn().mockResolvedValue(undefined),
+      estimateGas: vi.fn().mockResolvedValue(21000n),
+    };
+    const overrides = { gasLimit: 50000n, nonce: 7 };
+
+    await service.preflight(
+      contractWithFees(new FeeData(10n, null, null)),
+      method,
+      ['0x01'],
+      overrides
+    );
+
+    expect(method.staticCall).toHaveBeenCalledWith('0x01', overrides);
+    expect(method.estimateGas).toHaveBeenCalledWith('0x01', overrides);
+  });
+
+  it('decodes the revert reason without estimating gas', async () => {
+    const estimateGas = vi.fn();
+    const contract = contractWithFees(new FeeData(10n, null, null));
+    const preflight = (error: Error) =>
+      service.preflight(contract, { staticCall: () => Promise.reject(error), estimateGas }, []);
+
+    await expect(preflight(callException({ reason: 'process not found' }))).resolves.toEqual({
+      success: false,
+      revertReason: 'process not found',
+    });
+    await expect(
+      preflight(
+        callException({
+          revert: { signature: 'InvalidStatus(uint8)', name: 'InvalidStatus', args: [3n] },
+        })
+      )
+    ).resolves.toMatchObject({ revertReason: 'InvalidStatus(3)' });
+    expect(estimateGas).not.toHaveBeenCalled();
+    await expect(preflight(new Error('network down'))).rejects.toThrow('network down');
+  });
+
+  it('reports a revert of the gas estimate like a revert of the static call', async () => {
+    const contract = contractWithFees(new FeeData(10n, null, null));
+    const preflight = (error: Error) =>
+      service.preflight(
+        contract,
+        {
+          staticCall: vi.fn().mockResolvedValue(undefined),
+          estimateGas: () => Promise.reject(error),
+        },
+        []
+      );
+
+    await expect(preflight(callException({ reason: 'process already ended' }))).resolves.toEqual({
+      success: false,
+      revertReason: 'process already ended',
+    });
+    await expect(preflight(new Error('network down'))).rejects.toThrow('network down');
+  });
+});
+
+describe('SmartContractService.sendTx', () => {
+  const service = new TestContractService();
+
+  async function collect(stream: AsyncGenerator<TxStatusEvent<string>>) {
+    const events: TxStatusEvent<string>[] = [];
+    for await (const event of stream) {
+      events.push(event);
+    }
+    return events;
+  }
+
+  function replaced(reason: string, replacement: unknown) {
+    return makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+      cancelled: reason !== 'repriced',
+      reason: reason as 'repriced',
+      replacement: replacement as never,
+      hash: '0xb',
+      receipt: { status: 1 } as never,
+    });
+  }
+
+  it('keeps the default of a single confirmation without progress events', async () => {
+    const tx = { hash: '0xa', wait: vi.fn().mockResolvedValue({ status: 1 }) };
+
+    await expect(collect(service.send(tx))).resolves.toEqual([
+      { status: TxStatus.Pending, hash: '0xa' },
+      { status: TxStatus.Completed, response: 'done' },
+    ]);
+    expect(tx.wait).toHaveBeenCalledWith(1);
+  });
+
+  it('reports confirmation progress and follows a repriced transaction', async () => {
+    const replacement = { hash: '0xb', wait: vi.fn().mockResolvedValue({ status: 1 }) };
+    const tx = { hash: '0xa', wait: vi.fn().mockRejectedValue(replaced('repriced', replacement)) };
+
+    await expect(collect(service.send(tx, 2))).resolves.toEqual([
+      { status: TxStatus.Pending, hash: '0xa' },
+      { status: TxStatus.Replaced, hash: '0xa', replacementHash: '0xb', reason: 'repriced' },
+      { status: TxStatus.Confirming, hash: '0xb', confirmations: 1, required: 2 },
+      { status: TxStatus.Confirming, hash: '0xb', confirmations: 2, required: 2 },
+      { status: TxStatus.Completed, response: 'done' },
+    ]);
+    expect(replacement.wait).toHaveBeenCalledWith(2);
+  });
+
+  it('fails when the transaction is cancelled', async () => {
+    const tx = { hash: '0xa', wait: vi.fn().mockRejectedValue(replaced('cancelled', {})) };
+
+    const events = await collect(service.send(tx));
+
+    expect(events.map(event => event.status)).toEqual([
+      TxStatus.Pending,
+      TxStatus.Replaced,
+      TxStatus.Failed,
+    ]);
+    expect(events[1]).toMatchObject({ reason: 'cancelled', replacementHash: '0xb' });
+
+    const result = SmartContractService.executeTx(service.send(tx));
+    await expect(result).rejects.toBeInstanceOf(TxReplacedError);
+    await expect(result).rejects.toThrow('Transaction 0xa was cancelled by 0xb');
+  });
+});
+
+describe('checkTxOptions', () => {
+  it('accepts a positive integer number of confirmations', () => {
+    expect(() => checkTxOptions({})).not.toThrow();
+    expect(() => checkTxOptions({ confirmations: 3 })).not.toThrow();
+  });
+
+  it('rejects other numbers of confirmations', () => {
+    for (const confirmations of [0, -1, 1.5, NaN]) {
+      expect(() => checkTxOptions({ confirmations })).toThrow(
+        'confirmations must be a positive integer'
+      );
+    }
+  });
+});
@@ -1,4 +1,5 @@
 import { BaseService, RequestConfig } from '../../../../src/core/api/BaseService';
+import { AbortError } from '../../../../src/core/api/abort';
 
 class TestService extends BaseService {
   async makeRequest<T>(config: RequestConfig): Promise<T> {
@@ -32,4 +33,24 @@ describe('BaseService', () => {
     expect(response).toEqual({ ok: true });
     expect(fetchMock).toHaveBeenCalledTimes(1);
   });
+
+  it('fails with an AbortError when cancelled and with ECONNABORTED on timeout', async () => {
+    const fetchImpl = ((_url: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () =>
+          reject(new DOMException('This operation was aborted', 'AbortError'))
+        );
+      })) as typeof fetch;
+    const service = new TestService('https://sequencer.example.com', { fetchImpl });
+    const timedOut = new TestService('https://sequencer.example.com', { fetchImpl, timeoutMs: 1 });
+
+    const controller = new AbortController();
+    const cancelled = service.makeRequest({ url: '/ping', signal: controller.signal });
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(AbortError);
+    await expect(timedOut.makeRequest({ url: '/ping' })).rejects.toMatchObject({
+      code: 'ECONNABORTED',
+    });
+  });
 });
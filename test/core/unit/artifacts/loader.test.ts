@@ -0,0 +1,177 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { sha256 } from 'ethers';
+import {
+  CircuitArtifactLoader,
+  CircuitArtifactProgress,
+} from '../../../../src/core/artifacts/loader';
+import {
+  FileSystemArtifactStore,
+  InMemoryArtifactStore,
+} from '../../../../src/core/artifacts/store';
+import type { InfoResponse } from '../../../../src/sequencer/api/types';
+
+const wasm = new Uint8Array([1, 2, 3]);
+const zkey = new Uint8Array([4, 5, 6, 7]);
+const vkey = new TextEncoder().encode('{"protocol":"groth16"}');
+
+function hashOf(bytes: Uint8Array): string {
+  return sha256(bytes).slice(2);
+}
+
+function info(overrides: Partial<InfoResponse> = {}): InfoResponse {
+  return {
+    circuitUrl: 'https://artifacts.example/circuit.wasm',
+    circuitHash: hashOf(wasm),
+    provingKeyUrl: 'https://artifacts.example/proving_key.zkey',
+    provingKeyHash: hashOf(zkey),
+    verificationKeyUrl: 'https://artifacts.example/verification_key.json',
+    verificationKeyHash: hashOf(vkey),
+    networks: {},
+    sequencerAddress: '0x',
+    ...overrides,
+  };
+}
+
+function fakeFetch(files: Record<string, Uint8Array>) {
+  return vi.fn((input: RequestInfo | URL) => {
+    const body = files[String(input)];
+    return Promise.resolve(
+      body
+        ? new Response(body, { headers: { 'content-length': String(body.length) } })
+        : new Response(null, { status: 404 })
+    );
+  });
+}
+
+const files = {
+  'https://artifacts.example/circuit.wasm': wasm,
+  'https://artifacts.example/proving_key.zkey': zkey,
+  'https://artifacts.example/verification_key.json': vkey,
+};
+
+describe('CircuitArtifactLoader', () => {
+  it('downloads, verifies and stores artifacts keyed by hash', async () => {
+    const store = new InMemoryArtifactStore();
+    const fetchImpl = fakeFetch(files);
+    const loader = new CircuitArtifactLoader({ store, fetchImpl });
+    const onProgress = vi.fn<(progress: CircuitArtifactProgress) => void>();
+
+    expect(await loader.load(info(), 'provingKey', onProgress)).toEqual(zkey);
+    expect(await loader.load(info(), 'provingKey', onProgress)).toEqual(zkey);
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(await store.keys()).toEqual([hashOf(zkey)]);
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { artifact: 'provingKey', status: 'downloading', loadedBytes: 4, totalBytes: 4 },
+      { artifact: 'provingKey', status: 'downloaded', loadedBytes: 4 },
+      { artifact: 'provingKey', status: 'cached', loadedBytes: 4 },
+    ]);
+  });
+
+  it('reuses stored artifacts across loaders and replaces corrupted ones', async () => {
+    const store = new InMemoryArtifactStore();
+    await store.put(hashOf(wasm), wasm);
+    await store.put(hashOf(zkey), new Uint8Array([9]));
+    const fetchImpl = fakeFetch(files);
+    const loader = new CircuitArtifactLoader({ store, fetchImpl });
+
+    expect(await loader.load(info(), 'circuit')).toEqual(wasm);
+    expect(fetchImpl).not.toHaveBeenCalled();
+
+    expect(await loader.load(info(), 'provingKey')).toEqual(zkey);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(await store.get(hashOf(zkey))).toEqual(zkey);
+  });
+
+  it('rejects artifacts that do not match their hash', async () => {
+    const loader = new CircuitArtifactLoader({ fetchImpl: fakeFetch(files) });
+
+    await expect(loader.load(info({ circuitHash: hashOf(zkey) }), 'circuit')).rejects.toThrow(
+      'Hash verification failed for circuit.wasm'
+    );
+    await expect(
+      loader.load(info({ circuitUrl: 'https://artifacts.example/missing' }), 'circuit')
+    ).rejects.toThrow('Failed to fetch circuit.wasm');
+  });
+
+  it('fails clearly when the sequencer does not advertise the artifact hash or URL', async () => {
+    const fetchImpl = fakeFetch(files);
+    const withoutHash = { ...info(), circuitHash: undefined } as unknown as InfoResponse;
+    const withoutUrl = { ...info(), circuitUrl: undefined } as unknown as InfoResponse;
+
+    await expect(
+      new CircuitArtifactLoader({ fetchImpl }).load(withoutHash, 'circuit')
+    ).rejects.toThrow('Cannot verify circuit.wasm: the sequencer does not advertise circuitHash');
+    await expect(
+      new CircuitArtifactLoader({ fetchImpl }).load(withoutUrl, 'circuit')
+    ).rejects.toThrow('Cannot fetch circuit.wasm: the sequencer does not advertise circuitUrl');
+    expect(fetchImpl).not.toHaveBeenCalled();
+
+    const unverified = new CircuitArtifactLoader({ verify: false, fetchImpl });
+    expect(await unverified.load(withoutHash, 'circuit')).toEqual(wasm);
+  });
+
+  it('evicts artifacts of circuits no longer advertised', async () => {
+    const store = new InMemoryArtifactStore();
+    const loader = new CircuitArtifactLoader({ store, fetchImpl: fakeFetch(files) });
+    await loader.load(info(), 'circuit');
+    await loader.load(info(), 'provingKey');
+
+    const updatedZkey = new Uint8Array([8, 8]);
+    const updated = new CircuitArtifactLoader({
+      store,
+      fetchImpl: fakeFetch({ ...files, 'https://artifacts.example/proving_key.zkey': updatedZkey }),
+    });
+    expect(await updated.load(info({ provingKeyHash: hashOf(updatedZkey) }), 'provingKey')).toEqual(
+      updatedZkey
+    );
+
+    expect((await store.keys()).sort()).toEqual([hashOf(wasm), hashOf(updatedZkey)].sort());
+  });
+
+  it('downloads an artifact once for concurrent loads', async () => {
+    const fetchImpl = fakeFetch(files);
+    const loader = new CircuitArtifactLoader({ fetchImpl });
+
+    const [first, second] = await Promise.all([
+      loader.load(info(), 'verificationKey'),
+      loader.load(info(), 'verificationKey'),
+    ]);
+
+    expect(first).toBe(second);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('FileSystemArtifactStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'davinci-artifacts-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores, lists and deletes artifacts', async () => {
+    const store = new FileSystemArtifactStore({ directory: join(directory, 'cache') });
+
+    expect(await store.keys()).toEqual([]);
+    expect(await store.get('abc')).toBeUndefined();
+
+    await store.put('abc', wasm);
+    expect(await store.get('abc')).toEqual(wasm);
+    expect(await store.keys()).toEqual(['abc']);
+
+    await store.delete('abc');
+    expect(await store.keys()).toEqual([]);
+  });
+
+  it('rejects keys that are not plain file names', async () => {
+    const store = new FileSystemArtifactStore({ directory });
+    await expect(store.put('../escape', wasm)).rejects.toThrow('Invalid artifact key');
+  });
+});
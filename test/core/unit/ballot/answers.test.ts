@@ -0,0 +1,77 @@
+import { answersToChoices } from '../../../../src/core/ballot/answers';
+import type { BallotMode } from '../../../../src/core/types';
+import type { ProcessQuestion } from '../../../../src/core/process/ProcessOrchestrationService';
+
+function question(values: number[]): ProcessQuestion {
+  return {
+    title: 'Question',
+    choices: values.map(value => ({ title: `Choice ${value}`, value })),
+  };
+}
+
+function ballot(numFields: number, groupSize?: number): BallotMode {
+  return {
+    numFields,
+    groupSize,
+    maxValue: '10',
+    minValue: '0',
+    uniqueValues: false,
+    costExponent: 1,
+    maxValueSum: '10',
+    minValueSum: '0',
+  };
+}
+
+describe('answersToChoices', () => {
+  it('places single choice answers in their question group', () => {
+    const questions = [question([0, 1]), question([0, 1, 2])];
+    expect(answersToChoices({ 0: 1, 1: 2 }, ballot(6, 3), questions)).toEqual([0, 1, 0, 0, 0, 1]);
+  });
+
+  it('leaves unanswered questions blank', () => {
+    const questions = [question([0, 1]), question([0, 1])];
+    expect(answersToChoices({ 1: 0 }, ballot(4, 2), questions)).toEqual([0, 0, 1, 0]);
+  });
+
+  it('maps choice values rather than positions', () => {
+    const questions = [question([10, 20, 30])];
+    expect(answersToChoices({ 0: [30, 10] }, ballot(3), questions)).toEqual([1, 0, 1]);
+  });
+
+  it('accepts amounts per choice value', () => {
+    const questions = [question([0, 1, 2])];
+    expect(answersToChoices({ 0: { 0: 4, 2: 3 } }, ballot(3), questions)).toEqual([4, 0, 3]);
+  });
+
+  it('reports answers that do not fit the ballot', () => {
+    const questions = [question([0, 1])];
+
+    expect(() => answersToChoices({ 1: 0 }, ballot(2), questions)).toThrow(
+      'Answer for question 1 does not match any of the 1 process questions'
+    );
+    expect(() => answersToChoices({ 0: 5 }, ballot(2), questions)).toThrow(
+      'Question 0 has no choice with value 5'
+    );
+    expect(() => answersToChoices({ 0: { 1: -1 } }, ballot(2), questions)).toThrow(
+      'must be a non-negative integer'
+    );
+    expect(() => answersToChoices({ 0: 0 }, ballot(3), [...questions, ...questions])).toThrow(
+      'but the ballot has 3'
+    );
+  });
+
+  it('writes the selected value when the ballot has one field per question', () => {
+    // numFields 1, maxValue '1': yes/no with values 0 and 1
+    expect(answersToChoices({ 0: 1 }, ballot(1), [question([0, 1])])).toEqual([1]);
+
+    // numFields 2, maxValue '3': two questions with four choices each
+    const questions = [question([0, 1, 2, 3]), question([0, 1, 2, 3])];
+    expect(answersToChoices({ 0: 3, 1: [2] }, ballot(2), questions)).toEqual([3, 2]);
+    expect(() => answersToChoices({ 0: [1, 2] }, ballot(2), questions)).toThrow(
+      'Question 0 takes a single choice value'
+    );
+    expect(() => answersToChoices({ 1: 4 }, ballot(2), questions)).toThrow(
+      'Question 1 has no choice with value 4'
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  approvalBallot,
+  budgetBallot,
+  multipleChoiceBallot,
+  quadraticBallot,
+  singleChoiceBallot,
+} from '../../../../src/core/ballot/presets';
+import { ElectionResultsTypeNames } from '../../../../src/core/types/metadata';
+import type { ProcessQuestion } from '../../../../src/core/process/ProcessOrchestrationService';
+
+function question(numChoices: number, title = 'Question'): ProcessQuestion {
+  return {
+    title,
+    choices: Array.from({ length: numChoices }, (_, i) => ({ title: `Choice ${i}`, value: i })),
+  };
+}
+
+describe('Ballot presets', () => {
+  describe('singleChoiceBallot', () => {
+    it('encodes one field per choice and requires one answer per question', () => {
+      const preset = singleChoiceBallot({ questions: [question(3)] });
+
+      expect(preset.ballot).toEqual({
+        numFields: 3,
+        groupSize: 3,
+        maxValue: '1',
+        minValue: '0',
+        uniqueValues: false,
+        costExponent: 1,
+        maxValueSum: '1',
+        minValueSum: '1',
+      });
+      expect(preset.type).toEqual({
+        name: ElectionResultsTypeNames.SINGLE_CHOICE_MULTIQUESTION,
+        properties: {},
+      });
+    });
+
+    it('groups multiple questions using the largest choice count', () => {
+      const preset = singleChoiceBallot({
+        questions: [question(2, 'Q1'), question(3, 'Q2')],
+        allowBlank: true,
+      });
+
+      expect(preset.ballot.numFields).toBe(6);
+      expect(preset.ballot.groupSize).toBe(3);
+      expect(preset.ballot.maxValueSum).toBe('2');
+      expect(preset.ballot.minValueSum).toBe('0');
+      expect(preset.questions).toHaveLength(2);
+    });
+
+    it('rejects ballots exceeding the circuit capacity', () => {
+      expect(() => singleChoiceBallot({ questions: [question(5), question(5)] })).toThrow(
+        'circuit supports at most 8'
+      );
+    });
+
+    it('rejects duplicated choice values', () => {
+      const q = question(2);
+      q.choices[1].value = 0;
+      expect(() => singleChoiceBallot({ questions: [q] })).toThrow('duplicated choice values');
+    });
+  });
+
+  describe('multipleChoiceBallot', () => {
+    it('limits the number of selected choices', () => {
+      const preset = multipleChoiceBallot({ question: question(5), minChoices: 1, maxChoices: 3 });
+
+      expect(preset.ballot).toMatchObject({
+        numFields: 5,
+        maxValue: '1',
+        maxValueSum: '3',
+        minValueSum: '1',
+      });
+      expect(preset.type).toEqual({
+        name: ElectionResultsTypeNames.MULTIPLE_CHOICE,
+        properties: {
+          repeatChoice: false,
+          numChoices: { min: 1, max: 3 },
+          canAbstain: false,
+          abstainValues: [],
+        },
+      });
+    });
+
+    it('allows repeated choices up to maxChoices per field', () => {
+      const preset = multipleChoiceBallot({
+        question: question(3),
+        maxChoices: 4,
+        repeatChoice: true,
+      });
+      expect(preset.ballot.maxValue).toBe('4');
+    });
+
+    it('validates abstain values against the question choices', () => {
+      const preset = multipleChoiceBallot({
+        question: question(4),
+        canAbstain: true,
+        abstainValues: [3],
+      });
+      expect(preset.type.properties).toMatchObject({ canAbstain: true, abstainValues: ['3'] });
+
+      expect(() =>
+        multipleChoiceBallot({ question: question(4), canAbstain: true, abstainValues: [7] })
+      ).toThrow('Abstain value 7');
+      expect(() => multipleChoiceBallot({ question: question(4), abstainValues: [1] })).toThrow(
+        'canAbstain'
+      );
+    });
+  });
+
+  it('approvalBallot accepts or rejects each choice', () => {
+    const preset = approvalBallot({ question: question(6), minApprovals: 3, maxApprovals: 3 });
+
+    expect(preset.ballot).toMatchObject({
+      numFields: 6,
+      maxValue: '1',
+      minValue: '0',
+      maxValueSum: '3',
+      minValueSum: '3',
+      costExponent: 1,
+    });
+    expect(preset.type).toEqual({
+      name: ElectionResultsTypeNames.APPROVAL,
+      properties: { rejectValue: 0, acceptValue: 1 },
+    });
+    expect(() => approvalBallot({ question: question(2), maxApprovals: 3 })).toThrow(
+      'maxApprovals'
+    );
+  });
+
+  it('budgetBallot distributes a budget among choices', () => {
+    const preset = budgetBallot({ question: question(4), budget: 100, forceFullBudget: true });
+
+    expect(preset.ballot).toMatchObject({
+      numFields: 4,
+      maxValue: '100',
+      maxValueSum: '100',
+      minValueSum: '100',
+      costExponent: 1,
+    });
+    expect(preset.type).toEqual({
+      name: ElectionResultsTypeNames.BUDGET,
+      properties: {
+        useCensusWeightAsBudget: false,
+        maxBudget: 100,
+        minStep: 1,
+        forceFullBudget: true,
+      },
+    });
+  });
+
+  describe('quadraticBallot', () => {
+    it('sizes maxValue from the credits and cost exponent', () => {
+      const preset = quadraticBallot({ question: question(3), credits: 12 });
+
+      expect(preset.ballot).toMatchObject({
+        numFields: 3,
+        maxValue: '3',
+        maxValueSum: '12',
+        minValueSum: '0',
+        costExponent: 2,
+      });
+      expect(preset.type).toEqual({
+        name: ElectionResultsTypeNames.QUADRATIC,
+        properties: {
+          useCensusWeightAsBudget: false,
+          maxBudget: 12,
+          minStep: 1,
+          forceFullBudget: false,
+          quadraticCost: 2,
+        },
+      });
+    });
+
+    it('scales maxValue by the largest census weight', () => {
+      const preset = quadraticBallot({ question: question(2), credits: 10, maxWeight: 10 });
+      expect(preset.ballot.maxValue).toBe('10');
+      expect(preset.type.properties).toMatchObject({ useCensusWeightAsBudget: true });
+    });
+
+    it('rejects a linear cost exponent', () => {
+      expect(() =>
+        quadraticBallot({ question: question(2), credits: 10, quadraticCost: 1 })
+      ).toThrow('quadraticCost');
+    });
+  });
+});
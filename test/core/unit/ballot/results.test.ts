@@ -0,0 +1,147 @@
+import { decodeResults, type QuestionTally } from '../../../../src/core/ballot/results';
+import { getBallotLayout } from '../../../../src/core/ballot/layout';
+import type { BallotMode } from '../../../../src/core/types';
+import type { ProcessQuestion } from '../../../../src/core/process/ProcessOrchestrationService';
+
+function question(numChoices: number, title = 'Question'): ProcessQuestion {
+  return {
+    title,
+    choices: Array.from({ length: numChoices }, (_, i) => ({ title: `Choice ${i}`, value: i })),
+  };
+}
+
+function ballot(numFields: number, groupSize?: number): BallotMode {
+  return {
+    numFields,
+    groupSize,
+    maxValue: '1',
+    minValue: '0',
+    uniqueValues: false,
+    costExponent: 1,
+    maxValueSum: '1',
+    minValueSum: '0',
+  };
+}
+
+describe('Ballot layout', () => {
+  it('starts each question at a multiple of groupSize', () => {
+    const layout = getBallotLayout(ballot(6, 3), [question(2), question(3)]);
+    expect(layout.map(q => q.fields)).toEqual([
+      [0, 1],
+      [3, 4, 5],
+    ]);
+  });
+
+  it('lays questions out sequentially without grouping', () => {
+    const layout = getBallotLayout(ballot(5), [question(2), question(3)]);
+    expect(layout.map(q => q.offset)).toEqual([0, 2]);
+  });
+
+  it('rejects questions that do not fit the ballot', () => {
+    expect(() => getBallotLayout(ballot(3), [question(2), question(2)])).toThrow(
+      'but the ballot has 3'
+    );
+    expect(() => getBallotLayout(ballot(6, 2), [question(3), question(1)])).toThrow(
+      'groups 2 fields per question'
+    );
+  });
+
+  it('uses one field per question when the ballot has exactly one field per question', () => {
+    const layout = getBallotLayout(ballot(2), [question(4), question(4)]);
+    expect(layout.map(q => [q.kind, q.offset])).toEqual([
+      ['value-per-question', 0],
+      ['value-per-question', 1],
+    ]);
+    expect(layout[1].fields).toEqual([1, 1, 1, 1]);
+
+    expect(getBallotLayout(ballot(2), [question(1), question(1)])[1].kind).toBe('field-per-choice');
+  });
+});
+
+function decodeChoiceResults(...args: Parameters<typeof decodeResults>): QuestionTally[] {
+  const tallies = decodeResults(...args);
+  expect(tallies.every(tally => tally.layout === 'field-per-choice')).toBe(true);
+  return tallies as QuestionTally[];
+}
+
+describe('decodeResults', () => {
+  it('computes totals, percentages and the winner per question', () => {
+    const [tally] = decodeChoiceResults([10n, 30n, 0n], ballot(3), [question(3)]);
+
+    expect(tally.total).toBe(40n);
+    expect(tally.choices.map(c => [c.field, c.total, c.percentage])).toEqual([
+      [0, 10n, 25],
+      [1, 30n, 75],
+      [2, 0n, 0],
+    ]);
+    expect(tally.winner?.title).toBe('Choice 1');
+    expect(tally.tie).toBe(false);
+  });
+
+  it('decodes grouped multi-question results', () => {
+    const tallies = decodeChoiceResults(['1', '2', '0', '7', '0', '3'], ballot(6, 3), [
+      question(2, 'Q1'),
+      question(3, 'Q2'),
+    ]);
+
+    expect(tallies.map(t => t.title)).toEqual(['Q1', 'Q2']);
+    expect(tallies[0].choices.map(c => c.total)).toEqual([1n, 2n]);
+    expect(tallies[1].choices.map(c => c.total)).toEqual([7n, 0n, 3n]);
+    expect(tallies[1].winner?.value).toBe(0);
+  });
+
+  it('reports ties and questions without votes', () => {
+    const [tied] = decodeChoiceResults([5n, 5n, 1n], ballot(3), [question(3)]);
+    expect(tied.winner).toBeNull();
+    expect(tied.tie).toBe(true);
+
+    const [empty] = decodeChoiceResults([0n, 0n], ballot(2), [question(2)]);
+    expect(empty.winner).toBeNull();
+    expect(empty.tie).toBe(false);
+    expect(empty.choices.every(c => c.percentage === 0)).toBe(true);
+  });
+});
+
+describe('decodeResults with one field per question', () => {
+  it('reports the weighted sum of the selected values of a yes/no process', () => {
+    // numFields 1, maxValue '1': the field holds 0 (Yes) or 1 (No)
+    const yesNo: ProcessQuestion = {
+      title: 'Do you approve this proposal?',
+      choices: [
+        { title: 'Yes', value: 0 },
+        { title: 'No', value: 1 },
+      ],
+    };
+
+    expect(decodeResults([3n], ballot(1), [yesNo])).toEqual([
+      {
+        layout: 'value-per-question',
+        title: 'Do you approve this proposal?',
+        description: undefined,
+        choices: [
+          { title: 'Yes', value: 0 },
+          { title: 'No', value: 1 },
+        ],
+        field: 0,
+        valueSum: 3n,
+      },
+    ]);
+  });
+
+  it('decodes one field per question for multi-question processes', () => {
+    // numFields 2, maxValue '3': two questions with four choices each
+    const tallies = decodeResults(['5', '9'], { ...ballot(2), maxValue: '3', maxValueSum: '6' }, [
+      question(4, 'Language'),
+      question(4, 'Editor'),
+    ]);
+
+    expect(tallies.map(tally => [tally.layout, tally.title])).toEqual([
+      ['value-per-question', 'Language'],
+      ['value-per-question', 'Editor'],
+    ]);
+    expect(tallies.map(tally => tally.layout === 'value-per-question' && tally.valueSum)).toEqual([
+      5n,
+      9n,
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { sha256, toUtf8Bytes } from 'ethers';
+import {
+  checkMetadataHash,
+  extractMetadataHash,
+  MetadataHashMismatchError,
+} from '../../../../src/core/metadata/hash';
+import { loadElectionMetadata } from '../../../../src/core/metadata/loader';
+import { AbortError } from '../../../../src/core/api/abort';
+import { getElectionMetadataTemplate } from '../../../../src/core/types/metadata';
+
+function metadataHash(content: string): string {
+  return `0x01551220${sha256(toUtf8Bytes(content)).slice(2)}`;
+}
+
+describe('Metadata content hash', () => {
+  const content = JSON.stringify(getElectionMetadataTemplate());
+  const hash = metadataHash(content);
+
+  it('extracts the hash from bare hashes and sequencer URLs', () => {
+    expect(extractMetadataHash(hash)).toBe(hash);
+    expect(extractMetadataHash(`https://sequencer.example/metadata/${hash.toUpperCase()}`)).toBe(
+      hash.toLowerCase()
+    );
+    expect(extractMetadataHash('https://example.org/election.json')).toBeNull();
+  });
+
+  it('checks the raw content against the hash', () => {
+    expect(checkMetadataHash(content, hash)).toEqual({ result: 'match', hash });
+    expect(checkMetadataHash(content.replace('Yes', 'No'), hash)).toMatchObject({
+      result: 'mismatch',
+      hash,
+    });
+  });
+
+  it('does not verify unknown hash prefixes', () => {
+    const unknown = `0xffffffff${hash.slice(10)}`;
+    expect(checkMetadataHash(content, unknown).result).toBe('unverifiable');
+  });
+
+  describe('loadElectionMetadata', () => {
+    const uri = `https://sequencer.example/metadata/${hash}`;
+
+    it('reports verified metadata', async () => {
+      const loaded = await loadElectionMetadata(uri, () => Promise.resolve(content));
+
+      expect(loaded.metadata?.version).toBe('1.2');
+      expect(loaded.status).toEqual({
+        status: 'ok',
+        version: '1.2',
+        migrated: false,
+        hashVerified: true,
+      });
+    });
+
+    it('keeps tampered metadata and reports the mismatch, or throws in strict mode', async () => {
+      const tampered = () => Promise.resolve(content.replace('Yes', 'No'));
+
+      const loaded = await loadElectionMetadata(uri, tampered);
+      expect(loaded.metadata?.questions[0].choices[0].title.default).toBe('No');
+      expect(loaded.status).toMatchObject({
+        status: 'ok',
+        hashVerified: false,
+        hashMismatch: { expected: hash },
+      });
+
+      await expect(loadElectionMetadata(uri, tampered, { strict: true })).rejects.toBeInstanceOf(
+        MetadataHashMismatchError
+      );
+    });
+
+    it('reports missing metadata', async () => {
+      const loaded = await loadElectionMetadata(uri, () => Promise.reject(new Error('404')));
+      expect(loaded.status).toEqual({ status: 'missing', reason: 'Failed to fetch metadata: 404' });
+      expect((await loadElectionMetadata('', vi.fn())).status.status).toBe('missing');
+    });
+
+    it('fails with an AbortError instead of reporting cancelled fetches as missing', async () => {
+      const controller = new AbortController();
+      const fetchRaw = vi.fn((_uri: string, signal?: AbortSignal) => {
+        controller.abort();
+        return Promise.reject(signal?.reason);
+      });
+
+      await expect(
+        loadElectionMetadata(uri, fetchRaw, { signal: controller.signal })
+      ).rejects.toBeInstanceOf(AbortError);
+      expect(fetchRaw).toHaveBeenCalledWith(uri, controller.signal);
+    });
+  });
+});
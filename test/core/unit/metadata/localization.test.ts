@@ -0,0 +1,37 @@
+import { pickLanguage, toMultiLanguage } from '../../../../src/core/metadata/localization';
+import type { MultiLanguage } from '../../../../src/core/types/metadata';
+
+describe('Localization helpers', () => {
+  it('stores plain strings as the default language', () => {
+    expect(toMultiLanguage('Title')).toEqual({ default: 'Title' });
+    expect(toMultiLanguage(undefined)).toEqual({ default: '' });
+    expect(toMultiLanguage({ default: 'Title', es: 'Título' })).toEqual({
+      default: 'Title',
+      es: 'Título',
+    });
+  });
+
+  it('requires a default translation', () => {
+    // e.g. translations loaded from a file without a "default" entry
+    const translations: Record<string, string> = { es: 'Título' };
+
+    expect(() => toMultiLanguage(translations as MultiLanguage<string>)).toThrow(
+      '"default" translation'
+    );
+  });
+
+  it('picks the first available preferred language', () => {
+    const text = { default: 'Title', es: 'Título', ca: 'Títol' };
+
+    expect(pickLanguage(text, 'ca')).toBe('Títol');
+    expect(pickLanguage(text, ['fr', 'es'])).toBe('Título');
+    expect(pickLanguage(text, 'fr')).toBe('Title');
+  });
+
+  it('uses the fallback language before default', () => {
+    const text = { default: 'Title', en: 'English title', es: '' };
+
+    expect(pickLanguage(text, 'es', 'en')).toBe('English title');
+    expect(pickLanguage(undefined, 'en')).toBe('');
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  createMetadataStorageRouter,
+  HttpMetadataStorage,
+  InMemoryMetadataStorage,
+  IpfsMetadataStorage,
+  MetadataStorageRouter,
+  SequencerMetadataStorage,
+} from '../../../../src/core/metadata/storage';
+import { VocdoniSequencerService } from '../../../../src/sequencer/SequencerService';
+import { loadElectionMetadata } from '../../../../src/core/metadata/loader';
+import { getElectionMetadataTemplate } from '../../../../src/core/types/metadata';
+
+function okResponse(body = ''): Response {
+  return new Response(body, { status: 200 });
+}
+
+describe('Metadata storage', () => {
+  const metadata = getElectionMetadataTemplate();
+
+  it('stores and resolves metadata in memory with a verifiable hash', async () => {
+    const storage = new InMemoryMetadataStorage();
+    const uri = await storage.put(metadata);
+
+    expect(uri).toMatch(/^memory:\/\/0x01551220[0-9a-f]{64}$/);
+    const loaded = await loadElectionMetadata(uri, u => storage.get(u));
+    expect(loaded.status).toMatchObject({ status: 'ok', hashVerified: true });
+    await expect(storage.get('memory://unknown')).rejects.toThrow('Metadata not found');
+  });
+
+  it('uploads to an HTTP server addressed by hash', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(okResponse());
+    const storage = new HttpMetadataStorage({
+      baseUrl: 'https://metadata.example.org/elections/',
+      headers: { Authorization: 'Bearer token' },
+      fetchImpl,
+    });
+
+    const uri = await storage.put(metadata);
+
+    expect(uri).toMatch(/^https:\/\/metadata\.example\.org\/elections\/0x01551220/);
+    expect(fetchImpl).toHaveBeenCalledWith(uri, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer token' },
+      body: JSON.stringify(metadata),
+    });
+    await expect(new HttpMetadataStorage({ fetchImpl }).put(metadata)).rejects.toThrow(
+      'requires a baseUrl'
+    );
+  });
+
+  it('resolves ipfs URIs through the gateway and pins new documents', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(okResponse('{}'));
+    const pin = vi.fn().mockResolvedValue('bafkreicid');
+    const storage = new IpfsMetadataStorage({ gateway: 'https://gw.example/', pin, fetchImpl });
+
+    const { signal } = new AbortController();
+
+    expect(await storage.put(metadata)).toBe('ipfs://bafkreicid');
+    expect(await storage.get('ipfs://bafkreicid', signal)).toBe('{}');
+    expect(fetchImpl).toHaveBeenCalledWith('https://gw.example/ipfs/bafkreicid', { signal });
+  });
+
+  it('routes URIs by scheme and stores in the default backend', async () => {
+    const memory = new InMemoryMetadataStorage();
+    const ipfs = new IpfsMetadataStorage({ fetchImpl: vi.fn() });
+    const router = new MetadataStorageRouter(memory, { ipfs });
+
+    expect(router.resolve('ipfs://cid')).toBe(ipfs);
+    expect(router.resolve('IPFS://cid')).toBe(ipfs);
+    expect(router.resolve('https://example.org/metadata')).toBe(memory);
+    expect(router.resolve('0x1234')).toBe(memory);
+
+    const uri = await router.put(metadata);
+    expect(await router.get(uri)).toBe(JSON.stringify(metadata));
+  });
+
+  describe('createMetadataStorageRouter', () => {
+    const sequencer = new VocdoniSequencerService('https://sequencer.example');
+    const sequencerUri = `https://sequencer.example/metadata/0x01551220${'ab'.repeat(32)}`;
+
+    it('keeps http(s) URIs on the sequencer with a custom default backend', () => {
+      const memory = new InMemoryMetadataStorage();
+      const router = createMetadataStorageRouter(sequencer, memory);
+
+      expect(router.resolve(sequencerUri)).toBeInstanceOf(SequencerMetadataStorage);
+      expect(router.resolve('http://example.org/metadata')).toBeInstanceOf(
+        SequencerMetadataStorage
+      );
+      expect(router.resolve('memory://0x1234')).toBe(memory);
+      expect(router.resolve('ipfs://cid')).toBeInstanceOf(IpfsMetadataStorage);
+    });
+
+    it('resolves through the default backend when it handles the scheme', () => {
+      const ipfs = new IpfsMetadataStorage({ gateway: 'https://gw.example' });
+      const http = new HttpMetadataStorage({ headers: { Authorization: 'Bearer token' } });
+
+      expect(createMetadataStorageRouter(sequencer, ipfs).resolve('ipfs://cid')).toBe(ipfs);
+      expect(createMetadataStorageRouter(sequencer, ipfs).resolve(sequencerUri)).toBeInstanceOf(
+        SequencerMetadataStorage
+      );
+      expect(createMetadataStorageRouter(sequencer, http).resolve(sequencerUri)).toBe(http);
+    });
+
+    it('lets configured schemes override the routes', () => {
+      const ipfs = new IpfsMetadataStorage({ gateway: 'https://gw.example' });
+      const router = createMetadataStorageRouter(sequencer, undefined, { ipfs });
+
+      expect(router.resolve('ipfs://cid')).toBe(ipfs);
+      expect(router.resolve('0x1234')).toBeInstanceOf(SequencerMetadataStorage);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  metadataToMedia,
+  metadataToQuestions,
+  processConfigToMetadata,
+} from '../../../../src/core/metadata/transform';
+import { parseElectionMetadata } from '../../../../src/core/metadata/validation';
+import { CensusOrigin } from '../../../../src/census/types';
+import type { ProcessConfigWithMetadata } from '../../../../src/core/process/ProcessOrchestrationService';
+
+function config(overrides: Partial<ProcessConfigWithMetadata> = {}): ProcessConfigWithMetadata {
+  return {
+    title: 'Election',
+    census: {
+      type: CensusOrigin.OffchainStatic,
+      root: '0x' + 'ab'.repeat(32),
+      size: 10,
+      uri: 'ipfs://census',
+    },
+    ballot: {
+      numFields: 3,
+      maxValue: '1',
+      minValue: '0',
+      uniqueValues: false,
+      costExponent: 1,
+      maxValueSum: '1',
+      minValueSum: '0',
+    },
+    timing: { duration: 3600 },
+    questions: [
+      {
+        title: 'Question',
+        numAbstains: 1,
+        meta: { section: 'budget' },
+        choices: [
+          { title: 'Yes', value: 0, meta: { color: 'green' } },
+          { title: 'No', value: 1 },
+          { title: 'Abstain', value: 2 },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+// Stores and fetches the metadata as the sequencer or IPFS would
+function roundTrip(processConfig: ProcessConfigWithMetadata) {
+  const parsed = parseElectionMetadata(
+    JSON.parse(JSON.stringify(processConfigToMetadata(processConfig)))
+  );
+  if (!parsed.valid) {
+    throw new Error(parsed.errors.join('; '));
+  }
+  return parsed.metadata;
+}
+
+describe('processConfigToMetadata', () => {
+  it('round-trips media, free-form meta and abstains', () => {
+    const metadata = roundTrip(
+      config({
+        media: { header: 'https://example.com/header.png', logo: 'https://example.com/logo.png' },
+        meta: { organizer: 'City council', tags: ['budget', '2026'] },
+      })
+    );
+
+    expect(metadata.questions[0].numAbstains).toBe('1');
+    expect(metadataToMedia(metadata)).toEqual({
+      header: 'https://example.com/header.png',
+      logo: 'https://example.com/logo.png',
+    });
+    expect(metadata.meta).toEqual({ organizer: 'City council', tags: ['budget', '2026'] });
+    expect(metadataToQuestions(metadata)).toEqual([
+      {
+        title: 'Question',
+        description: '',
+        numAbstains: 1,
+        meta: { section: 'budget' },
+        choices: [
+          { title: 'Yes', value: 0, meta: { color: 'green' } },
+          { title: 'No', value: 1, meta: {} },
+          { title: 'Abstain', value: 2, meta: {} },
+        ],
+      },
+    ]);
+  });
+
+  it('leaves media unset and omits numAbstains when not configured', () => {
+    const metadata = roundTrip(
+      config({
+        media: { logo: 'https://example.com/logo.png' },
+        questions: [{ title: 'Question', choices: [{ title: 'Yes', value: 0 }] }],
+      })
+    );
+
+    expect(metadataToMedia(metadata)).toEqual({
+      header: undefined,
+      logo: 'https://example.com/logo.png',
+    });
+    expect(metadataToQuestions(metadata)[0].numAbstains).toBeUndefined();
+    expect(metadataToMedia(roundTrip(config()))).toEqual({ header: undefined, logo: undefined });
+  });
+
+  it('rejects numAbstains beyond the number of choices', () => {
+    const question = { title: 'Question', numAbstains: 2, choices: [{ title: 'Yes', value: 0 }] };
+
+    expect(() => processConfigToMetadata(config({ questions: [question] }))).toThrow(
+      'questions[0].numAbstains must be an integer between 0 and the number of choices'
+    );
+  });
+});
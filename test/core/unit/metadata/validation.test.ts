@@ -0,0 +1,97 @@
+import {
+  migrateElectionMetadata,
+  parseElectionMetadata,
+  validateElectionMetadata,
+} from '../../../../src/core/metadata/validation';
+import {
+  ElectionResultsTypeNames,
+  getElectionMetadataTemplate,
+} from '../../../../src/core/types/metadata';
+
+describe('Election metadata validation', () => {
+  it('accepts the current metadata template', () => {
+    const parsed = parseElectionMetadata(getElectionMetadataTemplate());
+
+    expect(parsed).toMatchObject({ valid: true, version: '1.2', migrated: false });
+  });
+
+  it('upgrades version 1.1 documents to the current shape', () => {
+    const legacy = {
+      version: '1.1',
+      title: 'Legacy election',
+      questions: [{ title: 'Question', choices: [{ title: 'Yes', value: 0 }] }],
+    };
+
+    const parsed = parseElectionMetadata(legacy);
+
+    expect(parsed.valid).toBe(true);
+    if (!parsed.valid) return;
+    expect(parsed.version).toBe('1.1');
+    expect(parsed.migrated).toBe(true);
+    expect(parsed.metadata).toMatchObject({
+      version: '1.2',
+      title: { default: 'Legacy election' },
+      description: { default: '' },
+      media: { header: '', logo: '' },
+      questions: [{ title: { default: 'Question' }, choices: [{ title: { default: 'Yes' } }] }],
+      type: { name: ElectionResultsTypeNames.SINGLE_CHOICE_MULTIQUESTION },
+    });
+  });
+
+  it('does not migrate current documents', () => {
+    const metadata = getElectionMetadataTemplate();
+    expect(migrateElectionMetadata(metadata)).toBe(metadata);
+  });
+
+  it('reports every problem with its path', () => {
+    const template = getElectionMetadataTemplate();
+    const [question] = template.questions;
+    const metadata: Record<string, unknown> = {
+      ...template,
+      title: 'plain',
+      questions: [
+        {
+          ...question,
+          numAbstains: 1,
+          choices: [question.choices[0], { ...question.choices[1], value: 0 }],
+        },
+      ],
+      type: { name: ElectionResultsTypeNames.APPROVAL, properties: { acceptValue: 1 } },
+    };
+
+    expect(validateElectionMetadata(metadata)).toEqual([
+      'title must be a multi-language object',
+      'questions[0].numAbstains must be a numeric string',
+      'questions[0].choices[1].value 0 is duplicated',
+      'type.properties.rejectValue must be a number',
+    ]);
+  });
+
+  it('accepts any JSON value as custom question and choice meta', () => {
+    const template = getElectionMetadataTemplate();
+    const [question] = template.questions;
+    const metadata: Record<string, unknown> = {
+      ...template,
+      questions: [
+        {
+          ...question,
+          meta: ['budget'],
+          choices: [{ ...question.choices[0], meta: 'green' }, question.choices[1]],
+        },
+      ],
+    };
+
+    expect(validateElectionMetadata(metadata)).toEqual([]);
+  });
+
+  it('rejects unsupported versions and non-objects', () => {
+    expect(parseElectionMetadata({ version: '2.0' })).toEqual({
+      valid: false,
+      errors: ['unsupported metadata version "2.0"'],
+    });
+    expect(parseElectionMetadata(null)).toEqual({
+      valid: false,
+      errors: ['metadata must be an object'],
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { OffchainCensus } from '../../../../src/census/classes/OffchainCensus';
+import { CensusOrigin } from '../../../../src/census/types';
+import { approvalBallot, quadraticBallot } from '../../../../src/core/ballot/presets';
+import {
+  ProcessConfigValidationError,
+  validateProcessConfig,
+} from '../../../../src/core/process/ProcessConfigValidation';
+import type { ProcessConfig } from '../../../../src/core/process/ProcessOrchestrationService';
+
+const now = Date.parse('2026-01-01T12:00:00Z');
+
+function config(overrides: Partial<ProcessConfig> = {}): ProcessConfig {
+  return {
+    title: 'Election',
+    census: {
+      type: CensusOrigin.OffchainStatic,
+      root: '0x' + 'ab'.repeat(32),
+      size: 10,
+      uri: 'ipfs://census',
+    },
+    maxVoters: 10,
+    ballot: {
+      numFields: 1,
+      maxValue: '2',
+      minValue: '0',
+      uniqueValues: false,
+      costExponent: 1,
+      maxValueSum: '2',
+      minValueSum: '0',
+    },
+    timing: { duration: 3600 },
+    questions: [
+      {
+        title: 'Question',
+        choices: [
+          { title: 'A', value: 0 },
+          { title: 'B', value: 1 },
+          { title: 'C', value: 2 },
+        ],
+      },
+    ],
+    ...overrides,
+  } as ProcessConfig;
+}
+
+const question = {
+  title: 'Proposals',
+  choices: [
+    { title: 'A', value: 0 },
+    { title: 'B', value: 1 },
+    { title: 'C', value: 2 },
+  ],
+};
+
+describe('validateProcessConfig', () => {
+  it('accepts consistent configurations, including ballot presets', () => {
+    expect(validateProcessConfig(config(), { now })).toEqual({
+      valid: true,
+      errors: [],
+      warnings: [],
+    });
+    expect(
+      validateProcessConfig(config(approvalBallot({ question, maxApprovals: 2 })), { now }).valid
+    ).toBe(true);
+    expect(
+      validateProcessConfig(config(quadraticBallot({ question, credits: 9 })), { now }).valid
+    ).toBe(true);
+  });
+
+  it('reports every error at once', () => {
+    const validation = validateProcessConfig(
+      config({
+        census: { type: CensusOrigin.OffchainStatic, root: 'root', size: 10, uri: '' },
+        maxVoters: undefined,
+        ballot: {
+          numFields: 1,
+          maxValue: '1',
+          minValue: '0',
+          uniqueValues: false,
+          costExponent: 1,
+          maxValueSum: '1',
+          minValueSum: '2',
+        },
+        timing: { startDate: '2025-12-31T00:00:00Z', endDate: '2025-12-30T00:00:00Z' },
+      }),
+      { now }
+    );
+
+    expect(validation.valid).toBe(false);
+    expect(validation.errors.map(issue => issue.field)).toEqual([
+      'ballot.minValueSum',
+      'ballot.minValueSum',
+      'questions[0].choices[2].value',
+      'census.root',
+      'census.uri',
+      'maxVoters',
+      'timing.startDate',
+      'timing.endDate',
+    ]);
+  });
+
+  it('checks that the choices fit in the ballot fields', () => {
+    const { errors } = validateProcessConfig(
+      config({
+        ...approvalBallot({ question }),
+        questions: [{ ...question, choices: [...question.choices, { title: 'D', value: 3 }] }],
+      }),
+      { now }
+    );
+
+    expect(errors.map(issue => issue.field)).toEqual(['questions']);
+    expect(errors[0].message).toContain('needs fields up to 4');
+  });
+
+  it('warns about short processes and maxVoters below the census size', () => {
+    const census = new OffchainCensus();
+    census.add(['0x' + '11'.repeat(20), '0x' + '22'.repeat(20), '0x' + '33'.repeat(20)]);
+
+    const validation = validateProcessConfig(
+      config({ census, maxVoters: 2, timing: { duration: 60 } }),
+      { now }
+    );
+
+    expect(validation.valid).toBe(true);
+    expect(validation.warnings.map(issue => issue.field)).toEqual(['maxVoters', 'timing']);
+    expect(validateProcessConfig(config({ census, maxVoters: undefined }), { now }).valid).toBe(
+      true
+    );
+  });
+
+  it('lists the errors in the thrown error', () => {
+    const { errors } = validateProcessConfig(config({ maxVoters: 0 }), { now });
+
+    expect(new ProcessConfigValidationError(errors).message).toBe(
+      'Invalid process configuration: maxVoters: maxVoters must be a positive integer'
+    );
+  });
+});
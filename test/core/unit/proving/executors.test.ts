@@ -0,0 +1,95 @@
+import { NodeWorkerProvingExecutor } from '../../../../src/core/proving/worker';
+import type { ProvingArtifact, ProvingRequest } from '../../../../src/core/proving/executor';
+import type { ProofInputs } from '../../../../src/sequencer/types';
+
+// Stand-in for snarkjs inside the worker: echoes the artifact sizes, or never settles
+const FAKE_SNARKJS = `data:text/javascript,${encodeURIComponent(`
+export const groth16 = {
+  fullProve(inputs, wasm, zkey) {
+    if (inputs.process_id === 'hang') return new Promise(() => {});
+    if (inputs.process_id === 'fail') return Promise.reject(new Error('bad witness'));
+    return Promise.resolve({
+      proof: { protocol: 'groth16' },
+      publicSignals: [String(wasm.length), String(zkey.length)],
+    });
+  },
+};
+`)}`;
+
+function artifact(key: string, size: number): ProvingArtifact & { load: ReturnType<typeof vi.fn> } {
+  return { key, load: vi.fn(() => Promise.resolve(new Uint8Array(size))) };
+}
+
+function request(processId: string, wasm = artifact('wasm-1', 3), zkey = artifact('zkey-1', 5)) {
+  return {
+    inputs: { process_id: processId } as ProofInputs,
+    wasm,
+    zkey,
+  } satisfies ProvingRequest;
+}
+
+describe('NodeWorkerProvingExecutor', () => {
+  let executor: NodeWorkerProvingExecutor;
+
+  beforeEach(() => {
+    executor = new NodeWorkerProvingExecutor({ snarkjs: FAKE_SNARKJS });
+  });
+
+  afterEach(() => {
+    executor.terminate();
+  });
+
+  it('transfers artifacts once and reuses them for later proofs', async () => {
+    const wasm = artifact('wasm-1', 3);
+    const zkey = artifact('zkey-1', 5);
+    const bytes = new Uint8Array(3);
+    wasm.load.mockResolvedValueOnce(bytes);
+
+    const first = await executor.prove(request('0x01', wasm, zkey));
+    const second = await executor.prove(request('0x02', wasm, zkey));
+
+    expect(first).toEqual({ proof: { protocol: 'groth16' }, publicSignals: ['3', '5'] });
+    expect(second.publicSignals).toEqual(['3', '5']);
+    expect(wasm.load).toHaveBeenCalledTimes(1);
+    expect(zkey.load).toHaveBeenCalledTimes(1);
+    expect(bytes.byteLength).toBe(0);
+  });
+
+  it('sends new artifacts when their key changes', async () => {
+    await executor.prove(request('0x01'));
+    const wasm = artifact('wasm-2', 7);
+
+    const result = await executor.prove(request('0x02', wasm));
+
+    expect(result.publicSignals).toEqual(['7', '5']);
+    expect(wasm.load).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports proving errors', async () => {
+    await expect(executor.prove(request('fail'))).rejects.toThrow(
+      'Proof generation failed: bad witness'
+    );
+  });
+
+  it('cancels a running proof and restarts the worker', async () => {
+    const controller = new AbortController();
+    const reason = new Error('cancelled');
+    const hanging = executor.prove(request('hang'), controller.signal);
+    setTimeout(() => controller.abort(reason), 50);
+
+    await expect(hanging).rejects.toBe(reason);
+
+    const zkey = artifact('zkey-1', 5);
+    const result = await executor.prove(request('0x01', artifact('wasm-1', 3), zkey));
+    expect(result.publicSignals).toEqual(['3', '5']);
+    expect(zkey.load).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start proofs that are already cancelled', async () => {
+    const wasm = artifact('wasm-1', 3);
+    await expect(
+      executor.prove(request('0x01', wasm), AbortSignal.abort(new Error('cancelled')))
+    ).rejects.toThrow('cancelled');
+    expect(wasm.load).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { BallotBuilder } from '../../../../src/crypto/BallotBuilder';
+import { BallotInputGenerator } from '../../../../src/sequencer/BallotInputGenerator';
+import { BallotChallengeError, verifyBallotAudit } from '../../../../src/core/vote/BallotChallenge';
+import {
+  choiceBallotMode,
+  createVoteService,
+  encryptionKey,
+  processId,
+  processState,
+} from './fixtures';
+
+const otherKey = { x: '1', y: '2' };
+
+describe('ballot challenges', () => {
+  let builder: BallotBuilder;
+  let generator: BallotInputGenerator;
+
+  beforeAll(async () => {
+    builder = await BallotBuilder.build();
+    generator = new BallotInputGenerator();
+    await generator.init();
+  });
+
+  function createService() {
+    return createVoteService({ process: { ballotMode: choiceBallotMode }, generator });
+  }
+
+  it('reveals audited ballots, which verify and can no longer be cast', async () => {
+    const { orchestrator, sequencer } = createService();
+    const ballot = await orchestrator.encryptBallot({ processId, choices: [2, 1] });
+
+    const audit = ballot.audit();
+    expect(audit).toMatchObject({ choices: [2, 1], fingerprint: ballot.fingerprint });
+    expect(ballot.audited).toBe(true);
+    await expect(ballot.cast()).rejects.toThrow(BallotChallengeError);
+    expect(sequencer.submitVote).not.toHaveBeenCalled();
+
+    await expect(verifyBallotAudit(audit, { builder, encryptionKey })).resolves.toEqual({
+      ciphertextsMatch: true,
+      fingerprintMatches: true,
+      voteIdMatches: true,
+      encryptionKeyMatches: true,
+      valid: true,
+      reasons: [],
+    });
+  });
+
+  it('reports audits that do not encrypt the revealed choices', async () => {
+    const { orchestrator } = createService();
+    const audit = (await orchestrator.encryptBallot({ processId, choices: [2, 1] })).audit();
+
+    const verification = await verifyBallotAudit(
+      { ...audit, choices: [1, 2] },
+      { builder, encryptionKey: otherKey }
+    );
+
+    expect(verification.valid).toBe(false);
+    expect(verification.reasons).toEqual([
+      'ballot was not encrypted with the process encryption key',
+      'ciphertexts do not encrypt the revealed choices with the revealed randomness',
+    ]);
+  });
+
+  it('casts the encrypted ciphertexts once, with fresh randomness per ballot', async () => {
+    const { orchestrator, sequencer } = createService();
+    const audited = await orchestrator.encryptBallot({ processId, choices: [2, 1] });
+    audited.audit();
+    const ballot = await orchestrator.encryptBallot({ processId, choices: [2, 1] });
+    expect(ballot.voteId).not.toBe(audited.voteId);
+    expect(ballot.fingerprint).not.toBe(audited.fingerprint);
+
+    const result = await ballot.cast();
+
+    expect(result.voteId).toBe(ballot.voteId);
+    expect(sequencer.submitVote).toHaveBeenCalledWith(
+      expect.objectContaining({ voteId: ballot.voteId, ballot: ballot.ballot }),
+      undefined
+    );
+    await expect(ballot.cast()).rejects.toThrow('Ballot was already cast');
+    expect(() => ballot.audit()).toThrow('Cast ballots cannot be audited');
+  });
+
+  it('keeps a ballot sealed once it was sent, even if the cast then fails', async () => {
+    const { orchestrator, sequencer } = createService();
+    const ballot = await orchestrator.encryptBallot({ processId, choices: [2, 1] });
+    sequencer.getVoteStatus.mockRejectedValueOnce(new Error('status unavailable'));
+
+    await expect(ballot.cast()).rejects.toThrow('status unavailable');
+
+    expect(sequencer.submitVote).toHaveBeenCalledTimes(1);
+    expect(() => ballot.audit()).toThrow(BallotChallengeError);
+    await expect(ballot.cast()).rejects.toThrow('Ballot was already cast');
+    expect(sequencer.submitVote).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to cast a ballot once the process encryption key changed', async () => {
+    const { orchestrator, sequencer } = createService();
+    const ballot = await orchestrator.encryptBallot({ processId, choices: [2, 1] });
+    sequencer.getProcess.mockResolvedValue(
+      processState({
+        ballotMode: choiceBallotMode,
+        encryptionKey: {
+          x: '5299619240641551281634865583518297030282874472190772894086521144482721001553',
+          y: '16950150798460657717958625567821834550301663161624707787222815936182638968203',
+        },
+      })
+    );
+
+    await expect(ballot.cast()).rejects.toThrow('The process changed');
+    expect(sequencer.submitVote).not.toHaveBeenCalled();
+    // Nothing was sent, so the ballot can still be audited
+    expect(ballot.audit().voteId).toBe(ballot.voteId);
+    await expect(
+      orchestrator.encryptBallot({ processId, choices: [2, 1], randomness: '0x01' })
+    ).rejects.toThrow('fresh randomness');
+  });
+});
@@ -0,0 +1,165 @@
+import { Wallet } from 'ethers';
+import { BulkVoteService } from '../../../../src/core/vote/BulkVoteService';
+import { isTransientSequencerError } from '../../../../src/core/api/BaseService';
+import { AlreadyVotedError } from '../../../../src/core/vote/VoteOverwrite';
+import { VoteStatus } from '../../../../src/sequencer/api/types';
+import { createVoteService, processId, stubGenerator } from './fixtures';
+
+function sequencerError(code: number | string): Error {
+  return Object.assign(new Error(`sequencer error ${code}`), { code });
+}
+
+describe('isTransientSequencerError', () => {
+  it('retries timeouts, rate limiting and server errors only', () => {
+    expect(isTransientSequencerError(sequencerError('ECONNABORTED'))).toBe(true);
+    expect(isTransientSequencerError(sequencerError(429))).toBe(true);
+    expect(isTransientSequencerError(sequencerError(503))).toBe(true);
+    expect(isTransientSequencerError(sequencerError(40001))).toBe(false);
+    expect(isTransientSequencerError(sequencerError(400))).toBe(false);
+    expect(isTransientSequencerError(new Error('Invalid ballot'))).toBe(false);
+  });
+});
+
+describe('BulkVoteService', () => {
+  function createService() {
+    let nextVoteId = 1;
+    const { orchestrator, sequencer, executor } = createVoteService({
+      generator: stubGenerator(() => `0x0${nextVoteId++}`),
+    });
+    return { bulk: new BulkVoteService(orchestrator), sequencer, executor };
+  }
+
+  it('submits the votes of every signer with the shared prover', async () => {
+    const { bulk, sequencer, executor } = createService();
+    const wallets = [Wallet.createRandom(), Wallet.createRandom(), Wallet.createRandom()];
+    const onVote = vi.fn();
+
+    const report = await bulk.submitVotes(
+      wallets.map(signer => ({ signer, processId, choices: [1] })),
+      { concurrency: 2, onVote }
+    );
+
+    expect(report.failed).toEqual([]);
+    expect(report.succeeded.map(vote => vote.index)).toEqual([0, 1, 2]);
+    expect(report.succeeded.map(vote => vote.voterAddress)).toEqual(
+      wallets.map(wallet => wallet.address)
+    );
+    expect(executor.prove).toHaveBeenCalledTimes(3);
+    expect(sequencer.submitVote).toHaveBeenCalledTimes(3);
+    expect(onVote).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries transient errors and reports the other failures', async () => {
+    const { bulk, sequencer, executor } = createService();
+    sequencer.submitVote.mockRejectedValueOnce(sequencerError(503));
+    // The vote ID of the failed submission is unknown, so it is submitted again
+    sequencer.getVoteStatus.mockRejectedValueOnce(sequencerError(404));
+
+    const report = await bulk.submitVotes(
+      [
+        { signer: Wallet.createRandom(), processId, choices: [1] },
+        { signer: Wallet.createRandom(), processId, choices: [2] },
+      ],
+      { concurrency: 1, retryDelayMs: 1 }
+    );
+
+    expect(report.succeeded.map(vote => vote.index)).toEqual([0]);
+    expect(sequencer.submitVote).toHaveBeenCalledTimes(2);
+    expect(executor.prove).toHaveBeenCalledTimes(1);
+    expect(report.failed).toHaveLength(1);
+    expect(report.failed[0]).toMatchObject({ index: 1, attempts: 1 });
+    expect((report.failed[0].error as Error).message).toContain('Invalid ballot');
+  });
+
+  it('counts a retried submission whose vote ID the sequencer knows as submitted', async () => {
+    const { bulk, sequencer } = createService();
+    sequencer.submitVote.mockRejectedValueOnce(sequencerError('ECONNABORTED'));
+    sequencer.getVoteStatus.mockResolvedValue({ status: VoteStatus.Verified });
+
+    const report = await bulk.submitVotes(
+      [{ signer: Wallet.createRandom(), processId, choices: [1] }],
+      {
+        retryDelayMs: 1,
+      }
+    );
+
+    expect(report.failed).toEqual([]);
+    expect(report.succeeded[0].result).toMatchObject({
+      voteId: '0x01',
+      status: VoteStatus.Verified,
+    });
+    expect(sequencer.getVoteStatus).toHaveBeenCalledWith(processId, '0x01', undefined);
+    expect(sequencer.submitVote).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the previous vote ID when the retried vote cannot be looked up', async () => {
+    const { bulk, sequencer } = createService();
+    sequencer.submitVote.mockRejectedValueOnce(sequencerError('ECONNABORTED'));
+    sequencer.getVoteStatus.mockRejectedValueOnce(sequencerError(404));
+    sequencer.getAddressVote
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ voteId: '0x01' });
+
+    const report = await bulk.submitVotes(
+      [{ signer: Wallet.createRandom(), processId, choices: [1] }],
+      {
+        retryDelayMs: 1,
+      }
+    );
+
+    expect(report.failed).toEqual([]);
+    expect(report.succeeded[0].result).toMatchObject({
+      voteId: '0x01',
+      status: VoteStatus.Pending,
+    });
+    expect(sequencer.submitVote).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts the attempts of the prepare and submit steps separately', async () => {
+    const { bulk, sequencer } = createService();
+    sequencer.getProcess.mockRejectedValueOnce(sequencerError(503));
+    sequencer.getAddressVote.mockResolvedValueOnce(null).mockResolvedValueOnce({ voteId: '0x01' });
+
+    const report = await bulk.submitVotes(
+      [{ signer: Wallet.createRandom(), processId, choices: [1] }],
+      { retryDelayMs: 1 }
+    );
+
+    // A vote found on the first submission is not one of this engine's earlier attempts
+    expect(report.succeeded).toEqual([]);
+    expect(report.failed[0]).toMatchObject({ attempts: 1 });
+    expect(report.failed[0].error).toBeInstanceOf(AlreadyVotedError);
+    expect(sequencer.submitVote).not.toHaveBeenCalled();
+  });
+
+  it('waits until the submitted votes settle', async () => {
+    const { bulk, sequencer } = createService();
+    sequencer.getVoteStatus
+      .mockResolvedValueOnce({ status: VoteStatus.Pending })
+      .mockResolvedValueOnce({ status: VoteStatus.Pending })
+      .mockResolvedValueOnce({ status: VoteStatus.Settled })
+      .mockRejectedValueOnce(sequencerError(503))
+      .mockResolvedValue({ status: VoteStatus.Settled });
+
+    const report = await bulk.submitVotes(
+      [
+        { signer: Wallet.createRandom(), processId, choices: [1] },
+        { signer: Wallet.createRandom(), processId, choices: [0] },
+      ],
+      { concurrency: 1, waitUntilSettled: { pollIntervalMs: 1 } }
+    );
+
+    expect(report.succeeded.map(vote => vote.result.status)).toEqual([
+      VoteStatus.Settled,
+      VoteStatus.Settled,
+    ]);
+  });
+
+  it('rejects invalid concurrency limits', async () => {
+    const { bulk } = createService();
+    await expect(bulk.submitVotes([], { concurrency: 0 })).rejects.toThrow(
+      'concurrency must be a positive integer'
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { AlreadyVotedError, evaluateVoteOverwrite } from '../../../../src/core/vote/VoteOverwrite';
+import { VoteStatus } from '../../../../src/sequencer/api/types';
+import { createVoteService, processId, stubGenerator } from './fixtures';
+
+describe('evaluateVoteOverwrite', () => {
+  const overwrite = { previousVoteId: '0x01', votersCount: 5, overwrittenVotesCount: 1 };
+
+  it('confirms a settled vote that moved the overwritten votes count', () => {
+    const confirmation = evaluateVoteOverwrite('0x02', overwrite, VoteStatus.Settled, {
+      votersCount: '5',
+      overwrittenVotesCount: '2',
+    });
+
+    expect(confirmation).toEqual({
+      voteId: '0x02',
+      previousVoteId: '0x01',
+      status: VoteStatus.Settled,
+      settled: true,
+      votersCount: { before: 5, after: 5 },
+      overwrittenVotesCount: { before: 1, after: 2 },
+      confirmed: true,
+    });
+  });
+
+  it('does not confirm unsettled votes or unchanged counters', () => {
+    const counters = { votersCount: '5', overwrittenVotesCount: '2' };
+    expect(evaluateVoteOverwrite('0x02', overwrite, VoteStatus.Error, counters).confirmed).toBe(
+      false
+    );
+    expect(
+      evaluateVoteOverwrite('0x02', overwrite, VoteStatus.Settled, {
+        votersCount: '5',
+        overwrittenVotesCount: '1',
+      }).confirmed
+    ).toBe(false);
+  });
+});
+
+describe('VoteOrchestrationService overwrites', () => {
+  function createService(previousVote: { voteId?: string } | null) {
+    const service = createVoteService({
+      process: { votersCount: '3', overwrittenVotesCount: '0' },
+      generator: stubGenerator('0x02'),
+    });
+    service.sequencer.getAddressVote.mockResolvedValue(previousVote);
+    return service;
+  }
+
+  it('rejects a second vote unless overwrites are allowed', async () => {
+    const { orchestrator, sequencer } = createService({ voteId: '0x01' });
+
+    const error = await orchestrator
+      .submitVote({ processId, choices: [1] })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AlreadyVotedError);
+    expect(error).toMatchObject({ processId, previousVoteId: '0x01' });
+    expect(sequencer.submitVote).not.toHaveBeenCalled();
+
+    const result = await orchestrator.submitVote({
+      processId,
+      choices: [1],
+      allowOverwrite: true,
+    });
+    expect(result.overwrite).toEqual({
+      previousVoteId: '0x01',
+      votersCount: 3,
+      overwrittenVotesCount: 0,
+    });
+  });
+
+  it('leaves first votes unmarked even when overwrites are allowed', async () => {
+    const { orchestrator } = createService(null);
+
+    const result = await orchestrator.submitVote({
+      processId,
+      choices: [1],
+      allowOverwrite: true,
+    });
+
+    expect(result.overwrite).toBeUndefined();
+  });
+
+  it('remembers submitted vote IDs when the sequencer does not report them', async () => {
+    const { orchestrator, sequencer } = createService(null);
+    await orchestrator.submitVote({ processId, choices: [1] });
+
+    sequencer.getAddressVote.mockResolvedValue({});
+    const error = await orchestrator
+      .submitVote({ processId: processId.slice(2).toUpperCase(), choices: [0] })
+      .catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ name: 'AlreadyVotedError', previousVoteId: '0x02' });
+  });
+
+  it('checks prepared votes for a previous vote again before submitting', async () => {
+    const { orchestrator, sequencer } = createService(null);
+    const votePackage = await orchestrator.prepareVote({ processId, choices: [1] });
+
+    sequencer.getAddressVote.mockResolvedValue({ voteId: '0x01' });
+    await expect(orchestrator.submitPreparedVote(votePackage)).rejects.toBeInstanceOf(
+      AlreadyVotedError
+    );
+
+    const result = await orchestrator.submitPreparedVote({ ...votePackage, allowOverwrite: true });
+    expect(result.overwrite?.previousVoteId).toBe('0x01');
+  });
+
+  it('confirms the overwrite once the vote settled', async () => {
+    const { orchestrator, sequencer } = createService({ voteId: '0x01' });
+    const result = await orchestrator.submitVote({
+      processId,
+      choices: [1],
+      allowOverwrite: true,
+    });
+
+    sequencer.getVoteStatus.mockResolvedValue({ status: VoteStatus.Settled });
+    sequencer.getProcess.mockResolvedValue({ votersCount: '3', overwrittenVotesCount: '1' });
+
+    const confirmation = await orchestrator.confirmVoteOverwrite(result, { pollIntervalMs: 1 });
+    expect(confirmation).toMatchObject({ voteId: '0x02', settled: true, confirmed: true });
+
+    await expect(
+      orchestrator.confirmVoteOverwrite({ ...result, overwrite: undefined })
+    ).rejects.toThrow('did not replace a previous vote');
+  });
+});
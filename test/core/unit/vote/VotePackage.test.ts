@@ -0,0 +1,153 @@
+import {
+  checkVotePackage,
+  deserializeVotePackage,
+  serializeVotePackage,
+  VOTE_PACKAGE_VERSION,
+  VotePackage,
+  VotePackageError,
+} from '../../../../src/core/vote/VotePackage';
+import type { GetProcessResponse } from '../../../../src/sequencer/api/types';
+
+const ballotMode = {
+  numFields: 2,
+  groupSize: 2,
+  maxValue: '1',
+  minValue: '0',
+  uniqueValues: false,
+  costExponent: 1,
+  maxValueSum: '1',
+  minValueSum: '0',
+};
+
+const HOUR_NS = 3600 * 1_000_000_000;
+// Halfway through the voting window of the fixtures
+const NOW = Date.parse('2026-01-01T00:30:00.000Z');
+
+function votePackage(): VotePackage {
+  return {
+    version: VOTE_PACKAGE_VERSION,
+    request: {
+      processId: '0xabc',
+      ballot: { curveType: 'bjj_iden3', ciphertexts: [] },
+      ballotProof: {
+        pi_a: ['1', '2', '1'],
+        pi_b: [
+          ['1', '2'],
+          ['3', '4'],
+          ['1', '0'],
+        ],
+        pi_c: ['1', '2', '1'],
+        protocol: 'groth16',
+      },
+      ballotInputsHash: '123',
+      address: '0x0000000000000000000000000000000000000001',
+      signature: '0xsig',
+      voteId: '0x01',
+    },
+    process: {
+      encryptionKey: { x: '11', y: '22' },
+      ballotMode,
+      censusRoot: '0xroot',
+      startTime: '2026-01-01T00:00:00.000Z',
+      duration: HOUR_NS,
+    },
+    weight: '1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+function processState(overrides: Partial<GetProcessResponse> = {}): GetProcessResponse {
+  return {
+    id: 'ABC',
+    isAcceptingVotes: true,
+    encryptionKey: { x: '0xb', y: '22' },
+    ballotMode: { ...ballotMode, groupSize: undefined },
+    census: { censusOrigin: 1, censusRoot: '0xROOT', censusURI: 'ipfs://census' },
+    startTime: '2026-01-01T00:00:00Z',
+    duration: HOUR_NS,
+    ...overrides,
+  } as GetProcessResponse;
+}
+
+describe('VotePackage', () => {
+  it('round-trips through JSON', () => {
+    const pkg = votePackage();
+    expect(deserializeVotePackage(serializeVotePackage(pkg))).toEqual(pkg);
+  });
+
+  it('rejects malformed or unsupported packages', () => {
+    expect(() => deserializeVotePackage('not json')).toThrow(VotePackageError);
+    expect(() => deserializeVotePackage(JSON.stringify({ ...votePackage(), version: 2 }))).toThrow(
+      'unsupported package version 2'
+    );
+
+    const { request, ...rest } = votePackage();
+    const withoutSignature = { ...rest, request: { ...request, signature: undefined } };
+    expect(() => deserializeVotePackage(JSON.stringify(withoutSignature))).toThrow(
+      'request.signature is missing'
+    );
+  });
+
+  it('accepts a package matching the current process', () => {
+    expect(checkVotePackage(votePackage(), processState(), NOW)).toEqual([]);
+  });
+
+  it('accepts a package prepared before the voting window was recorded', () => {
+    const pkg = votePackage();
+    delete pkg.process.startTime;
+    delete pkg.process.duration;
+
+    expect(checkVotePackage(pkg, processState({ duration: 2 * HOUR_NS }), NOW)).toEqual([]);
+  });
+
+  it('reports every change that invalidates the package', () => {
+    const reasons = checkVotePackage(
+      votePackage(),
+      processState({
+        id: '0xdef',
+        isAcceptingVotes: false,
+        encryptionKey: { x: '12', y: '22' },
+        ballotMode: { ...ballotMode, maxValue: '2' },
+      }),
+      NOW
+    );
+
+    expect(reasons).toEqual([
+      'package was prepared for a different process',
+      'process is not currently accepting votes',
+      'process encryption key has changed',
+      'process ballot mode has changed (maxValue)',
+    ]);
+  });
+
+  it('reports a changed census root', () => {
+    const census = { censusOrigin: 1, censusRoot: '0xother', censusURI: 'ipfs://census' };
+
+    expect(checkVotePackage(votePackage(), processState({ census }), NOW)).toEqual([
+      'process census root has changed',
+    ]);
+  });
+
+  it('reports a changed start time or duration', () => {
+    const delayed = processState({ startTime: '2026-01-01T00:10:00Z' });
+    const extended = processState({ duration: 2 * HOUR_NS });
+
+    expect(checkVotePackage(votePackage(), delayed, NOW)).toEqual([
+      'process voting window has changed',
+    ]);
+    expect(checkVotePackage(votePackage(), extended, NOW)).toEqual([
+      'process voting window has changed',
+    ]);
+  });
+
+  it('reports a voting period that has not started or has ended', () => {
+    const pkg = votePackage();
+
+    expect(checkVotePackage(pkg, processState(), Date.parse('2025-12-31T23:59:59Z'))).toEqual([
+      'process voting period has not started',
+    ]);
+    expect(checkVotePackage(pkg, processState(), Date.parse('2026-01-01T01:00:00Z'))).toEqual([
+      'process voting period has ended',
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { Wallet } from 'ethers';
+import { BallotBuilder } from '../../../../src/crypto/BallotBuilder';
+import {
+  deriveVoteRandomness,
+  voteRandomnessMessage,
+} from '../../../../src/core/vote/VoteRandomness';
+import { createVoteService, processId, stubGenerator } from './fixtures';
+
+const otherProcessId = '0x' + 'cd'.repeat(31);
+const wallet = new Wallet('0x' + '11'.repeat(32));
+// BabyJubJub order (circomlibjs `babyjub.order`), which random scalars are reduced by
+const CURVE_ORDER = 21888242871839275222246405745257275088614511777268538073601725287587578984328n;
+
+describe('deriveVoteRandomness', () => {
+  let builder: BallotBuilder;
+
+  beforeAll(async () => {
+    builder = await BallotBuilder.build();
+  });
+
+  it('derives the same randomness again from the same wallet, process and nonce', async () => {
+    const derived = await deriveVoteRandomness(wallet, processId, { builder });
+
+    await expect(deriveVoteRandomness(wallet, processId, { builder })).resolves.toEqual(derived);
+    expect(derived.nonce).toBe(0);
+    expect(BigInt(derived.k)).toBeLessThan(CURVE_ORDER);
+    expect(BigInt(derived.voteId)).toBe(
+      BigInt(
+        builder.computeVoteID(
+          BigInt(processId).toString(),
+          BigInt(wallet.address).toString(),
+          derived.k
+        )
+      )
+    );
+
+    const others = await Promise.all([
+      deriveVoteRandomness(wallet, processId, { builder, nonce: 1 }),
+      deriveVoteRandomness(wallet, otherProcessId, { builder }),
+      deriveVoteRandomness(Wallet.createRandom(), processId, { builder }),
+    ]);
+    for (const other of others) {
+      expect(other.k).not.toBe(derived.k);
+    }
+  });
+
+  it('binds the signed message to the process, voter and nonce', () => {
+    const message = voteRandomnessMessage(
+      processId.toUpperCase().replace('0X', ''),
+      wallet.address.toLowerCase(),
+      2
+    );
+
+    expect(message).toContain(`Process: ${processId}`);
+    expect(message).toContain(`Voter: ${wallet.address}`);
+    expect(message).toContain('Nonce: 2');
+    expect(() => voteRandomnessMessage(processId, wallet.address, -1)).toThrow(
+      'nonce must be a non-negative integer'
+    );
+  });
+});
+
+describe('deterministic vote randomness', () => {
+  function createService(voteId = '0x01') {
+    const generator = stubGenerator(voteId);
+    return { ...createVoteService({ generator, signer: wallet }), generator };
+  }
+
+  it('encrypts the ballot with the randomness derived from the wallet', async () => {
+    const { orchestrator, generator } = createService();
+    const { k } = await orchestrator.deriveVoteRandomness(processId, { nonce: 3 });
+
+    await orchestrator.prepareVote({
+      processId,
+      choices: [1],
+      deterministicRandomness: { nonce: 3 },
+    });
+
+    expect(generator.generateInputs.mock.calls[0][6]).toBe(k);
+    await expect(
+      orchestrator.prepareVote({
+        processId,
+        choices: [1],
+        randomness: '0x01',
+        deterministicRandomness: true,
+      })
+    ).rejects.toThrow('Provide either randomness or deterministicRandomness, not both');
+  });
+
+  it('refuses to replace a deterministic vote with the same nonce', async () => {
+    const { voteId } = await deriveVoteRandomness(wallet, processId);
+    const { orchestrator, sequencer } = createService(voteId);
+    sequencer.getAddressVote.mockResolvedValue({ voteId });
+
+    await expect(
+      orchestrator.prepareVote({
+        processId,
+        choices: [1],
+        allowOverwrite: true,
+        deterministicRandomness: true,
+      })
+    ).rejects.toThrow('use another nonce to replace it');
+  });
+});
@@ -0,0 +1,144 @@
+import { BallotBuilder } from '../../../../src/crypto/BallotBuilder';
+import { BallotInputGenerator } from '../../../../src/sequencer/BallotInputGenerator';
+import {
+  createVoteReceipt,
+  decryptReceiptSecret,
+  encryptReceiptSecret,
+  verifyReceipt,
+  VoteReceipt,
+} from '../../../../src/core/vote/VoteReceipt';
+import { VOTE_PACKAGE_VERSION } from '../../../../src/core/vote/VotePackage';
+import { VoteStatus } from '../../../../src/sequencer/api/types';
+import { choiceBallotMode as ballotMode, encryptionKey, processId } from './fixtures';
+
+const voterAddress = '0x' + '12'.repeat(20);
+const password = 'correct horse battery staple';
+
+describe('vote receipts', () => {
+  let builder: BallotBuilder;
+  let receipt: VoteReceipt;
+
+  beforeAll(async () => {
+    builder = await BallotBuilder.build();
+    const generator = new BallotInputGenerator();
+    await generator.init();
+    const inputs = await generator.generateInputs(
+      processId.slice(2),
+      voterAddress.slice(2),
+      encryptionKey,
+      ballotMode,
+      [2, 1],
+      '1'
+    );
+
+    receipt = createVoteReceipt({
+      version: VOTE_PACKAGE_VERSION,
+      request: {
+        processId,
+        ballot: inputs.ballot,
+        ballotProof: {
+          pi_a: ['1', '2', '1'],
+          pi_b: [
+            ['1', '2'],
+            ['3', '4'],
+            ['1', '0'],
+          ],
+          pi_c: ['1', '2', '1'],
+          protocol: 'groth16',
+        },
+        ballotInputsHash: inputs.ballotInputsHash,
+        address: voterAddress,
+        signature: '0xsig',
+        voteId: inputs.voteId,
+      },
+      process: { encryptionKey, ballotMode, censusRoot: '0xroot' },
+      weight: '1',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      receiptSecret: await encryptReceiptSecret(
+        { k: inputs.circomInputs.k, choices: [2, 1] },
+        password
+      ),
+    });
+  });
+
+  function sequencer(status: VoteStatus = VoteStatus.Settled) {
+    return { getVoteStatus: vi.fn().mockResolvedValue({ status }) };
+  }
+
+  it('encrypts the receipt secret with the password', async () => {
+    const secret = { k: '1234567890123456789', choices: [1, 0] };
+    const encrypted = await encryptReceiptSecret(secret, password);
+
+    expect(encrypted).toMatchObject({ algorithm: 'AES-256-GCM', kdf: 'PBKDF2-SHA256' });
+    expect(JSON.stringify(encrypted)).not.toContain(secret.k);
+    await expect(decryptReceiptSecret(encrypted, password)).resolves.toEqual(secret);
+    await expect(decryptReceiptSecret(encrypted, 'wrong')).rejects.toThrow(
+      'wrong password or corrupted receipt'
+    );
+    await expect(encryptReceiptSecret(secret, '')).rejects.toThrow('must not be empty');
+  });
+
+  it('verifies a receipt with and without the password', async () => {
+    const publicCheck = await verifyReceipt(receipt, { sequencer: sequencer(), builder });
+    expect(publicCheck).toEqual({
+      inputsHashMatches: true,
+      status: VoteStatus.Settled,
+      valid: true,
+      reasons: [],
+    });
+
+    const voterCheck = await verifyReceipt(receipt, { sequencer: sequencer(), builder, password });
+    expect(voterCheck).toMatchObject({
+      valid: true,
+      voteIdMatches: true,
+      choicesMatch: true,
+      choices: [2, 1],
+    });
+  });
+
+  it('reports tampered receipts and votes the sequencer did not record', async () => {
+    const [first, ...rest] = receipt.ballot.ciphertexts;
+    const tampered: VoteReceipt = {
+      ...receipt,
+      ballot: { ...receipt.ballot, ciphertexts: [...rest, first] },
+    };
+    const unknownVote = {
+      getVoteStatus: vi
+        .fn()
+        .mockRejectedValue(Object.assign(new Error('vote not found'), { code: 40004 })),
+    };
+
+    const verification = await verifyReceipt(tampered, {
+      sequencer: unknownVote,
+      builder,
+      password,
+    });
+
+    expect(verification.valid).toBe(false);
+    expect(verification.voteIdMatches).toBe(true);
+    expect(verification.reasons).toEqual([
+      'ballot inputs hash does not match the receipt ballot',
+      'ballot ciphertexts do not encrypt the receipt choices',
+      `sequencer has no record of vote ${receipt.voteId}`,
+    ]);
+  });
+
+  it('reports a wrong password and rethrows transient sequencer errors', async () => {
+    const verification = await verifyReceipt(receipt, {
+      sequencer: sequencer(VoteStatus.Error),
+      builder,
+      password: 'wrong',
+    });
+    expect(verification.reasons).toEqual([
+      'Cannot decrypt the receipt secret: wrong password or corrupted receipt',
+      'sequencer reports the vote as failed',
+    ]);
+
+    const unavailable = {
+      getVoteStatus: vi.fn().mockRejectedValue(Object.assign(new Error('down'), { code: 503 })),
+    };
+    await expect(verifyReceipt(receipt, { sequencer: unavailable, builder })).rejects.toThrow(
+      'down'
+    );
+  });
+});
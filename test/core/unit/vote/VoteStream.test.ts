@@ -0,0 +1,167 @@
+import {
+  runVoteStages,
+  VoteStage,
+  VoteStageError,
+  VoteStageRunner,
+  VoteStreamEvent,
+} from '../../../../src/core/vote/VoteStream';
+import { AbortError } from '../../../../src/core/api/abort';
+import { VoteStatus } from '../../../../src/sequencer/api/types';
+import { createVoteService, processId } from './fixtures';
+
+async function collect<T>(
+  stream: AsyncGenerator<VoteStreamEvent, T>
+): Promise<{ events: VoteStreamEvent[]; result: T }> {
+  const events: VoteStreamEvent[] = [];
+  for (;;) {
+    const next = await stream.next();
+    if (next.done) return { events, result: next.value };
+    events.push(next.value);
+  }
+}
+
+describe('VoteStageRunner', () => {
+  it('yields stage events with timings and relays progress', async () => {
+    const runner = new VoteStageRunner();
+    async function* stages() {
+      const info = yield* runner.run(VoteStage.DownloadingCircuits, onProgress => {
+        onProgress({ artifact: 'provingKey', status: 'downloading', loadedBytes: 10 });
+        return Promise.resolve('info');
+      });
+      return info;
+    }
+
+    const { events, result } = await collect(stages());
+
+    expect(result).toBe('info');
+    expect(events.map(event => event.type)).toEqual([
+      'stage-started',
+      'download-progress',
+      'stage-completed',
+    ]);
+    expect(events[1]).toMatchObject({
+      stage: VoteStage.DownloadingCircuits,
+      progress: { artifact: 'provingKey', loadedBytes: 10 },
+    });
+    expect(runner.timings[VoteStage.DownloadingCircuits]).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports the failing stage and rethrows the original error when drained', async () => {
+    const runner = new VoteStageRunner();
+    const cause = new Error('census unavailable');
+    async function* stages() {
+      yield* runner.run(VoteStage.FetchingProcess, () => Promise.resolve());
+      yield* runner.run(VoteStage.FetchingCensusProof, () => Promise.reject(cause));
+    }
+
+    const error = await collect(stages()).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(VoteStageError);
+    expect(error).toMatchObject({
+      stage: VoteStage.FetchingCensusProof,
+      cause,
+      message: 'Vote failed while fetching census proof: census unavailable',
+    });
+    expect(Object.keys((error as VoteStageError).timings)).toEqual([VoteStage.FetchingProcess]);
+
+    await expect(runVoteStages(stages())).rejects.toBe(cause);
+  });
+
+  it('fails the running stage with an AbortError without waiting for its task', async () => {
+    const controller = new AbortController();
+    const runner = new VoteStageRunner(controller.signal);
+    const task = vi.fn(() => new Promise<void>(() => undefined));
+    async function* stages() {
+      yield* runner.run(VoteStage.Proving, task);
+      yield* runner.run(VoteStage.Signing, task);
+    }
+
+    const drained = runVoteStages(stages());
+    await vi.waitFor(() => expect(task).toHaveBeenCalledTimes(1));
+    controller.abort('navigated away');
+
+    const error = await drained.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error).toMatchObject({ cause: 'navigated away' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('VoteOrchestrationService.submitVoteStream', () => {
+  it('yields every stage in order and ends with the vote result', async () => {
+    const { orchestrator, sequencer } = createVoteService();
+
+    const { events, result } = await collect(
+      orchestrator.submitVoteStream({ processId, choices: [1] })
+    );
+
+    expect(events.filter(event => event.type === 'stage-started').map(e => e.stage)).toEqual([
+      VoteStage.FetchingProcess,
+      VoteStage.FetchingCensusProof,
+      VoteStage.BuildingInputs,
+      VoteStage.DownloadingCircuits,
+      VoteStage.Proving,
+      VoteStage.Signing,
+      VoteStage.Submitting,
+      VoteStage.FetchingStatus,
+    ]);
+    const last = events[events.length - 1];
+    expect(last).toMatchObject({ type: 'completed', result: { voteId: '0x01' } });
+    expect(last.type === 'completed' && Object.keys(last.timings)).toHaveLength(8);
+    expect(result.status).toBe(VoteStatus.Pending);
+    expect(sequencer.submitVote).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the original errors in submitVote', async () => {
+    const { orchestrator } = createVoteService();
+
+    await expect(orchestrator.submitVote({ processId, choices: [2] })).rejects.toThrow(
+      'Invalid ballot'
+    );
+    await expect(
+      collect(orchestrator.submitVoteStream({ processId, choices: [2] }))
+    ).rejects.toMatchObject({ stage: VoteStage.BuildingInputs });
+  });
+
+  it('cancels the proof generation and never submits a cancelled vote', async () => {
+    const { orchestrator, sequencer, executor } = createVoteService();
+    let proofSignal: AbortSignal | undefined;
+    executor.prove.mockImplementation((_request: unknown, signal?: AbortSignal) => {
+      proofSignal = signal;
+      return new Promise(() => undefined);
+    });
+    const controller = new AbortController();
+
+    const vote = orchestrator.submitVote({
+      processId,
+      choices: [1],
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(executor.prove).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(vote).rejects.toBeInstanceOf(AbortError);
+    expect(proofSignal?.aborted).toBe(true);
+    expect(sequencer.submitVote).not.toHaveBeenCalled();
+    expect(sequencer.getProcess).toHaveBeenCalledWith(processId, controller.signal);
+  });
+
+  it('stops watching the vote status when aborted', async () => {
+    const { orchestrator, sequencer } = createVoteService();
+    const controller = new AbortController();
+    const seen: VoteStatus[] = [];
+
+    const watching = (async () => {
+      for await (const info of orchestrator.watchVoteStatus(processId, '0x01', {
+        pollIntervalMs: 60000,
+        signal: controller.signal,
+      })) {
+        seen.push(info.status);
+      }
+    })();
+    await vi.waitFor(() => expect(seen).toEqual([VoteStatus.Pending]));
+    controller.abort();
+
+    await expect(watching).rejects.toBeInstanceOf(AbortError);
+    expect(sequencer.getVoteStatus).toHaveBeenCalledTimes(1);
+  });
+});
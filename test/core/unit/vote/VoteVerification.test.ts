@@ -0,0 +1,127 @@
+import { Wallet } from 'ethers';
+import { BallotBuilder } from '../../../../src/crypto/BallotBuilder';
+import { BallotInputGenerator } from '../../../../src/sequencer/BallotInputGenerator';
+import { verifyVoteRequest, voteIdMessage } from '../../../../src/core/vote/VoteVerification';
+import { VoteOrchestrationService } from '../../../../src/core/vote/VoteOrchestrationService';
+import type { VoteRequest } from '../../../../src/sequencer/api/types';
+import type { VocdoniApiService } from '../../../../src/core/api/ApiService';
+import { choiceBallotMode as ballotMode, encryptionKey, processId } from './fixtures';
+
+const verify = vi.hoisted(() => vi.fn());
+vi.mock('snarkjs', () => ({ groth16: { verify } }));
+
+const verificationKey = { protocol: 'groth16', curve: 'bn128' };
+const proof = { pi_a: ['1', '2', '1'], pi_b: [], pi_c: ['3', '4', '1'], protocol: 'groth16' };
+
+describe('verifyVoteRequest', () => {
+  let builder: BallotBuilder;
+  let generator: BallotInputGenerator;
+  const voter = Wallet.createRandom();
+
+  beforeAll(async () => {
+    builder = await BallotBuilder.build();
+    generator = new BallotInputGenerator();
+    await generator.init();
+  });
+
+  beforeEach(() => {
+    verify.mockReset();
+  });
+
+  async function createRequest(): Promise<VoteRequest> {
+    const inputs = await generator.generateInputs(
+      processId.slice(2),
+      voter.address.slice(2),
+      encryptionKey,
+      ballotMode,
+      [2, 1],
+      '3'
+    );
+    return {
+      processId,
+      ballot: inputs.ballot,
+      ballotProof: proof as unknown as VoteRequest['ballotProof'],
+      ballotInputsHash: inputs.ballotInputsHash,
+      address: voter.address,
+      signature: await voter.signMessage(voteIdMessage(inputs.voteId)),
+      voteId: inputs.voteId,
+    };
+  }
+
+  it('accepts a vote whose inputs hash, proof and signature check out', async () => {
+    verify.mockResolvedValue(true);
+    const request = await createRequest();
+
+    const verification = await verifyVoteRequest(request, {
+      process: { encryptionKey, ballotMode },
+      verificationKey,
+      weight: '3',
+      builder,
+    });
+
+    expect(verification).toEqual({
+      inputsHashMatches: true,
+      proofValid: true,
+      signatureValid: true,
+      valid: true,
+      reasons: [],
+    });
+    expect(verify).toHaveBeenCalledWith(verificationKey, [request.ballotInputsHash], proof);
+  });
+
+  it('reports every failed check', async () => {
+    verify.mockRejectedValue(new Error('invalid proof'));
+    const request = await createRequest();
+    const [first, ...rest] = request.ballot.ciphertexts;
+    const tampered: VoteRequest = {
+      ...request,
+      ballot: {
+        ...request.ballot,
+        ciphertexts: [{ ...first, c1: [first.c2[0], first.c1[1]] }, ...rest],
+      },
+      signature: await Wallet.createRandom().signMessage(voteIdMessage(request.voteId)),
+    };
+
+    const verification = await verifyVoteRequest(tampered, {
+      process: { encryptionKey, ballotMode },
+      verificationKey,
+      weight: '3',
+      builder,
+    });
+
+    expect(verification.valid).toBe(false);
+    expect(verification.reasons).toEqual([
+      'ballot inputs hash does not match the public inputs',
+      'ballot proof does not verify against the verification key',
+      'vote ID is not signed by the voter address',
+    ]);
+    // The proof is checked against the recomputed hash, not the one in the request
+    expect(verify.mock.calls[0][1]).not.toEqual([request.ballotInputsHash]);
+  });
+
+  it('reads missing process data and weight from the sequencer', async () => {
+    verify.mockResolvedValue(true);
+    const request = await createRequest();
+    const sequencer = {
+      getProcess: vi.fn().mockResolvedValue({ encryptionKey, ballotMode }),
+      getAddressWeight: vi.fn().mockResolvedValue('3'),
+    };
+    const orchestrator = new VoteOrchestrationService(
+      { sequencer } as unknown as VocdoniApiService,
+      () => Promise.resolve(generator),
+      voter
+    );
+
+    await expect(
+      orchestrator.verifyVoteRequest(request, { verificationKey })
+    ).resolves.toMatchObject({ valid: true });
+    expect(sequencer.getAddressWeight).toHaveBeenCalledWith(processId, voter.address, undefined);
+    await expect(
+      verifyVoteRequest(request, {
+        process: { encryptionKey, ballotMode },
+        verificationKey,
+        builder,
+      })
+    ).rejects.toThrow('The voter weight is required');
+  });
+});
@@ -0,0 +1,134 @@
+import { Wallet } from 'ethers';
+import { CensusOrigin } from '../../../../src/census/types';
+import { ProcessStatus } from '../../../../src/contracts/types';
+import {
+  evaluateVoterEligibility,
+  VoterIneligibilityReason,
+} from '../../../../src/core/vote/VoterEligibility';
+import { VoteOrchestrationService } from '../../../../src/core/vote/VoteOrchestrationService';
+import type { VocdoniApiService } from '../../../../src/core/api/ApiService';
+import type { BallotInputGenerator } from '../../../../src/sequencer/BallotInputGenerator';
+import { processId } from './fixtures';
+
+const wallet = new Wallet('0x' + '22'.repeat(32));
+const now = Date.parse('2026-01-01T12:00:00Z');
+const HOUR_NS = 3600 * 1e9;
+
+function process(overrides: Record<string, unknown> = {}) {
+  return {
+    id: processId,
+    status: ProcessStatus.READY,
+    startTime: '2026-01-01T11:00:00Z',
+    duration: 2 * HOUR_NS,
+    isAcceptingVotes: true,
+    census: { censusOrigin: CensusOrigin.OffchainStatic, censusRoot: '0xroot', censusURI: '' },
+    ...overrides,
+  };
+}
+
+describe('evaluateVoterEligibility', () => {
+  it('reports an eligible voter with the time left to vote', () => {
+    const eligibility = evaluateVoterEligibility({
+      process: process(),
+      address: wallet.address,
+      weight: '5',
+      vote: null,
+      cspProviderConfigured: false,
+      now,
+    });
+
+    expect(eligibility).toMatchObject({
+      eligible: true,
+      inCensus: true,
+      weight: '5',
+      hasVoted: false,
+      censusOrigin: CensusOrigin.OffchainStatic,
+      secondsUntilStart: 0,
+      secondsUntilEnd: 3600,
+      cspProviderRequired: false,
+      reasons: [],
+    });
+    expect(eligibility.endDate.toISOString()).toBe('2026-01-01T13:00:00.000Z');
+  });
+
+  it('collects a reason code for every negative answer', () => {
+    const eligibility = evaluateVoterEligibility({
+      process: process({
+        startTime: '2026-01-01T13:00:00Z',
+        census: { censusOrigin: CensusOrigin.CSP, censusRoot: '0xroot', censusURI: '' },
+      }),
+      address: wallet.address,
+      vote: { voteId: '0x01' },
+      cspProviderConfigured: false,
+      now,
+    });
+
+    expect(eligibility.eligible).toBe(false);
+    expect(eligibility.inCensus).toBeUndefined();
+    expect(eligibility.previousVoteId).toBe('0x01');
+    expect(eligibility.secondsUntilStart).toBe(3600);
+    expect(eligibility.reasons.map(reason => reason.code)).toEqual([
+      VoterIneligibilityReason.CspProviderMissing,
+      VoterIneligibilityReason.AlreadyVoted,
+      VoterIneligibilityReason.ProcessNotStarted,
+    ]);
+  });
+
+  it('reports the process status before the voting period', () => {
+    const codes = (overrides: Record<string, unknown>) =>
+      evaluateVoterEligibility({
+        process: process(overrides),
+        address: wallet.address,
+        weight: null,
+        vote: null,
+        cspProviderConfigured: false,
+        now,
+      }).reasons.map(reason => reason.code);
+
+    expect(codes({ status: ProcessStatus.PAUSED })).toEqual([
+      VoterIneligibilityReason.NotInCensus,
+      VoterIneligibilityReason.ProcessPaused,
+    ]);
+    expect(codes({ status: ProcessStatus.CANCELED })).toContain(
+      VoterIneligibilityReason.ProcessCanceled
+    );
+    expect(codes({ status: ProcessStatus.RESULTS })).toContain(
+      VoterIneligibilityReason.ProcessEnded
+    );
+    expect(codes({ startTime: '2026-01-01T09:00:00Z' })).toContain(
+      VoterIneligibilityReason.ProcessEnded
+    );
+    expect(codes({ isAcceptingVotes: false })).toContain(
+      VoterIneligibilityReason.ProcessNotAcceptingVotes
+    );
+  });
+});
+
+describe('VoteOrchestrationService.getVoterEligibility', () => {
+  it("checks the signer's address and treats an unknown participant as not in census", async () => {
+    const sequencer = {
+      getProcess: vi.fn().mockResolvedValue(process({ startTime: new Date().toISOString() })),
+      getAddressWeight: vi
+        .fn()
+        .mockRejectedValue(Object.assign(new Error('not found'), { code: 40001 })),
+      getAddressVote: vi.fn().mockResolvedValue(null),
+    };
+    const orchestrator = new VoteOrchestrationService(
+      { sequencer } as unknown as VocdoniApiService,
+      () => Promise.resolve({} as BallotInputGenerator),
+      wallet
+    );
+
+    const eligibility = await orchestrator.getVoterEligibility(processId);
+
+    expect(eligibility.address).toBe(wallet.address);
+    expect(eligibility.inCensus).toBe(false);
+    expect(eligibility.reasons.map(reason => reason.code)).toEqual([
+      VoterIneligibilityReason.NotInCensus,
+    ]);
+    expect(sequencer.getAddressWeight).toHaveBeenCalledWith(processId, wallet.address, undefined);
+
+    sequencer.getAddressWeight.mockRejectedValue(Object.assign(new Error('boom'), { code: 500 }));
+    await expect(orchestrator.getVoterEligibility(processId)).rejects.toThrow('boom');
+  });
+});
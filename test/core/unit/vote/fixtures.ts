@@ -0,0 +1,111 @@
+import { Signer, Wallet } from 'ethers';
+import { VoteOrchestrationService } from '../../../../src/core/vote/VoteOrchestrationService';
+import { VoteStatus } from '../../../../src/sequencer/api/types';
+import type { VocdoniApiService } from '../../../../src/core/api/ApiService';
+import type { BallotInputGenerator } from '../../../../src/sequencer/BallotInputGenerator';
+import type { ProvingExecutor } from '../../../../src/core/proving/executor';
+
+export const processId = '0x' + 'ab'.repeat(31);
+
+// Sequencer encryption key (RTE coordinates)
+export const encryptionKey = {
+  x: '19485953556403312941904393378091455968053684322142533232252221507246354347357',
+  y: '16219479350243308044593790248520319281271283090548119799482663113896815349782',
+};
+
+// Single yes/no field
+export const ballotMode = {
+  numFields: 1,
+  maxValue: '1',
+  minValue: '0',
+  uniqueValues: false,
+  costExponent: 1,
+  maxValueSum: '1',
+  minValueSum: '0',
+};
+
+// Two fields with values up to 3, for ballots encrypted with the real generator
+export const choiceBallotMode = {
+  numFields: 2,
+  maxValue: '3',
+  minValue: '0',
+  uniqueValues: false,
+  costExponent: 1,
+  maxValueSum: '6',
+  minValueSum: '0',
+};
+
+export function processState(overrides: Record<string, unknown> = {}) {
+  return {
+    id: processId,
+    isAcceptingVotes: true,
+    census: { censusOrigin: 1, censusRoot: '0xroot' },
+    encryptionKey,
+    ballotMode,
+    metadataURI: '',
+    ...overrides,
+  };
+}
+
+export function mockSequencer(process: Record<string, unknown> = {}) {
+  return {
+    getProcess: vi.fn().mockResolvedValue(processState(process)),
+    getAddressVote: vi.fn().mockResolvedValue(null),
+    getAddressWeight: vi.fn().mockResolvedValue('1'),
+    getInfo: vi.fn().mockResolvedValue({ circuitHash: 'aa', provingKeyHash: 'bb' }),
+    submitVote: vi.fn().mockResolvedValue(undefined),
+    getVoteStatus: vi.fn().mockResolvedValue({ status: VoteStatus.Pending }),
+  };
+}
+
+/**
+ * Generator stub returning fixed inputs; pass a function to vary the vote ID per call
+ */
+export function stubGenerator(voteId: string | (() => string) = '0x01') {
+  return {
+    generateInputs: vi.fn().mockImplementation(() =>
+      Promise.resolve({
+        voteId: typeof voteId === 'function' ? voteId() : voteId,
+        ballot: { curveType: 'bjj_iden3', ciphertexts: [] },
+        ballotInputsHash: '123',
+        circomInputs: { vote_id: '1' },
+      })
+    ),
+  };
+}
+
+export function stubExecutor() {
+  return {
+    hasArtifact: () => true,
+    prove: vi.fn().mockResolvedValue({
+      proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16' },
+      publicSignals: [],
+    }),
+  } satisfies ProvingExecutor;
+}
+
+export interface VoteServiceOverrides {
+  /** Fields of the process returned by the sequencer */
+  process?: Record<string, unknown>;
+  /** Ballot input generator (default: `stubGenerator()`) */
+  generator?: BallotInputGenerator | ReturnType<typeof stubGenerator>;
+  signer?: Signer;
+}
+
+/**
+ * Vote orchestration service backed by a mocked sequencer and a stub prover
+ */
+export function createVoteService(overrides: VoteServiceOverrides = {}) {
+  const sequencer = mockSequencer(overrides.process);
+  const generator = overrides.generator ?? stubGenerator();
+  const executor = stubExecutor();
+
+  const orchestrator = new VoteOrchestrationService(
+    { sequencer } as unknown as VocdoniApiService,
+    () => Promise.resolve(generator as BallotInputGenerator),
+    overrides.signer ?? Wallet.createRandom(),
+    {},
+    { verifyProof: false, provingExecutor: executor }
+  );
+  return { orchestrator, sequencer, executor };
+}
@@ -1,3 +1,5 @@
+import { BallotRule, checkBallot } from '../../../src/crypto/BallotChecker';
+
 type BallotTestCase = {
   name: string;
   fields: number[];
@@ -297,6 +299,95 @@ describe('BallotChecker emulation', () => {
 
       const passes = emulateBallotChecker(inputs);
       expect(passes).toBe(tc.expectPass);
+
+      const result = checkBallot(
+        tc.fields,
+        {
+          numFields: tc.maxCount,
+          groupSize: tc.maxCount,
+          uniqueValues: tc.forceUnique,
+          maxValue: String(tc.maxValue),
+          minValue: String(tc.minValue),
+          maxValueSum: String(tc.maxTotalCost),
+          minValueSum: String(tc.minTotalCost),
+          costExponent: tc.costExp,
+        },
+        inputs.weight
+      );
+      expect(result.valid).toBe(tc.expectPass);
+      expect(result.violations.length === 0).toBe(tc.expectPass);
     });
   }
 });
+
+describe('checkBallot', () => {
+  const ballotMode = {
+    numFields: 3,
+    groupSize: 3,
+    uniqueValues: true,
+    maxValue: '5',
+    minValue: '0',
+    maxValueSum: '6',
+    minValueSum: '1',
+    costExponent: 1,
+  };
+
+  it('reports every violated rule with the offending field', () => {
+    const result = checkBallot([6, 6, 6], ballotMode);
+
+    expect(result.valid).toBe(false);
+    expect(result.totalCost).toBe(18n);
+    expect(result.violations.map(v => v.rule)).toEqual([
+      BallotRule.Range,
+      BallotRule.Range,
+      BallotRule.Range,
+      BallotRule.UniqueValues,
+      BallotRule.UniqueValues,
+      BallotRule.MaxValueSum,
+    ]);
+    expect(result.violations[0]).toMatchObject({ fieldIndex: 0 });
+    expect(result.violations[0].message).toContain('out of range [0, 5]');
+  });
+
+  it('zero-pads missing fields like the circuit', () => {
+    const result = checkBallot([1], { ...ballotMode, uniqueValues: false });
+    expect(result.valid).toBe(true);
+
+    const padded = checkBallot([1], ballotMode);
+    expect(padded.violations).toEqual([
+      expect.objectContaining({ rule: BallotRule.UniqueValues, fieldIndex: 2 }),
+    ]);
+  });
+
+  it('rejects more fields than numFields', () => {
+    const result = checkBallot([1, 2, 3, 0], ballotMode);
+    expect(result.violations.map(v => v.rule)).toEqual([BallotRule.NumFields]);
+  });
+
+  it('rejects non-integer values', () => {
+    const result = checkBallot([1.5, 2, 3], ballotMode);
+    expect(result.violations.map(v => v.rule)).toEqual([BallotRule.Range]);
+  });
+
+  it('scales the cost bounds by the weight when costExponent > 1', () => {
+    const quadratic = {
+      ...ballotMode,
+      uniqueValues: false,
+      maxValue: '10',
+      maxValueSum: '10',
+      minValueSum: '0',
+      costExponent: 2,
+    };
+
+    // cost = 9 + 9 + 0 = 18
+    expect(checkBallot([3, 3, 0], quadratic, 1).valid).toBe(false);
+    expect(checkBallot([3, 3, 0], quadratic, 2).valid).toBe(true);
+    // linear ballots are not scaled
+    expect(checkBallot([6, 6, 0], { ...quadratic, costExponent: 1 }, 2).valid).toBe(false);
+  });
+
+  it('rejects an invalid cost exponent', () => {
+    const result = checkBallot([0, 1, 2], { ...ballotMode, costExponent: 0 });
+    expect(result.violations.map(v => v.rule)).toContain(BallotRule.CostExponent);
+  });
+});
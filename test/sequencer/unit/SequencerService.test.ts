@@ -0,0 +1,58 @@
+import { VocdoniSequencerService } from '../../../src/sequencer/SequencerService';
+import { AbortError } from '../../../src/core/api/abort';
+
+describe('VocdoniSequencerService.getMetadataRaw', () => {
+  const hash = '0x01551220' + 'ab'.repeat(32);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the metadata document verbatim through the service request path', async () => {
+    const raw = '{ "version": "1.2" }\n';
+    const fetchMock = vi.fn((_url: string, _init?: RequestInit) =>
+      Promise.resolve(
+        new Response(raw, { status: 200, headers: { 'content-type': 'application/json' } })
+      )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const sequencer = new VocdoniSequencerService('https://sequencer.example.com');
+
+    await expect(sequencer.getMetadataRaw(hash)).resolves.toBe(raw);
+    expect(fetchMock.mock.calls[0][0]).toBe(`https://sequencer.example.com/metadata/${hash}`);
+    expect(fetchMock.mock.calls[0][1]?.method).toBe('GET');
+  });
+
+  it('cancels the request when the signal is aborted', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(
+        (_url: string, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+          })
+      )
+    );
+    const controller = new AbortController();
+
+    const sequencer = new VocdoniSequencerService('https://sequencer.example.com');
+    const raw = sequencer.getMetadataRaw(hash, controller.signal);
+    controller.abort();
+
+    await expect(raw).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('fails with the response code', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve(new Response('', { status: 404, statusText: 'Not Found' })))
+    );
+
+    const sequencer = new VocdoniSequencerService('https://sequencer.example.com');
+
+    await expect(
+      sequencer.getMetadataRaw('https://metadata.example.com/election.json')
+    ).rejects.toMatchObject({ message: 'Not Found', code: 404 });
+  });
+});
@@ -0,0 +1,221 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AbortError } from '../../../src/core/api/abort';
+import { VocdoniSequencerService } from '../../../src/sequencer/SequencerService';
+import { backoffDelay, StatusSubscriber } from '../../../src/sequencer/StatusSubscription';
+import { StatusUpdate, VoteStatus } from '../../../src/sequencer/api/types';
+
+type Handler = (req: IncomingMessage, res: ServerResponse, url: URL) => void;
+
+const processId = '0xabc';
+const stats = (pendingVotesCount: number) => ({
+  stateTransitionCount: 1,
+  lastStateTransitionDate: '2026-01-01T00:00:00Z',
+  settledStateTransitionCount: 1,
+  aggregatedVotesCount: 0,
+  verifiedVotesCount: 0,
+  pendingVotesCount,
+  currentBatchSize: 0,
+  lastBatchSize: 0,
+});
+
+function json(res: ServerResponse, body: unknown, status = 200) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+describe('StatusSubscriber', () => {
+  let server: Server;
+  let sequencer: VocdoniSequencerService;
+  let handler: Handler;
+  const requests: URL[] = [];
+
+  beforeEach(async () => {
+    requests.length = 0;
+    // Local stand-in for the sequencer
+    server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      requests.push(url);
+      handler(req, res, url);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    sequencer = new VocdoniSequencerService(`http://127.0.0.1:${port}`);
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('delivers the current state, then pushed changes once each', async () => {
+    handler = (_req, res, url) => {
+      if (url.pathname === `/votes/${processId}/voteId/0x01`) {
+        json(res, { status: VoteStatus.Pending });
+      } else if (url.pathname === `/processes/${processId}`) {
+        json(res, { sequencerStats: stats(1) });
+      } else if (url.pathname === `/processes/${processId}/events`) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(': connected\n\n');
+        res.write(`event: vote-status\ndata: {"voteId":"0x01","status":"pending"}\n\n`);
+        res.write(
+          `event: vote-status\r\ndata: {"voteId":"0x01",\r\ndata: "status":"verified"}\r\n\r\n`
+        );
+        res.write(`event: process-stats\ndata: ${JSON.stringify(stats(0))}\n\n`);
+      } else {
+        json(res, { error: 'not found', code: 404 }, 404);
+      }
+    };
+    const controller = new AbortController();
+    const updates: StatusUpdate[] = [];
+
+    const subscription = (async () => {
+      for await (const update of new StatusSubscriber(sequencer, 'auto').subscribe({
+        processId,
+        voteIds: ['0x01'],
+        stats: true,
+        signal: controller.signal,
+      })) {
+        updates.push(update);
+        if (updates.length === 4) controller.abort();
+      }
+    })();
+
+    await expect(subscription).rejects.toBeInstanceOf(AbortError);
+    expect(updates).toEqual([
+      { type: 'vote-status', processId, voteId: '0x01', status: VoteStatus.Pending },
+      { type: 'process-stats', processId, stats: stats(1) },
+      { type: 'vote-status', processId, voteId: '0x01', status: VoteStatus.Verified },
+      { type: 'process-stats', processId, stats: stats(0) },
+    ]);
+    const events = requests.find(url => url.pathname.endsWith('/events'));
+    expect(events?.searchParams.getAll('voteId')).toEqual(['0x01']);
+    expect(events?.searchParams.get('stats')).toBe('true');
+  });
+
+  it('falls back to polling when the sequencer has no event stream', async () => {
+    const statuses = [VoteStatus.Pending, VoteStatus.Pending, VoteStatus.Settled];
+    handler = (_req, res, url) => {
+      if (url.pathname === `/votes/${processId}/voteId/0x01`) {
+        json(res, { status: statuses.shift() ?? VoteStatus.Settled });
+      } else {
+        json(res, { error: 'not found', code: 404 }, 404);
+      }
+    };
+    const seen: VoteStatus[] = [];
+
+    for await (const update of new StatusSubscriber(sequencer, 'auto').subscribe({
+      processId,
+      voteIds: ['0x01'],
+      pollIntervalMs: 1,
+    })) {
+      if (update.type === 'vote-status') seen.push(update.status);
+      if (seen.length === 2) break;
+    }
+
+    expect(seen).toEqual([VoteStatus.Pending, VoteStatus.Settled]);
+    expect(requests.filter(url => url.pathname.endsWith('/events'))).toHaveLength(1);
+  });
+
+  it('polls with backoff and jitter without the event stream by default', async () => {
+    const statuses = [VoteStatus.Pending, VoteStatus.Pending, VoteStatus.Settled];
+    handler = (_req, res, url) => {
+      json(res, { status: url.pathname.endsWith('/events') ? 'ok' : statuses.shift() });
+    };
+    const random = vi.fn(() => 0);
+    const seen: VoteStatus[] = [];
+
+    for await (const update of new StatusSubscriber(sequencer, undefined, random).subscribe({
+      processId,
+      voteIds: ['0x01'],
+      pollIntervalMs: 1,
+    })) {
+      if (update.type === 'vote-status') seen.push(update.status);
+      if (seen.length === 2) break;
+    }
+
+    expect(seen).toEqual([VoteStatus.Pending, VoteStatus.Settled]);
+    expect(requests).toHaveLength(3);
+    expect(requests.some(url => url.pathname.endsWith('/events'))).toBe(false);
+    expect(random).toHaveBeenCalledTimes(2);
+  });
+
+  it('polls at a fixed interval when the maximum interval is the initial one', async () => {
+    const statuses = [VoteStatus.Pending, VoteStatus.Pending, VoteStatus.Settled];
+    handler = (_req, res) => json(res, { status: statuses.shift() });
+    const random = vi.fn(() => 0);
+    const seen: VoteStatus[] = [];
+
+    for await (const update of new StatusSubscriber(sequencer, 'polling', random).subscribe({
+      processId,
+      voteIds: ['0x01'],
+      pollIntervalMs: 1,
+      maxPollIntervalMs: 1,
+    })) {
+      if (update.type === 'vote-status') seen.push(update.status);
+      if (seen.length === 2) break;
+    }
+
+    expect(seen).toEqual([VoteStatus.Pending, VoteStatus.Settled]);
+    expect(random).not.toHaveBeenCalled();
+  });
+
+  it('caps the requests of a polling round and keeps the updates of those that succeed', async () => {
+    const voteIds = Array.from(
+      { length: 20 },
+      (_, i) => `0x${(i + 1).toString(16).padStart(2, '0')}`
+    );
+    let inFlight = 0;
+    let maxInFlight = 0;
+    handler = (_req, res, url) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      setTimeout(() => {
+        inFlight--;
+        if (url.pathname.endsWith('/0x02')) {
+          json(res, { error: 'unavailable', code: 503 }, 503);
+        } else {
+          json(res, { status: VoteStatus.Pending });
+        }
+      }, 5);
+    };
+    const seen = new Set<string>();
+
+    for await (const update of new StatusSubscriber(sequencer).subscribe({
+      processId,
+      voteIds,
+      pollIntervalMs: 1,
+    })) {
+      if (update.type === 'vote-status') seen.add(update.voteId);
+      if (seen.size === voteIds.length - 1) break;
+    }
+
+    expect(seen.has('0x02')).toBe(false);
+    expect(requests).toHaveLength(voteIds.length);
+    expect(maxInFlight).toBeLessThanOrEqual(8);
+  });
+
+  it('fails when push is required and the sequencer has no event stream', async () => {
+    handler = (_req, res, url) => {
+      if (url.pathname.endsWith('/events')) {
+        json(res, { status: 'ok' });
+      } else {
+        json(res, { status: VoteStatus.Pending });
+      }
+    };
+    const subscription = new StatusSubscriber(sequencer, 'push').subscribe({
+      processId,
+      voteIds: ['0x01'],
+    });
+
+    await expect(subscription.next()).resolves.toMatchObject({ done: false });
+    await expect(subscription.next()).rejects.toMatchObject({ code: 406 });
+  });
+
+  it('backs off exponentially with jitter up to the maximum interval', () => {
+    expect(backoffDelay(100, 1000, 0, () => 0)).toBe(50);
+    expect(backoffDelay(100, 1000, 0, () => 1)).toBe(100);
+    expect(backoffDelay(100, 1000, 2, () => 0.5)).toBe(300);
+    expect(backoffDelay(100, 1000, 10, () => 1)).toBe(1000);
+  });
+});